@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAdmin } from '@/lib/auth'
+import { usageReport } from '@/lib/usage'
+
+const MAX_DAYS = 90
+
+// 사용량 보고서: /api/admin/usage?days=30
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request)
+
+    const days = Number(request.nextUrl.searchParams.get('days') || 30)
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `기간은 1~${MAX_DAYS}일로 지정해주세요` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await usageReport(days))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Usage report error:', error)
+    return NextResponse.json(
+      { error: '사용량을 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
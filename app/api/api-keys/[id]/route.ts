@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revokeApiKey } from '@/lib/apiKeys'
+import { AuthError, requireUserId } from '@/lib/auth'
+
+// API 키 폐기
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const revoked = await revokeApiKey(requireUserId(request), params.id)
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'API 키를 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('API key revoke error:', error)
+    return NextResponse.json(
+      { error: 'API 키를 폐기하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
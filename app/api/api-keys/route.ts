@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createApiKey, listApiKeys } from '@/lib/apiKeys'
+import { AuthError, requireUserId } from '@/lib/auth'
+
+const MAX_NAME_LENGTH = 50
+
+// 내 API 키 목록
+export async function GET(request: NextRequest) {
+  try {
+    const keys = await listApiKeys(requireUserId(request))
+    return NextResponse.json({ keys })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('API key list error:', error)
+    return NextResponse.json(
+      { error: 'API 키를 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 새 API 키: { name } → { key, secret } (secret은 이 응답에서만 볼 수 있음)
+export async function POST(request: NextRequest) {
+  try {
+    const userId = requireUserId(request)
+    const { name } = await request.json()
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `이름은 1~${MAX_NAME_LENGTH}자로 입력해주세요` },
+        { status: 400 }
+      )
+    }
+
+    const { key, secret } = await createApiKey(userId, name.trim())
+    return NextResponse.json({ key, secret }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('API key create error:', error)
+    return NextResponse.json(
+      { error: 'API 키를 만들지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
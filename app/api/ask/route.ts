@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { AskMessage, askTranscript, EmbeddingCacheKey } from '@/lib/ask'
+import { getHistory } from '@/lib/history'
+import { openai } from '@/lib/openai'
+import type { TranscriptSegment } from '@/lib/types'
+
+function isAskMessage(value: unknown): value is AskMessage {
+  const message = value as AskMessage
+  return Boolean(message)
+    && (message.role === 'user' || message.role === 'assistant')
+    && typeof message.content === 'string'
+}
+
+// 질문: { question, historyId 또는 transcript, history? }
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+
+    if (!openai) {
+      return NextResponse.json(
+        { error: 'OpenAI API 키가 설정되지 않았습니다' },
+        { status: 500 }
+      )
+    }
+
+    const { question, historyId, transcript, history } = await request.json()
+
+    if (typeof question !== 'string' || !question.trim()) {
+      return NextResponse.json(
+        { error: '질문을 입력해주세요' },
+        { status: 400 }
+      )
+    }
+
+    let segments: TranscriptSegment[]
+    // 수정하면 임베딩을 새로 만들도록 수정 시각을 버전으로
+    let cacheKey: EmbeddingCacheKey | null = null
+
+    if (historyId) {
+      const item = await getHistory(historyId, owner)
+
+      if (!item) {
+        return NextResponse.json(
+          { error: '저장된 대본을 찾을 수 없습니다' },
+          { status: 404 }
+        )
+      }
+
+      segments = item.transcript
+      cacheKey = { id: item.id, version: item.editedAt ?? '' }
+    } else if (Array.isArray(transcript)) {
+      segments = transcript
+    } else {
+      return NextResponse.json(
+        { error: '대본 데이터가 필요합니다' },
+        { status: 400 }
+      )
+    }
+
+    if (segments.length === 0) {
+      return NextResponse.json(
+        { error: '대본 내용이 없습니다' },
+        { status: 400 }
+      )
+    }
+
+    const previous = Array.isArray(history) ? history.filter(isAskMessage) : []
+    const result = await askTranscript(segments, question.trim(), previous, cacheKey)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Ask Error:', error)
+    return NextResponse.json(
+      { error: '답변을 만들지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const maxDuration = 60
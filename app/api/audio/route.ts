@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { RateLimitError } from '@/lib/rateLimit'
+import { AudioResolveError, audioFileName, fetchAudio, resolveAudioSource } from '@/lib/audioSource'
+import { assertVideoId, PipelineError } from '@/lib/pipeline'
+import { enforceUsageLimits, usageSubject } from '@/lib/usage'
+
+// 영상 오디오 다운로드 (업로드 탭에서 받은 파일을 그대로 올릴 수 있게 m4a 우선)
+export async function GET(request: NextRequest) {
+  try {
+    const videoId = request.nextUrl.searchParams.get('videoId')
+    assertVideoId(videoId)
+
+    // RapidAPI 호출 비용이 드니 추출과 같은 요청 수 제한
+    const owner = await getOwner(request)
+    await enforceUsageLimits(usageSubject(request, owner))
+
+    const source = await resolveAudioSource(videoId, { preferredTypes: ['audio/mp4'] })
+    const audio = await fetchAudio(source)
+    const fileName = audioFileName(source, videoId)
+
+    return new NextResponse(audio.body, {
+      headers: {
+        'Content-Type': source.mimeType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        ...(audio.headers.get('content-length') ? { 'Content-Length': audio.headers.get('content-length')! } : {}),
+      },
+    })
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof PipelineError || error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Audio download error:', error)
+    return NextResponse.json(
+      { error: error instanceof AudioResolveError ? error.message : '오디오 다운로드에 실패했습니다' },
+      { status: 502 }
+    )
+  }
+}
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
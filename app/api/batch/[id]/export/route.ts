@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getBatch } from '@/lib/batch'
+import { getHistory } from '@/lib/history'
+import { ExportDocument, isExportFormat } from '@/lib/export'
+import { renderCombinedJson, renderZip } from '@/lib/bundle'
+
+// 일괄 추출 결과 묶어서 내보내기: ?format=zip&file=srt 또는 ?format=json
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const format = request.nextUrl.searchParams.get('format') || 'zip'
+  const fileFormat = request.nextUrl.searchParams.get('file') || 'txt'
+
+  if (format !== 'zip' && format !== 'json') {
+    return NextResponse.json(
+      { error: '지원하지 않는 형식입니다 (zip, json)' },
+      { status: 400 }
+    )
+  }
+
+  if (!isExportFormat(fileFormat)) {
+    return NextResponse.json(
+      { error: '지원하지 않는 형식입니다 (srt, vtt, txt, md, json)' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const owner = await getOwner(request)
+    const batch = await getBatch(params.id, owner)
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: '일괄 작업을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    const docs: ExportDocument[] = []
+    for (const item of batch.items) {
+      if (item.status !== 'done' || !item.historyId) continue
+      const detail = await getHistory(item.historyId, owner)
+      if (detail) docs.push(detail)
+    }
+
+    if (docs.length === 0) {
+      return NextResponse.json(
+        { error: '완료된 대본이 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    if (format === 'json') {
+      return new NextResponse(renderCombinedJson(docs), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="transcripts.json"',
+        },
+      })
+    }
+
+    const zip = await renderZip(docs, fileFormat)
+    return new NextResponse(zip, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="transcripts-${fileFormat}.zip"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Batch export error:', error)
+    return NextResponse.json(
+      { error: '내보내기에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
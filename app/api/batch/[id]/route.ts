@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getBatch } from '@/lib/batch'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const batch = await getBatch(params.id, owner)
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: '일괄 작업을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Batch fetch error:', error)
+    return NextResponse.json(
+      { error: '작업 상태를 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { RateLimitError } from '@/lib/rateLimit'
+import { BATCH_MAX_VIDEOS, startBatch } from '@/lib/batch'
+import { parseLanguages } from '@/lib/languages'
+import { enforceUsageLimits, usageSubject } from '@/lib/usage'
+import { resolveVideoIds } from '@/lib/youtube'
+
+// 일괄 추출 시작: { input: "URL 여러 줄 / 재생목록 / @채널" }
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const subject = usageSubject(request, owner)
+    const { input, languages } = await request.json()
+
+    if (!input || typeof input !== 'string' || !input.trim()) {
+      return NextResponse.json(
+        { error: 'URL을 한 줄에 하나씩 입력해주세요' },
+        { status: 400 }
+      )
+    }
+
+    let videoIds: string[]
+    try {
+      videoIds = await resolveVideoIds(input, BATCH_MAX_VIDEOS)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '영상 목록을 가져올 수 없습니다'
+      return NextResponse.json(
+        { error: errorMessage },
+        { status: 400 }
+      )
+    }
+
+    if (videoIds.length === 0) {
+      return NextResponse.json(
+        { error: '추출할 영상을 찾지 못했습니다' },
+        { status: 404 }
+      )
+    }
+
+    await enforceUsageLimits(subject)
+    const batch = await startBatch(videoIds, parseLanguages(languages), owner, subject)
+
+    return NextResponse.json({ batch }, { status: 202 })
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Batch create error:', error)
+    return NextResponse.json(
+      { error: '서버 오류가 발생했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 응답 뒤에 waitUntil로 영상을 추출할 수 있는 시간 (남은 영상은 /api/cron/jobs가 이어서 실행)
+export const maxDuration = 300
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { drainJobs } from '@/lib/jobs'
+
+// 대기 중이거나 인스턴스가 멈춰서 끊긴 작업을 이어서 실행 (vercel.json의 crons에서 매분 호출)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: '인증되지 않은 요청입니다' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const started = await drainJobs()
+    return NextResponse.json({ started })
+  } catch (error) {
+    console.error('Job cron error:', error)
+    return NextResponse.json(
+      { error: '작업을 실행하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { checkSubscriptions } from '@/lib/subscriptions'
+
+// 모든 구독 채널에서 새 영상을 찾아 추출 (vercel.json의 crons에서 매시간 호출)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: '인증되지 않은 요청입니다' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const summary = await checkSubscriptions(null)
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('Subscription cron error:', error)
+    return NextResponse.json(
+      { error: '구독 채널을 확인하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { retryDueDeliveries } from '@/lib/webhooks'
+
+// 실패했거나 보내다 끊긴 웹훅 전송을 다시 보냄 (vercel.json의 crons에서 매분 호출)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: '인증되지 않은 요청입니다' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const retried = await retryDueDeliveries()
+    return NextResponse.json({ retried })
+  } catch (error) {
+    console.error('Webhook cron error:', error)
+    return NextResponse.json(
+      { error: '웹훅을 다시 보내지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
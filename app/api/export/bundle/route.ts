@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getHistory } from '@/lib/history'
+import { ExportDocument, isExportFormat } from '@/lib/export'
+import { renderCombinedJson, renderZip } from '@/lib/bundle'
+
+// 한 번에 묶을 수 있는 기록 수
+const MAX_BUNDLE_ITEMS = 200
+
+// 저장된 기록 여러 개를 묶어서 내보내기: ?ids=a,b,c&format=zip&file=srt 또는 &format=json
+export async function GET(request: NextRequest) {
+  const ids = (request.nextUrl.searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean)
+  const format = request.nextUrl.searchParams.get('format') || 'zip'
+  const fileFormat = request.nextUrl.searchParams.get('file') || 'txt'
+
+  if (ids.length === 0 || ids.length > MAX_BUNDLE_ITEMS) {
+    return NextResponse.json(
+      { error: `기록 ID를 1~${MAX_BUNDLE_ITEMS}개 입력해주세요` },
+      { status: 400 }
+    )
+  }
+
+  if (format !== 'zip' && format !== 'json') {
+    return NextResponse.json(
+      { error: '지원하지 않는 형식입니다 (zip, json)' },
+      { status: 400 }
+    )
+  }
+
+  if (!isExportFormat(fileFormat)) {
+    return NextResponse.json(
+      { error: '지원하지 않는 형식입니다 (srt, vtt, txt, md, json)' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const owner = await getOwner(request)
+
+    const docs: ExportDocument[] = []
+    for (const id of Array.from(new Set(ids))) {
+      const detail = await getHistory(id, owner)
+      if (detail) docs.push(detail)
+    }
+
+    if (docs.length === 0) {
+      return NextResponse.json(
+        { error: '저장된 대본을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    if (format === 'json') {
+      return new NextResponse(renderCombinedJson(docs), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="transcripts.json"',
+        },
+      })
+    }
+
+    const zip = await renderZip(docs, fileFormat)
+    return new NextResponse(zip, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="transcripts-${fileFormat}.zip"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Bundle export error:', error)
+    return NextResponse.json(
+      { error: '내보내기에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
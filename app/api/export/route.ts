@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getHistory } from '@/lib/history'
+import { ExportDocument, ExportFormat, exportFileName, isExportFormat, renderExport } from '@/lib/export'
+
+function fileResponse(doc: ExportDocument, format: ExportFormat) {
+  const file = renderExport(doc, format)
+  const fileName = exportFileName(doc.title, format)
+
+  return new NextResponse(file.body, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="transcript.${file.extension}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    },
+  })
+}
+
+// 저장된 기록 내보내기: /api/export?id=...&format=srt[&translation=en]
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id')
+  const format = request.nextUrl.searchParams.get('format') || 'txt'
+  const translationLanguage = request.nextUrl.searchParams.get('translation')
+
+  if (!id) {
+    return NextResponse.json(
+      { error: '기록 ID가 필요합니다' },
+      { status: 400 }
+    )
+  }
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: '지원하지 않는 형식입니다 (srt, vtt, txt, md, json)' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const item = await getHistory(id, await getOwner(request))
+
+    if (!item) {
+      return NextResponse.json(
+        { error: '저장된 대본을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    const translation = translationLanguage ? item.translations[translationLanguage] : null
+
+    if (translationLanguage && !translation) {
+      return NextResponse.json(
+        { error: '해당 언어의 번역이 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return fileResponse({ ...item, translation }, format)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Export Error:', error)
+    return NextResponse.json(
+      { error: '내보내기에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 저장되지 않은 결과 내보내기
+export async function POST(request: NextRequest) {
+  try {
+    const { format, title, videoId, channelName, source, transcript, fullText, translation, speakers } = await request.json()
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: '지원하지 않는 형식입니다 (srt, vtt, txt, md, json)' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(transcript)) {
+      return NextResponse.json(
+        { error: '대본 데이터가 필요합니다' },
+        { status: 400 }
+      )
+    }
+
+    return fileResponse({
+      title: typeof title === 'string' && title ? title : 'transcript',
+      videoId,
+      channelName,
+      source,
+      transcript,
+      fullText: typeof fullText === 'string' ? fullText : transcript.map((s: { text: string }) => s.text).join(' '),
+      translation: Array.isArray(translation) ? translation : null,
+      speakers: speakers && typeof speakers === 'object' ? speakers : null,
+    }, format)
+  } catch (error) {
+    console.error('Export Error:', error)
+    return NextResponse.json(
+      { error: '내보내기에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
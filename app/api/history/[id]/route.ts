@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getHistory, HistoryUpdate, updateHistory } from '@/lib/history'
+import { isSegmentList, normalizeSegments } from '@/lib/transcriptEdit'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const item = await getHistory(params.id, await getOwner(request))
+
+    if (!item) {
+      return NextResponse.json(
+        { error: '저장된 대본을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ item })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('History detail error:', error)
+    return NextResponse.json(
+      { error: '기록을 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+function isSpeakerNames(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(name => typeof name === 'string')
+}
+
+// 기록 수정: { speakers?, transcript? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const { speakers, transcript } = await request.json()
+    const update: HistoryUpdate = {}
+
+    if (speakers !== undefined) {
+      if (!isSpeakerNames(speakers)) {
+        return NextResponse.json(
+          { error: '화자 이름 형식이 올바르지 않습니다' },
+          { status: 400 }
+        )
+      }
+      update.speakers = speakers
+    }
+
+    if (transcript !== undefined) {
+      if (!isSegmentList(transcript)) {
+        return NextResponse.json(
+          { error: '대본 형식이 올바르지 않습니다' },
+          { status: 400 }
+        )
+      }
+
+      const segments = normalizeSegments(transcript)
+      if (segments.length === 0) {
+        return NextResponse.json(
+          { error: '대본이 비어 있습니다' },
+          { status: 400 }
+        )
+      }
+      update.transcript = segments
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: '수정할 내용이 없습니다' },
+        { status: 400 }
+      )
+    }
+
+    const item = await updateHistory(params.id, update, owner)
+
+    if (!item) {
+      return NextResponse.json(
+        { error: '저장된 대본을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ item })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('History update error:', error)
+    return NextResponse.json(
+      { error: '기록을 수정하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
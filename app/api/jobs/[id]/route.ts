@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getJob } from '@/lib/jobs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const job = await getJob(params.id, owner)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: '작업을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Job fetch error:', error)
+    return NextResponse.json(
+      { error: '작업 상태를 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { RateLimitError } from '@/lib/rateLimit'
+import { enqueueJob } from '@/lib/jobs'
+import { AUTO_LANGUAGE, parseLanguages } from '@/lib/languages'
+import { assertDiarization, assertUploadFile, assertVideoId, PipelineError } from '@/lib/pipeline'
+import { saveUpload, UploadError } from '@/lib/uploads'
+import { enforceUsageLimits, usageSubject } from '@/lib/usage'
+
+// 작업 생성: JSON { videoId, languages, force, provider, diarize } 또는 multipart(file, language, provider, diarize)
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const subject = usageSubject(request, owner)
+    const contentType = request.headers.get('content-type') || ''
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file') as File | null
+      const provider = formData.get('provider')
+      const providerName = typeof provider === 'string' && provider ? provider : null
+      assertUploadFile(file, providerName)
+      assertDiarization(formData.get('diarize') === 'true')
+      await enforceUsageLimits(subject)
+
+      const language = formData.get('language')
+      const upload = await saveUpload(file, owner?.userId ?? null)
+      const job = await enqueueJob({
+        kind: 'upload',
+        uploadId: upload.id,
+        fileName: upload.fileName,
+        language: typeof language === 'string' && language ? language : AUTO_LANGUAGE,
+        provider: providerName,
+        diarize: formData.get('diarize') === 'true',
+      }, { owner, subject, route: 'jobs' })
+      return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 })
+    }
+
+    const { videoId, languages, force, provider, diarize } = await request.json()
+    assertVideoId(videoId)
+    assertDiarization(diarize === true)
+    await enforceUsageLimits(subject)
+
+    const job = await enqueueJob({
+      kind: 'video',
+      videoId,
+      languages: parseLanguages(languages),
+      force: force === true,
+      provider: typeof provider === 'string' ? provider : null,
+      diarize: diarize === true,
+    }, { owner, subject, route: 'jobs' })
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 })
+
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof PipelineError || error instanceof UploadError || error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Job create error:', error)
+    return NextResponse.json(
+      { error: '작업을 시작하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 응답 뒤에 waitUntil로 작업을 실행할 수 있는 시간 (중간에 멈추면 /api/cron/jobs가 이어서 실행)
+export const maxDuration = 300
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { diarizationAvailable } from '@/lib/diarization'
+import { availableTranscriptionProviders, getTranscriptionProvider } from '@/lib/transcription'
+
+// 사용할 수 있는 음성 인식 provider 목록과 화자 구분 사용 가능 여부
+export async function GET() {
+  return NextResponse.json({
+    providers: availableTranscriptionProviders(),
+    defaultProvider: getTranscriptionProvider().name,
+    diarization: diarizationAvailable(),
+  })
+}
+
+export const dynamic = 'force-dynamic'
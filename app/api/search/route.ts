@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { searchHistory } from '@/lib/history'
+
+// 저장된 대본 검색: /api/search?q=...
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q')?.trim() || ''
+
+  if (!query) {
+    return NextResponse.json(
+      { error: '검색어를 입력해주세요' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const results = await searchHistory(query, await getOwner(request))
+    return NextResponse.json({ query, results })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Search Error:', error)
+    return NextResponse.json(
+      { error: '검색에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { unsubscribeChannel } from '@/lib/subscriptions'
+
+// 구독 취소 (발견한 영상 목록도 함께 삭제, 저장된 기록은 남음)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const deleted = await unsubscribeChannel(owner, params.id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: '구독을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Subscription delete error:', error)
+    return NextResponse.json(
+      { error: '구독을 취소하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
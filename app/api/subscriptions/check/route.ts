@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { RateLimitError } from '@/lib/rateLimit'
+import { checkSubscriptions } from '@/lib/subscriptions'
+import { enforceUsageLimits, usageSubject } from '@/lib/usage'
+
+// 내 구독 채널을 지금 확인 (cron을 기다리지 않고)
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    await enforceUsageLimits(usageSubject(request, owner))
+
+    const summary = await checkSubscriptions(owner)
+    return NextResponse.json(summary)
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Subscription check error:', error)
+    return NextResponse.json(
+      { error: '구독 채널을 확인하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const maxDuration = 300
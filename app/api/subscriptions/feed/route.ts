@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { listSubscriptionFeed } from '@/lib/subscriptions'
+
+// 구독 채널에서 새로 올라와 추출한 영상 (최신 50개)
+export async function GET(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const videos = await listSubscriptionFeed(owner)
+    return NextResponse.json({ videos })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Subscription feed error:', error)
+    return NextResponse.json(
+      { error: '피드를 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { listSubscriptions, subscribeChannel, SubscriptionError } from '@/lib/subscriptions'
+
+// 구독한 채널 목록 (로그인이 꺼져 있으면 전체)
+export async function GET(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const subscriptions = await listSubscriptions(owner)
+    return NextResponse.json({ subscriptions })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Subscription list error:', error)
+    return NextResponse.json(
+      { error: '구독 목록을 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 채널 구독: { channel } (채널 URL, @핸들, UC로 시작하는 채널 ID)
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const { channel } = await request.json()
+
+    const subscription = await subscribeChannel(channel, owner)
+    return NextResponse.json({ subscription }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SubscriptionError || error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Subscription create error:', error)
+    return NextResponse.json(
+      { error: '채널을 구독하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
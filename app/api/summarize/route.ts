@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getHistory, saveSummary } from '@/lib/history'
+import { openai } from '@/lib/openai'
+import { summarizeTranscript } from '@/lib/summarize'
+import type { TranscriptSegment } from '@/lib/types'
+
+// 요약: { historyId } 또는 { transcript }
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+
+    if (!openai) {
+      return NextResponse.json(
+        { error: 'OpenAI API 키가 설정되지 않았습니다' },
+        { status: 500 }
+      )
+    }
+
+    const { historyId, transcript } = await request.json()
+
+    let segments: TranscriptSegment[]
+
+    if (historyId) {
+      const item = await getHistory(historyId, owner)
+
+      if (!item) {
+        return NextResponse.json(
+          { error: '저장된 대본을 찾을 수 없습니다' },
+          { status: 404 }
+        )
+      }
+
+      // 이미 요약했으면 저장된 결과 반환
+      if (item.summary) {
+        return NextResponse.json({ summary: item.summary })
+      }
+
+      segments = item.transcript
+    } else if (Array.isArray(transcript)) {
+      segments = transcript
+    } else {
+      return NextResponse.json(
+        { error: '대본 데이터가 필요합니다' },
+        { status: 400 }
+      )
+    }
+
+    if (segments.length === 0) {
+      return NextResponse.json(
+        { error: '요약할 내용이 없습니다' },
+        { status: 400 }
+      )
+    }
+
+    const summary = await summarizeTranscript(segments)
+
+    if (historyId) {
+      try {
+        await saveSummary(historyId, summary, owner)
+      } catch (error) {
+        console.error('Summary save error:', error)
+      }
+    }
+
+    return NextResponse.json({ summary })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Summarize Error:', error)
+    return NextResponse.json(
+      { error: '요약에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const maxDuration = 60
@@ -1,96 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-
-const openai = process.env.OPENAI_API_KEY 
-  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-  : null
-
-interface TranscriptSegment {
-  text: string
-  offset: number
-  duration: number
-}
+import { AuthError, getOwner } from '@/lib/auth'
+import { RateLimitError } from '@/lib/rateLimit'
+import { AUTO_LANGUAGE } from '@/lib/languages'
+import { assertUploadFile, PipelineError, transcribeUpload } from '@/lib/pipeline'
+import { enforceUsageLimits, meterTranscription, usageSubject } from '@/lib/usage'
+import { withWebhooks } from '@/lib/webhooks'
 
 export async function POST(request: NextRequest) {
   try {
-    if (!openai) {
-      return NextResponse.json(
-        { error: 'OpenAI API 키가 설정되지 않았습니다' },
-        { status: 500 }
-      )
-    }
-
+    const owner = await getOwner(request)
     const formData = await request.formData()
     const file = formData.get('file') as File | null
+    const provider = formData.get('provider')
+    const providerName = typeof provider === 'string' && provider ? provider : null
 
-    if (!file) {
-      return NextResponse.json(
-        { error: '파일이 없습니다' },
-        { status: 400 }
-      )
-    }
+    assertUploadFile(file, providerName)
+
+    const subject = usageSubject(request, owner)
+    await enforceUsageLimits(subject)
+
+    const language = formData.get('language')
+    const result = await meterTranscription(subject, 'transcribe', providerName, () => withWebhooks(subject.userId, { route: 'transcribe', fileName: file.name }, () => transcribeUpload(file, {
+      language: typeof language === 'string' && language ? language : AUTO_LANGUAGE,
+      provider: providerName,
+      diarize: formData.get('diarize') === 'true',
+      owner,
+    })))
 
-    // 파일 크기 체크 (25MB)
-    if (file.size > 25 * 1024 * 1024) {
+    return NextResponse.json(result)
+
+  } catch (error) {
+    if (error instanceof RateLimitError) {
       return NextResponse.json(
-        { error: '파일 크기는 25MB 이하여야 합니다' },
-        { status: 400 }
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
       )
     }
 
-    // 파일 타입 체크
-    const validTypes = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/m4a', 'audio/mp4', 'audio/x-m4a']
-    const isValidType = validTypes.some(type => file.type.includes(type)) || 
-                        file.name.endsWith('.mp3') || 
-                        file.name.endsWith('.m4a') || 
-                        file.name.endsWith('.wav')
-    
-    if (!isValidType) {
+    if (error instanceof PipelineError || error instanceof AuthError) {
       return NextResponse.json(
-        { error: '지원하지 않는 파일 형식입니다. MP3, M4A, WAV 파일을 업로드해주세요.' },
-        { status: 400 }
+        { error: error.message },
+        { status: error.status }
       )
     }
 
-    // Whisper API 호출
-    const transcription = await openai.audio.transcriptions.create({
-      file: file,
-      model: 'whisper-1',
-      language: 'ko',
-      response_format: 'verbose_json',
-      timestamp_granularities: ['segment'],
-    })
-
-    // 세그먼트 변환
-    interface WhisperSegment {
-      text: string
-      start: number
-      end: number
-    }
-
-    const segments: TranscriptSegment[] = ((transcription as { segments?: WhisperSegment[] }).segments || []).map((seg: WhisperSegment) => ({
-      text: seg.text.trim(),
-      offset: seg.start,
-      duration: seg.end - seg.start,
-    }))
-
-    // 세그먼트가 없으면 전체 텍스트를 하나의 세그먼트로
-    if (segments.length === 0 && transcription.text) {
-      segments.push({
-        text: transcription.text,
-        offset: 0,
-        duration: 0,
-      })
-    }
-
-    const fullText = segments.map(s => s.text).join(' ')
-
-    return NextResponse.json({
-      transcript: segments,
-      fullText,
-    })
-
-  } catch (error) {
     console.error('Transcribe Error:', error)
     const errorMessage = error instanceof Error ? error.message : '음성 인식에 실패했습니다'
     return NextResponse.json(
@@ -101,4 +54,3 @@ export async function POST(request: NextRequest) {
 }
 
 export const maxDuration = 60
-
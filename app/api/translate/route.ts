@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { getHistory, saveTranslation } from '@/lib/history'
+import { isLanguageCode } from '@/lib/languages'
+import { openai } from '@/lib/openai'
+import { translateSegments } from '@/lib/translate'
+import type { TranscriptSegment } from '@/lib/types'
+
+// 번역: { targetLanguage, historyId } 또는 { targetLanguage, transcript }
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+
+    if (!openai) {
+      return NextResponse.json(
+        { error: 'OpenAI API 키가 설정되지 않았습니다' },
+        { status: 500 }
+      )
+    }
+
+    const { targetLanguage, historyId, transcript } = await request.json()
+
+    if (!isLanguageCode(targetLanguage)) {
+      return NextResponse.json(
+        { error: '번역할 언어를 선택해주세요' },
+        { status: 400 }
+      )
+    }
+
+    let segments: TranscriptSegment[]
+
+    if (historyId) {
+      const item = await getHistory(historyId, owner)
+
+      if (!item) {
+        return NextResponse.json(
+          { error: '저장된 대본을 찾을 수 없습니다' },
+          { status: 404 }
+        )
+      }
+
+      // 이미 번역한 언어면 저장된 결과 반환
+      if (item.translations[targetLanguage]) {
+        return NextResponse.json({ targetLanguage, translation: item.translations[targetLanguage] })
+      }
+
+      segments = item.transcript
+    } else if (Array.isArray(transcript)) {
+      segments = transcript
+    } else {
+      return NextResponse.json(
+        { error: '대본 데이터가 필요합니다' },
+        { status: 400 }
+      )
+    }
+
+    if (segments.length === 0) {
+      return NextResponse.json(
+        { error: '번역할 내용이 없습니다' },
+        { status: 400 }
+      )
+    }
+
+    const translation = await translateSegments(segments, targetLanguage)
+
+    if (historyId) {
+      try {
+        await saveTranslation(historyId, targetLanguage, translation, owner)
+      } catch (error) {
+        console.error('Translation save error:', error)
+      }
+    }
+
+    return NextResponse.json({ targetLanguage, translation })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Translate Error:', error)
+    return NextResponse.json(
+      { error: '번역에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const maxDuration = 60
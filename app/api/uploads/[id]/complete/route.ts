@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { RateLimitError } from '@/lib/rateLimit'
+import { enqueueJob, getJob } from '@/lib/jobs'
+import { AUTO_LANGUAGE } from '@/lib/languages'
+import { assertDiarization, assertUploadProvider, PipelineError } from '@/lib/pipeline'
+import { getCompleteUpload, startUploadJob, UploadError } from '@/lib/uploads'
+import { enforceUsageLimits, usageSubject } from '@/lib/usage'
+
+// 다 올린 파일로 음성 인식 작업 시작: { language, provider, diarize } → /api/jobs/[id]로 폴링
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const subject = usageSubject(request, owner)
+    const { language, provider, diarize } = await request.json().catch(() => ({}))
+
+    const providerName = typeof provider === 'string' && provider ? provider : null
+    assertUploadProvider(providerName)
+    assertDiarization(diarize === true)
+    const upload = await getCompleteUpload(params.id, owner?.userId ?? null)
+    await enforceUsageLimits(subject)
+
+    // 완료 요청이 두 번 와도 작업은 하나 (성공/실패와 상관없이 작업이 끝나면 파일 삭제)
+    const jobId = await startUploadJob(upload.id, async () => {
+      const job = await enqueueJob({
+        kind: 'upload',
+        uploadId: upload.id,
+        fileName: upload.fileName,
+        language: typeof language === 'string' && language ? language : AUTO_LANGUAGE,
+        provider: providerName,
+        diarize: diarize === true,
+      }, { owner, subject, route: 'uploads' })
+      return job.id
+    })
+    const job = await getJob(jobId, owner)
+
+    return NextResponse.json({ jobId, status: job?.status ?? 'queued' }, { status: 202 })
+
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof PipelineError || error instanceof UploadError || error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Upload complete error:', error)
+    return NextResponse.json(
+      { error: '작업을 시작하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 응답 뒤에 waitUntil로 작업을 실행할 수 있는 시간 (중간에 멈추면 /api/cron/jobs가 이어서 실행)
+export const maxDuration = 300
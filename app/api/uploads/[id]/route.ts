@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { appendChunk, getUpload, removeUpload, UploadError, uploadStatus } from '@/lib/uploads'
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof UploadError) {
+    // 위치가 어긋나면 현재 위치를 알려줘서 거기서부터 이어 올리게
+    const headers: Record<string, string> = error.received === undefined ? {} : { 'Upload-Offset': String(error.received) }
+    return NextResponse.json(
+      { error: error.message, received: error.received },
+      { status: error.status, headers }
+    )
+  }
+
+  if (error instanceof AuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status }
+    )
+  }
+
+  console.error(`${fallback}:`, error)
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+// 이어 올리기 전에 지금까지 받은 크기 확인
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const session = await getUpload(params.id, owner?.userId ?? null)
+
+    return NextResponse.json(
+      { upload: uploadStatus(session) },
+      { headers: { 'Upload-Offset': String(session.received) } }
+    )
+  } catch (error) {
+    return errorResponse(error, '업로드 상태를 불러오지 못했습니다')
+  }
+}
+
+// 조각 받기: Upload-Offset 헤더 + 본문(바이너리)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const offset = Number(request.headers.get('upload-offset'))
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new UploadError('Upload-Offset 헤더가 필요합니다', 400)
+    }
+
+    const chunk = Buffer.from(await request.arrayBuffer())
+    const session = await appendChunk(params.id, offset, chunk, owner?.userId ?? null)
+
+    return NextResponse.json(
+      { upload: uploadStatus(session) },
+      { headers: { 'Upload-Offset': String(session.received) } }
+    )
+  } catch (error) {
+    return errorResponse(error, '파일 조각을 저장하지 못했습니다')
+  }
+}
+
+// 업로드 취소
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    await getUpload(params.id, owner?.userId ?? null)
+    await removeUpload(params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, '업로드를 취소하지 못했습니다')
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { createUpload, UploadError, uploadStatus } from '@/lib/uploads'
+
+// 나눠 올리기 시작: { fileName, mimeType, size } → 업로드 ID와 조각 크기
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const { fileName, mimeType, size } = await request.json()
+
+    const session = await createUpload({ fileName, mimeType, size }, owner?.userId ?? null)
+    return NextResponse.json({ upload: uploadStatus(session) }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof UploadError || error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Upload create error:', error)
+    return NextResponse.json(
+      { error: '업로드를 시작하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { ApiError, v1Route } from '@/lib/apiV1'
+import { exportFileName, isExportFormat, renderExport } from '@/lib/export'
+import { getHistory } from '@/lib/history'
+
+// 파일로 내보내기: ?format=srt|vtt|txt|md|json[&translation=en]
+export const GET = v1Route<{ id: string }>(async (request, { owner }, params) => {
+  const format = request.nextUrl.searchParams.get('format') || 'txt'
+  const translationLanguage = request.nextUrl.searchParams.get('translation')
+
+  if (!isExportFormat(format)) {
+    throw new ApiError('bad_request', '지원하지 않는 형식입니다 (srt, vtt, txt, md, json)', 400)
+  }
+
+  const item = await getHistory(params.id, owner)
+
+  if (!item) {
+    throw new ApiError('not_found', '저장된 대본을 찾을 수 없습니다', 404)
+  }
+
+  const translation = translationLanguage ? item.translations[translationLanguage] : null
+
+  if (translationLanguage && !translation) {
+    throw new ApiError('not_found', '해당 언어의 번역이 없습니다', 404)
+  }
+
+  const file = renderExport({ ...item, translation }, format)
+  const fileName = exportFileName(item.title, format)
+
+  return new NextResponse(file.body, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="transcript.${file.extension}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    },
+  })
+})
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { ApiError, toHistoryDetailResource, v1Route } from '@/lib/apiV1'
+import { getHistory } from '@/lib/history'
+
+export const GET = v1Route<{ id: string }>(async (request, { owner }, params) => {
+  const item = await getHistory(params.id, owner)
+
+  if (!item) {
+    throw new ApiError('not_found', '저장된 대본을 찾을 수 없습니다', 404)
+  }
+
+  return NextResponse.json({ data: toHistoryDetailResource(item) })
+})
+
+export const dynamic = 'force-dynamic'
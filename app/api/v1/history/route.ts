@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { ApiError, pageParams, toHistoryResource, v1Route } from '@/lib/apiV1'
+import { decodeHistoryCursor, listHistoryPage } from '@/lib/history'
+
+// 저장된 기록 (최신순): ?limit=20&cursor=<이전 응답의 nextCursor>
+export const GET = v1Route(async (request, { owner }) => {
+  const { limit, cursor } = pageParams(request)
+  const before = cursor ? decodeHistoryCursor(cursor) : null
+
+  if (cursor && !before) {
+    throw new ApiError('bad_request', 'cursor가 올바르지 않습니다', 400)
+  }
+
+  const page = await listHistoryPage(owner, { limit, before })
+
+  return NextResponse.json({
+    data: page.items.map(toHistoryResource),
+    pagination: { limit, nextCursor: page.nextCursor },
+  })
+})
+
+export const dynamic = 'force-dynamic'
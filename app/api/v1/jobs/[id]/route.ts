@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { ApiError, toJobResource, v1Route } from '@/lib/apiV1'
+import { getJob } from '@/lib/jobs'
+
+// 작업 상태 (status가 done이면 result, failed면 error). 다른 키 소유자의 작업은 404
+export const GET = v1Route<{ id: string }>(async (request, { owner }, params) => {
+  const job = await getJob(params.id, owner)
+
+  if (!job) {
+    throw new ApiError('not_found', '작업을 찾을 수 없습니다', 404)
+  }
+
+  return NextResponse.json({ data: toJobResource(job) })
+})
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { ApiError, readJson, toJobResource, v1Route } from '@/lib/apiV1'
+import { enqueueJob } from '@/lib/jobs'
+import { AUTO_LANGUAGE, parseLanguages } from '@/lib/languages'
+import { assertDiarization, assertUploadFile, assertVideoId } from '@/lib/pipeline'
+import { saveUpload } from '@/lib/uploads'
+import { enforceUsageLimits } from '@/lib/usage'
+import { extractVideoId } from '@/lib/youtubeUrl'
+
+// 백그라운드 작업 생성: JSON { videoId 또는 url, ... } 또는 multipart(file, language, provider, diarize)
+export const POST = v1Route(async (request, { owner, subject }) => {
+  const contentType = request.headers.get('content-type') || ''
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const provider = formData.get('provider')
+    const providerName = typeof provider === 'string' && provider ? provider : null
+    assertUploadFile(file, providerName)
+    assertDiarization(formData.get('diarize') === 'true')
+    await enforceUsageLimits(subject)
+
+    const language = formData.get('language')
+    const upload = await saveUpload(file, owner?.userId ?? null)
+    const job = await enqueueJob({
+      kind: 'upload',
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      language: typeof language === 'string' && language ? language : AUTO_LANGUAGE,
+      provider: providerName,
+      diarize: formData.get('diarize') === 'true',
+    }, { owner, subject, route: 'v1/jobs' })
+    return NextResponse.json({ data: toJobResource(job) }, { status: 202 })
+  }
+
+  const body = await readJson(request)
+  const videoId = typeof body.videoId === 'string'
+    ? body.videoId
+    : typeof body.url === 'string' ? extractVideoId(body.url) : null
+
+  if (!videoId) {
+    throw new ApiError('bad_request', 'videoId 또는 url이 필요합니다', 400)
+  }
+  assertVideoId(videoId)
+  assertDiarization(body.diarize === true)
+  await enforceUsageLimits(subject)
+
+  const job = await enqueueJob({
+    kind: 'video',
+    videoId,
+    languages: parseLanguages(body.languages),
+    force: body.force === true,
+    provider: typeof body.provider === 'string' ? body.provider : null,
+    diarize: body.diarize === true,
+  }, { owner, subject, route: 'v1/jobs' })
+  return NextResponse.json({ data: toJobResource(job) }, { status: 202 })
+})
+
+// 응답 뒤에 waitUntil로 작업을 실행할 수 있는 시간 (중간에 멈추면 /api/cron/jobs가 이어서 실행)
+export const maxDuration = 300
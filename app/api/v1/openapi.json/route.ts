@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { openApiDocument } from '@/lib/openapi'
+
+// API 문서 (키 없이 볼 수 있음)
+export async function GET(request: NextRequest) {
+  return NextResponse.json(openApiDocument(request.nextUrl.origin))
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { ApiError, readJson, toTranscriptResource, v1Route } from '@/lib/apiV1'
+import { parseLanguages } from '@/lib/languages'
+import { assertDiarization, assertVideoId, extractVideo } from '@/lib/pipeline'
+import { enforceUsageLimits, meterTranscription } from '@/lib/usage'
+import { extractVideoId } from '@/lib/youtubeUrl'
+import { withWebhooks } from '@/lib/webhooks'
+
+// 영상 대본 추출 (응답까지 기다림): { videoId 또는 url, languages?, force?, provider?, diarize? }
+export const POST = v1Route(async (request, { owner, subject }) => {
+  const body = await readJson(request)
+  const videoId = typeof body.videoId === 'string'
+    ? body.videoId
+    : typeof body.url === 'string' ? extractVideoId(body.url) : null
+
+  if (!videoId) {
+    throw new ApiError('bad_request', 'videoId 또는 url이 필요합니다', 400)
+  }
+  // 잘못된 요청은 사용량 기록/웹훅 없이 바로 거절
+  assertVideoId(videoId)
+  assertDiarization(body.diarize === true)
+
+  const provider = typeof body.provider === 'string' ? body.provider : null
+  await enforceUsageLimits(subject)
+
+  const result = await meterTranscription(subject, 'v1/transcripts', provider, () => withWebhooks(subject.userId, { route: 'v1/transcripts', videoId }, () => extractVideo(videoId, {
+    languages: parseLanguages(body.languages),
+    force: body.force === true,
+    provider,
+    diarize: body.diarize === true,
+    owner,
+  })))
+
+  return NextResponse.json({ data: toTranscriptResource(result) })
+})
+
+export const maxDuration = 60
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { listDeliveries } from '@/lib/webhooks'
+
+// 최근 전송 기록 (최신순 50개)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const deliveries = await listDeliveries(owner?.userId ?? null, params.id)
+
+    if (!deliveries) {
+      return NextResponse.json(
+        { error: '웹훅을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Webhook deliveries error:', error)
+    return NextResponse.json(
+      { error: '전송 기록을 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { deleteWebhook } from '@/lib/webhooks'
+
+// 웹훅 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const deleted = await deleteWebhook(owner?.userId ?? null, params.id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: '웹훅을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Webhook delete error:', error)
+    return NextResponse.json(
+      { error: '웹훅을 삭제하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { sendTestWebhook } from '@/lib/webhooks'
+
+// 시험 전송 ('ping' 이벤트를 한 번 보내고 결과를 반환)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await getOwner(request)
+    const delivery = await sendTestWebhook(owner?.userId ?? null, params.id)
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: '웹훅을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ delivery })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Webhook test error:', error)
+    return NextResponse.json(
+      { error: '시험 전송에 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
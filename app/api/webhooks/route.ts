@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getOwner } from '@/lib/auth'
+import { createWebhook, listWebhooks, parseWebhookEvents, validateWebhookUrl, WebhookError } from '@/lib/webhooks'
+
+// 내 웹훅 목록 (로그인이 꺼져 있으면 공용 웹훅)
+export async function GET(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const webhooks = await listWebhooks(owner?.userId ?? null)
+    return NextResponse.json({ webhooks })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Webhook list error:', error)
+    return NextResponse.json(
+      { error: '웹훅을 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 웹훅 등록: { url, events? } → { webhook, secret } (secret은 이 응답에서만 볼 수 있음)
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await getOwner(request)
+    const { url, events } = await request.json()
+
+    const { webhook, secret } = await createWebhook(owner?.userId ?? null, validateWebhookUrl(url), parseWebhookEvents(events))
+    return NextResponse.json({ webhook, secret }, { status: 201 })
+  } catch (error) {
+    if (error instanceof WebhookError || error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Webhook create error:', error)
+    return NextResponse.json(
+      { error: '웹훅을 등록하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireUserId } from '@/lib/auth'
+import { joinWorkspace } from '@/lib/workspaces'
+
+// 초대 코드로 참여: { inviteCode }
+export async function POST(request: NextRequest) {
+  try {
+    const userId = requireUserId(request)
+    const { inviteCode } = await request.json()
+
+    if (typeof inviteCode !== 'string' || !inviteCode.trim()) {
+      return NextResponse.json(
+        { error: '초대 코드를 입력해주세요' },
+        { status: 400 }
+      )
+    }
+
+    const workspace = await joinWorkspace(userId, inviteCode.trim().toLowerCase())
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: '초대 코드가 올바르지 않습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ workspace })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Workspace join error:', error)
+    return NextResponse.json(
+      { error: '워크스페이스에 참여하지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireUserId } from '@/lib/auth'
+import { createWorkspace, listWorkspaces } from '@/lib/workspaces'
+
+const MAX_NAME_LENGTH = 50
+
+// 내가 속한 워크스페이스 목록
+export async function GET(request: NextRequest) {
+  try {
+    const workspaces = await listWorkspaces(requireUserId(request))
+    return NextResponse.json({ workspaces })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Workspace list error:', error)
+    return NextResponse.json(
+      { error: '워크스페이스를 불러오지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+// 워크스페이스 만들기: { name }
+export async function POST(request: NextRequest) {
+  try {
+    const userId = requireUserId(request)
+    const { name } = await request.json()
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `이름은 1~${MAX_NAME_LENGTH}자로 입력해주세요` },
+        { status: 400 }
+      )
+    }
+
+    const workspace = await createWorkspace(userId, name.trim())
+    return NextResponse.json({ workspace }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Workspace create error:', error)
+    return NextResponse.json(
+      { error: '워크스페이스를 만들지 못했습니다' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
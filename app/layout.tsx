@@ -1,4 +1,5 @@
 import type { Metadata } from 'next'
+import AuthGate from '@/components/AuthGate'
 import './globals.css'
 
 export const metadata: Metadata = {
@@ -14,7 +15,7 @@ export default function RootLayout({
   return (
     <html lang="ko">
       <body className="font-sans text-white antialiased">
-        {children}
+        <AuthGate>{children}</AuthGate>
       </body>
     </html>
   )
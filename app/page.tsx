@@ -1,26 +1,51 @@
 'use client'
 
-import { useState } from 'react'
-import Image from 'next/image'
-
-interface TranscriptSegment {
-  text: string
-  offset: number
-  duration: number
-}
-
-interface VideoInfo {
-  videoId: string
-  title: string
-  channelName: string
-  thumbnail: string
-}
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import HistorySidebar from '@/components/HistorySidebar'
+import ExportButtons from '@/components/ExportButtons'
+import JobProgress from '@/components/JobProgress'
+import BatchPanel from '@/components/BatchPanel'
+import LanguageSelect from '@/components/LanguageSelect'
+import ProviderSelect from '@/components/ProviderSelect'
+import DiarizeToggle from '@/components/DiarizeToggle'
+import SpeakerNames from '@/components/SpeakerNames'
+import TranscriptEditor, { EditedTranscript } from '@/components/TranscriptEditor'
+import TranscriptView from '@/components/TranscriptView'
+import SummaryPanel from '@/components/SummaryPanel'
+import AskPanel from '@/components/AskPanel'
+import MediaPlayer, { MediaController } from '@/components/MediaPlayer'
+import UploadQueue from '@/components/UploadQueue'
+import SubscriptionsPanel from '@/components/SubscriptionsPanel'
+import { runJob, waitForJob } from '@/lib/jobClient'
+import { droppedFiles, startUploadJob, uploadFile, UploadProgress } from '@/lib/uploadClient'
+import { extractVideoId } from '@/lib/youtubeUrl'
+import { DEFAULT_LANGUAGES, LANGUAGE_OPTIONS, languageLabel } from '@/lib/languages'
+import { speakerLabels } from '@/lib/speakers'
+import { activeSegmentIndex, formatTime } from '@/lib/transcript'
+import { isSupportedUpload, isVideoUpload, MAX_RESUMABLE_UPLOAD_LABEL, MAX_RESUMABLE_UPLOAD_SIZE, UPLOAD_ACCEPT, UPLOAD_FORMATS_LABEL } from '@/lib/uploadFormats'
+import type { Job } from '@/lib/jobs'
+import type { CaptionTrack, HistoryDetail, TranscriptSegment, TranscriptSource, TranscriptSummary, VideoInfo } from '@/lib/types'
 
 interface CrawlResult {
   videoInfo?: VideoInfo
   transcript: TranscriptSegment[]
   fullText: string
   fileName?: string
+  source?: TranscriptSource
+  language?: string | null
+  captionTracks?: CaptionTrack[]
+  historyId?: string | null
+  translations?: Record<string, TranscriptSegment[]>
+  summary?: TranscriptSummary | null
+  cached?: boolean
+  // 업로드한 파일의 길이 (초)
+  duration?: number | null
+  speakers?: Record<string, string>
+  originalTranscript?: TranscriptSegment[] | null
+  editedAt?: string | null
+  // 업로드한 파일의 blob URL (재생용)
+  audioUrl?: string
 }
 
 export default function Home() {
@@ -29,20 +54,30 @@ export default function Home() {
   const [result, setResult] = useState<CrawlResult | null>(null)
   const [error, setError] = useState('')
   const [copied, setCopied] = useState(false)
-  const [mode, setMode] = useState<'url' | 'upload'>('url')
+  const [mode, setMode] = useState<'url' | 'upload' | 'batch' | 'feed'>('url')
   const [dragOver, setDragOver] = useState(false)
-
-  const extractVideoId = (inputUrl: string): string | null => {
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
-      /youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-    ]
-    for (const pattern of patterns) {
-      const match = inputUrl.match(pattern)
-      if (match) return match[1]
-    }
-    return null
-  }
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0)
+  const [job, setJob] = useState<Job | null>(null)
+  const [jobRunning, setJobRunning] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null)
+  const [queuedFiles, setQueuedFiles] = useState<File[]>([])
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGES[0])
+  const [provider, setProvider] = useState('')
+  const [diarize, setDiarize] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [showOriginal, setShowOriginal] = useState(false)
+  const [audioDownloading, setAudioDownloading] = useState(false)
+  const [translationLanguage, setTranslationLanguage] = useState('')
+  const [translating, setTranslating] = useState(false)
+
+  const [playerTime, setPlayerTime] = useState(0)
+  const player = useRef<MediaController | null>(null)
+
+  const translation = translationLanguage ? result?.translations?.[translationLanguage] ?? null : null
+  const shownSegments = result ? (showOriginal && result.originalTranscript ? result.originalTranscript : result.transcript) : []
+  const activeIndex = activeSegmentIndex(shownSegments, playerTime)
+  const labels = result ? speakerLabels(result.transcript) : []
 
   const handleUrlSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -53,63 +88,105 @@ export default function Home() {
       return
     }
 
+    await extractWithLanguage(videoId, language)
+  }
+
+  const extractWithLanguage = async (videoId: string, preferred: string, force = false) => {
     setLoading(true)
+    setJobRunning(true)
+    setJob(null)
     setError('')
     setResult(null)
+    setTranslationLanguage('')
+    setEditing(false)
+    setShowOriginal(false)
 
     try {
-      const response = await fetch('/api/youtube', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ videoId }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || '알 수 없는 오류가 발생했습니다')
-      }
-
+      const data = await runJob({ videoId, languages: [preferred], force, provider: provider || undefined, diarize }, setJob)
       setResult(data)
+      setHistoryRefreshKey(k => k + 1)
     } catch (err) {
       setError(err instanceof Error ? err.message : '오류가 발생했습니다')
     } finally {
       setLoading(false)
+      setJobRunning(false)
     }
   }
 
   const handleFileUpload = async (file: File) => {
-    if (!file.type.includes('audio') && !file.name.endsWith('.mp3') && !file.name.endsWith('.m4a') && !file.name.endsWith('.wav')) {
-      setError('오디오 파일만 업로드 가능합니다 (MP3, M4A, WAV)')
+    if (!isSupportedUpload(file.name, file.type)) {
+      setError(`오디오 또는 영상 파일만 업로드 가능합니다 (${UPLOAD_FORMATS_LABEL})`)
       return
     }
 
-    // 25MB 제한
-    if (file.size > 25 * 1024 * 1024) {
-      setError('파일 크기는 25MB 이하여야 합니다')
+    // 나눠 올리므로 한 시간 넘는 녹음도 가능 (서버 임시 저장소에 들어가는 크기까지)
+    if (file.size > MAX_RESUMABLE_UPLOAD_SIZE) {
+      setError(`파일 크기는 ${MAX_RESUMABLE_UPLOAD_LABEL} 이하여야 합니다`)
       return
     }
 
     setLoading(true)
+    setJobRunning(true)
+    setJob(null)
+    setUploadProgress({ sent: 0, total: file.size })
     setError('')
     setResult(null)
+    setTranslationLanguage('')
+    setEditing(false)
+    setShowOriginal(false)
 
     try {
-      const formData = new FormData()
-      formData.append('file', file)
+      const uploadId = await uploadFile(file, setUploadProgress)
+      const jobId = await startUploadJob(file, uploadId, { language, provider: provider || undefined, diarize })
+      const data = await waitForJob(jobId, setJob)
+      setResult({ ...data, fileName: file.name, audioUrl: URL.createObjectURL(file) })
+      setHistoryRefreshKey(k => k + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '오류가 발생했습니다')
+    } finally {
+      setLoading(false)
+      setJobRunning(false)
+      setUploadProgress(null)
+    }
+  }
 
-      const response = await fetch('/api/transcribe', {
-        method: 'POST',
-        body: formData,
-      })
+  const openHistoryItem = async (id: string) => {
+    setHistoryOpen(false)
+    setLoading(true)
+    setError('')
+    setResult(null)
+    setTranslationLanguage('')
+    setEditing(false)
+    setShowOriginal(false)
 
+    try {
+      const response = await fetch(`/api/history/${id}`)
       const data = await response.json()
 
       if (!response.ok) {
         throw new Error(data.error || '알 수 없는 오류가 발생했습니다')
       }
 
-      setResult({ ...data, fileName: file.name })
+      const item: HistoryDetail = data.item
+      setResult({
+        videoInfo: item.videoId ? {
+          videoId: item.videoId,
+          title: item.title,
+          channelName: item.channelName || '',
+          thumbnail: item.thumbnail || `https://img.youtube.com/vi/${item.videoId}/maxresdefault.jpg`,
+        } : undefined,
+        fileName: item.videoId ? undefined : item.title,
+        transcript: item.transcript,
+        fullText: item.fullText,
+        source: item.source,
+        language: item.language,
+        historyId: item.id,
+        translations: item.translations,
+        summary: item.summary,
+        speakers: item.speakers,
+        originalTranscript: item.originalTranscript,
+        editedAt: item.editedAt,
+      })
     } catch (err) {
       setError(err instanceof Error ? err.message : '오류가 발생했습니다')
     } finally {
@@ -117,16 +194,128 @@ export default function Home() {
     }
   }
 
-  const handleDrop = (e: React.DragEvent) => {
+  const translateTranscript = async (target: string) => {
+    setTranslationLanguage(target)
+    if (!result || !target || result.translations?.[target]) return
+
+    setTranslating(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/translate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result.historyId
+          ? { targetLanguage: target, historyId: result.historyId }
+          : { targetLanguage: target, transcript: result.transcript }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '번역에 실패했습니다')
+      }
+
+      setResult(prev => prev && {
+        ...prev,
+        translations: { ...prev.translations, [target]: data.translation },
+      })
+    } catch (err) {
+      setTranslationLanguage('')
+      setError(err instanceof Error ? err.message : '번역에 실패했습니다')
+    } finally {
+      setTranslating(false)
+    }
+  }
+
+  // 다른 결과로 바뀌면 이전 파일의 blob URL 해제
+  useEffect(() => {
+    const audioUrl = result?.audioUrl
+    setPlayerTime(0)
+    return () => {
+      if (audioUrl) URL.revokeObjectURL(audioUrl)
+    }
+  }, [result?.audioUrl, result?.videoInfo?.videoId])
+
+  // 단축키: space/k 재생·일시정지, j/← 이전 세그먼트, l/→ 다음 세그먼트 (입력 중에는 무시)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (!player.current || editing || e.metaKey || e.ctrlKey || e.altKey) return
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName)) return
+
+      if (e.key === ' ' || e.key === 'k') {
+        e.preventDefault()
+        player.current.togglePlay()
+      } else if (e.key === 'j' || e.key === 'ArrowLeft') {
+        const previous = shownSegments[Math.max(0, activeIndex - 1)]
+        if (previous) {
+          e.preventDefault()
+          player.current.seek(previous.offset)
+        }
+      } else if (e.key === 'l' || e.key === 'ArrowRight') {
+        const next = shownSegments[activeIndex + 1]
+        if (next) {
+          e.preventDefault()
+          player.current.seek(next.offset)
+        }
+      }
+    }
+
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [shownSegments, activeIndex, editing])
+
+  // 검색 페이지 등에서 /?history=<id>로 들어오면 해당 기록을 바로 엶
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('history')
+    if (id) openHistoryItem(id)
+  }, [])
+
+  // 편집 저장: 번역은 세그먼트가 달라졌을 수 있어 지움
+  const applyEdit = ({ transcript, fullText, item }: EditedTranscript) => {
+    setResult(prev => prev && {
+      ...prev,
+      transcript,
+      fullText,
+      translations: item?.translations ?? {},
+      originalTranscript: item ? item.originalTranscript : prev.originalTranscript ?? prev.transcript,
+      editedAt: item ? item.editedAt : new Date().toISOString(),
+    })
+    setTranslationLanguage('')
+    setEditing(false)
+    setShowOriginal(false)
+  }
+
+  // 파일 하나면 바로 결과를 보여주고, 여러 개면 대기열에서 차례로 처리
+  const handleFiles = (files: File[]) => {
+    const accepted = files.filter(file => isSupportedUpload(file.name, file.type) && file.size <= MAX_RESUMABLE_UPLOAD_SIZE)
+    const skipped = files.length - accepted.length
+
+    if (accepted.length === 0) {
+      if (files.length > 0) setError(`오디오 또는 영상 파일만 업로드 가능합니다 (${UPLOAD_FORMATS_LABEL}, 최대 ${MAX_RESUMABLE_UPLOAD_LABEL})`)
+      return
+    }
+
+    setError(skipped > 0 ? `지원하지 않거나 너무 큰 파일 ${skipped}개는 제외했습니다` : '')
+
+    if (accepted.length === 1 && queuedFiles.length === 0) {
+      handleFileUpload(accepted[0])
+    } else {
+      setQueuedFiles(current => [...current, ...accepted])
+    }
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault()
     setDragOver(false)
-    const file = e.dataTransfer.files[0]
-    if (file) handleFileUpload(file)
+    handleFiles(await droppedFiles(e.dataTransfer))
   }
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) handleFileUpload(file)
+    handleFiles(Array.from(e.target.files ?? []))
+    // 같은 파일을 다시 골라도 onChange가 오도록
+    e.target.value = ''
   }
 
   const copyToClipboard = async () => {
@@ -141,18 +330,35 @@ export default function Home() {
     }
   }
 
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60)
-    const secs = Math.floor(seconds % 60)
-    return `${mins}:${secs.toString().padStart(2, '0')}`
-  }
-
-  const openMp3Download = () => {
+  // 서버에서 영상 오디오(m4a)를 받아 바로 다운로드
+  const downloadAudioFile = async () => {
     const videoId = extractVideoId(url)
-    if (videoId) {
-      window.open(`https://ytmp3.cc/ko/youtube-to-mp3/?url=https://www.youtube.com/watch?v=${videoId}`, '_blank')
-    } else {
-      window.open('https://ytmp3.cc/ko/', '_blank')
+    if (!videoId) {
+      setError('올바른 유튜브 URL을 입력해주세요')
+      return
+    }
+
+    setAudioDownloading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/audio?videoId=${videoId}`)
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || '오디오 다운로드에 실패했습니다')
+      }
+
+      const blob = await response.blob()
+      const link = document.createElement('a')
+      link.href = URL.createObjectURL(blob)
+      link.download = response.headers.get('content-disposition')?.match(/filename="(.+)"/)?.[1] || `${videoId}.m4a`
+      link.click()
+      URL.revokeObjectURL(link.href)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '오디오 다운로드에 실패했습니다')
+    } finally {
+      setAudioDownloading(false)
     }
   }
 
@@ -164,7 +370,33 @@ export default function Home() {
         <div className="absolute bottom-1/4 -right-32 w-96 h-96 bg-purple-500/10 rounded-full blur-3xl" />
       </div>
 
+      <HistorySidebar
+        open={historyOpen}
+        activeId={result?.historyId}
+        refreshKey={historyRefreshKey}
+        onClose={() => setHistoryOpen(false)}
+        onSelect={openHistoryItem}
+      />
+
       <div className="relative max-w-4xl mx-auto">
+        {/* 검색 / 기록 버튼 */}
+        <div className="flex justify-end gap-2 mb-4">
+          <Link
+            href="/search"
+            className="px-4 py-2 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-xl text-sm font-medium transition-colors flex items-center gap-2"
+          >
+            <span>🔍</span>
+            대본 검색
+          </Link>
+          <button
+            onClick={() => setHistoryOpen(true)}
+            className="px-4 py-2 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-xl text-sm font-medium transition-colors flex items-center gap-2"
+          >
+            <span>📚</span>
+            추출 기록
+          </button>
+        </div>
+
         {/* 헤더 */}
         <header className="text-center mb-12 animate-fade-in">
           <div className="inline-flex items-center gap-3 mb-4">
@@ -205,6 +437,26 @@ export default function Home() {
             >
               📁 파일 업로드
             </button>
+            <button
+              onClick={() => setMode('batch')}
+              className={`px-6 py-2.5 rounded-lg font-medium transition-all ${
+                mode === 'batch' 
+                  ? 'bg-accent text-white glow-red' 
+                  : 'text-surface-200 hover:text-white'
+              }`}
+            >
+              📋 일괄 추출
+            </button>
+            <button
+              onClick={() => setMode('feed')}
+              className={`px-6 py-2.5 rounded-lg font-medium transition-all ${
+                mode === 'feed' 
+                  ? 'bg-accent text-white glow-red' 
+                  : 'text-surface-200 hover:text-white'
+              }`}
+            >
+              📺 구독
+            </button>
           </div>
         </div>
 
@@ -238,9 +490,14 @@ export default function Home() {
                 </button>
               </div>
             </form>
-            <p className="text-center text-surface-200/60 text-sm">
-              ✨ 자막 있는 영상은 바로 추출! 자막 없으면 AI가 음성 인식해요 (최대 10분)
-            </p>
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+              <LanguageSelect value={language} onChange={setLanguage} disabled={loading} />
+              <ProviderSelect value={provider} onChange={setProvider} disabled={loading} />
+              <DiarizeToggle value={diarize} onChange={setDiarize} disabled={loading} />
+              <p className="text-center text-surface-200/60 text-sm">
+                ✨ 자막 있는 영상은 바로 추출! 자막 없으면 AI가 음성 인식해요
+              </p>
+            </div>
           </div>
         )}
 
@@ -251,31 +508,38 @@ export default function Home() {
             <div className="bg-surface-900/80 border border-surface-800 rounded-2xl p-6">
               <h3 className="font-bold mb-3 flex items-center gap-2">
                 <span className="text-xl">📥</span> 
-                먼저 MP3 파일을 다운받으세요
+                먼저 오디오 파일을 다운받으세요
               </h3>
               <div className="flex flex-col sm:flex-row gap-3">
                 <input
                   type="text"
                   value={url}
                   onChange={(e) => setUrl(e.target.value)}
-                  placeholder="유튜브 URL 붙여넣기 (선택)"
+                  placeholder="유튜브 URL 붙여넣기"
                   className="flex-1 px-4 py-3 bg-surface-800 border border-surface-800 rounded-xl text-white placeholder-surface-200/50 focus:outline-none focus:border-accent/50 font-mono text-sm"
                 />
                 <button
-                  onClick={openMp3Download}
-                  className="px-6 py-3 bg-green-600 hover:bg-green-500 rounded-xl font-medium transition-colors flex items-center justify-center gap-2"
+                  onClick={downloadAudioFile}
+                  disabled={audioDownloading}
+                  className="px-6 py-3 bg-green-600 hover:bg-green-500 disabled:opacity-50 rounded-xl font-medium transition-colors flex items-center justify-center gap-2"
                 >
                   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                   </svg>
-                  MP3 다운로드 사이트
+                  {audioDownloading ? '받는 중…' : '오디오 다운로드'}
                 </button>
               </div>
               <p className="text-surface-200/60 text-sm mt-3">
-                → 외부 사이트에서 MP3 파일을 다운받은 후, 아래에 업로드하세요
+                → 받은 M4A 파일을 아래에 업로드하세요
               </p>
             </div>
 
+            <div className="flex flex-wrap justify-center gap-3">
+              <LanguageSelect value={language} onChange={setLanguage} disabled={loading} />
+              <ProviderSelect value={provider} onChange={setProvider} disabled={loading} />
+              <DiarizeToggle value={diarize} onChange={setDiarize} disabled={loading} />
+            </div>
+
             {/* 파일 업로드 영역 */}
             <div
               onDragOver={(e) => { e.preventDefault(); setDragOver(true) }}
@@ -289,7 +553,8 @@ export default function Home() {
             >
               <input
                 type="file"
-                accept="audio/*,.mp3,.m4a,.wav"
+                accept={UPLOAD_ACCEPT}
+                multiple
                 onChange={handleFileInput}
                 className="hidden"
                 id="file-upload"
@@ -304,10 +569,10 @@ export default function Home() {
                   </div>
                   <div>
                     <p className="text-lg font-medium mb-1">
-                      {loading ? '분석 중...' : '파일을 드래그하거나 클릭해서 업로드'}
+                      {loading ? '분석 중...' : '파일이나 폴더를 드래그하거나 클릭해서 업로드'}
                     </p>
                     <p className="text-surface-200/60 text-sm">
-                      MP3, M4A, WAV 지원 (최대 25MB)
+                      {UPLOAD_FORMATS_LABEL} 지원 (최대 {MAX_RESUMABLE_UPLOAD_LABEL}, 끊기면 이어서 업로드, 여러 개는 대기열로 처리)
                     </p>
                   </div>
                 </div>
@@ -316,6 +581,30 @@ export default function Home() {
           </div>
         )}
 
+        {/* 여러 파일 업로드 대기열 (다른 탭으로 가도 계속 진행) */}
+        {queuedFiles.length > 0 && (
+          <div className={mode === 'upload' ? '' : 'hidden'}>
+            <UploadQueue
+              files={queuedFiles}
+              language={language}
+              provider={provider}
+              diarize={diarize}
+              onOpen={openHistoryItem}
+              onComplete={() => setHistoryRefreshKey(k => k + 1)}
+            />
+          </div>
+        )}
+
+        {/* 일괄 추출 모드 */}
+        {mode === 'batch' && (
+          <BatchPanel language={language} onLanguageChange={setLanguage} onOpen={openHistoryItem} />
+        )}
+
+        {/* 구독 채널 피드 */}
+        {mode === 'feed' && (
+          <SubscriptionsPanel onOpen={openHistoryItem} onTranscribed={() => setHistoryRefreshKey(k => k + 1)} />
+        )}
+
         {/* 에러 메시지 */}
         {error && (
           <div className="mt-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 animate-fade-in">
@@ -328,8 +617,15 @@ export default function Home() {
           </div>
         )}
 
+        {/* 진행 상태 */}
+        {loading && jobRunning && (
+          <div className="mt-6 animate-fade-in">
+            <JobProgress job={job} upload={uploadProgress} />
+          </div>
+        )}
+
         {/* 로딩 상태 */}
-        {loading && (
+        {loading && !jobRunning && (
           <div className="mt-6 space-y-4 animate-fade-in">
             <div className="h-32 rounded-2xl shimmer" />
             <div className="h-64 rounded-2xl shimmer" />
@@ -344,12 +640,11 @@ export default function Home() {
               <div className="flex flex-col md:flex-row">
                 {result.videoInfo ? (
                   <>
-                    <div className="relative w-full md:w-72 aspect-video md:aspect-auto flex-shrink-0">
-                      <Image
-                        src={result.videoInfo.thumbnail}
-                        alt={result.videoInfo.title}
-                        fill
-                        className="object-cover"
+                    <div className="w-full md:w-96 flex-shrink-0">
+                      <MediaPlayer
+                        videoId={result.videoInfo.videoId}
+                        onReady={(controller) => { player.current = controller }}
+                        onTime={setPlayerTime}
                       />
                     </div>
                     <div className="p-6 flex flex-col justify-center">
@@ -370,18 +665,82 @@ export default function Home() {
                     </div>
                     <div>
                       <h2 className="text-xl font-bold mb-1">{result.fileName}</h2>
-                      <p className="text-surface-200">업로드된 오디오 파일</p>
+                      <p className="text-surface-200">
+                        {isVideoUpload(result.fileName || '', '') ? '업로드된 영상 파일' : '업로드된 오디오 파일'}
+                      </p>
                     </div>
                   </div>
                 )}
-                <div className="p-6 flex items-center">
+                <div className="p-6 flex flex-col items-start justify-center gap-2">
                   <span className="px-3 py-1 bg-accent/10 text-accent rounded-full text-sm font-medium">
                     {result.transcript.length}개 세그먼트
                   </span>
+                  {result.language && (
+                    <span className="px-3 py-1 bg-surface-800 text-surface-200 rounded-full text-sm">
+                      {languageLabel(result.language)}
+                    </span>
+                  )}
+                  {result.duration ? (
+                    <span className="px-3 py-1 bg-surface-800 text-surface-200 rounded-full text-sm">
+                      ⏱ {formatTime(result.duration)}
+                    </span>
+                  ) : null}
+                  {result.cached && result.videoInfo && (
+                    <button
+                      onClick={() => extractWithLanguage(result.videoInfo!.videoId, result.language || language, true)}
+                      disabled={loading}
+                      className="px-3 py-1 bg-surface-800 hover:bg-surface-200/20 text-surface-200 rounded-full text-sm transition-colors"
+                      title="캐시를 무시하고 다시 추출"
+                    >
+                      ⚡ 캐시됨 · 새로 추출
+                    </button>
+                  )}
                 </div>
               </div>
+
+              {/* 업로드한 파일 재생 */}
+              {!result.videoInfo && result.audioUrl && (
+                <div className="px-6 py-3 border-t border-surface-800">
+                  <MediaPlayer
+                    audioUrl={result.audioUrl}
+                    onReady={(controller) => { player.current = controller }}
+                    onTime={setPlayerTime}
+                  />
+                </div>
+              )}
+
+              {/* 자막 트랙 목록 - 다른 언어로 다시 추출 */}
+              {result.videoInfo && result.captionTracks && result.captionTracks.length > 0 && (
+                <div className="px-6 py-3 border-t border-surface-800 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-surface-200/60">자막 트랙</span>
+                  {result.captionTracks.map(track => (
+                    <button
+                      key={`${track.languageCode}-${track.autoGenerated}`}
+                      onClick={() => extractWithLanguage(result.videoInfo!.videoId, track.languageCode)}
+                      disabled={loading}
+                      className={`px-2.5 py-1 rounded-lg transition-colors ${
+                        result.source === 'captions' && track.languageCode === result.language
+                          ? 'bg-accent/20 text-accent-light'
+                          : 'bg-surface-800 hover:bg-surface-200/20 text-surface-200'
+                      }`}
+                    >
+                      {track.name}{track.autoGenerated ? ' (자동)' : ''}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
+            {/* 요약 카드 */}
+            <SummaryPanel
+              historyId={result.historyId}
+              videoId={result.videoInfo?.videoId}
+              transcript={result.transcript}
+              summary={result.summary}
+              onSummary={(summary) => setResult(prev => prev && { ...prev, summary })}
+              onError={setError}
+            />
+
             {/* 대본 카드 */}
             <div className="bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl overflow-hidden">
               <div className="flex items-center justify-between p-4 border-b border-surface-800">
@@ -390,57 +749,114 @@ export default function Home() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
                   전체 대본
+                  {result.editedAt && (
+                    <span className="px-2 py-0.5 bg-surface-800 text-surface-200 rounded text-xs font-normal">수정됨</span>
+                  )}
                 </h3>
-                <button
-                  onClick={copyToClipboard}
-                  className="px-4 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
-                >
-                  {copied ? (
-                    <>
-                      <svg className="w-4 h-4 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                      복사됨!
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                      </svg>
-                      복사하기
-                    </>
+                <div className="flex flex-wrap items-center justify-end gap-2">
+                  {!editing && (
+                    <button
+                      onClick={() => { setEditing(true); setShowOriginal(false) }}
+                      className="px-3 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors"
+                    >
+                      ✏️ 편집
+                    </button>
                   )}
-                </button>
-              </div>
-              
-              {/* 타임스탬프 뷰 */}
-              <div className="max-h-[500px] overflow-y-auto p-4 space-y-2">
-                {result.transcript.map((segment, index) => (
-                  <div 
-                    key={index}
-                    className="flex gap-3 p-2 rounded-lg hover:bg-surface-800/50 transition-colors group"
+                  {!editing && result.originalTranscript && (
+                    <button
+                      onClick={() => setShowOriginal(v => !v)}
+                      className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                        showOriginal ? 'bg-accent/20 text-accent-light' : 'bg-surface-800 hover:bg-surface-200/20'
+                      }`}
+                    >
+                      {showOriginal ? '수정본 보기' : '원본 보기'}
+                    </button>
+                  )}
+                  <select
+                    value={translationLanguage}
+                    onChange={(e) => translateTranscript(e.target.value)}
+                    disabled={translating}
+                    className="px-2 py-2 bg-surface-800 rounded-lg text-xs focus:outline-none disabled:opacity-50"
+                    title="번역할 언어"
+                  >
+                    <option value="">{translating ? '번역 중…' : '번역 안 함'}</option>
+                    {LANGUAGE_OPTIONS.filter(option => option.code !== result.language).map(option => (
+                      <option key={option.code} value={option.code}>{option.label} 번역</option>
+                    ))}
+                  </select>
+                  <ExportButtons
+                    historyId={result.historyId}
+                    title={result.videoInfo?.title || result.fileName || 'transcript'}
+                    videoId={result.videoInfo?.videoId}
+                    channelName={result.videoInfo?.channelName}
+                    source={result.source}
+                    transcript={result.transcript}
+                    fullText={result.fullText}
+                    translation={translation}
+                    translationLanguage={translationLanguage}
+                    speakers={result.speakers}
+                    onError={setError}
+                  />
+                  <button
+                    onClick={copyToClipboard}
+                    className="px-4 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
                   >
-                    {result.videoInfo ? (
-                      <a
-                        href={`https://youtube.com/watch?v=${result.videoInfo.videoId}&t=${Math.floor(segment.offset)}s`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="timestamp flex-shrink-0 hover:bg-accent/30 transition-colors"
-                      >
-                        {formatTime(segment.offset)}
-                      </a>
+                    {copied ? (
+                      <>
+                        <svg className="w-4 h-4 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                        복사됨!
+                      </>
                     ) : (
-                      <span className="timestamp flex-shrink-0">
-                        {formatTime(segment.offset)}
-                      </span>
+                      <>
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                        복사하기
+                      </>
                     )}
-                    <p className="text-surface-100 leading-relaxed">
-                      {segment.text}
-                    </p>
-                  </div>
-                ))}
+                  </button>
+                </div>
               </div>
+              
+              {labels.length > 0 && (
+                <SpeakerNames
+                  historyId={result.historyId}
+                  labels={labels}
+                  speakers={result.speakers}
+                  onChange={(speakers) => setResult(prev => prev && { ...prev, speakers })}
+                  onError={setError}
+                />
+              )}
+
+              {/* 타임스탬프 뷰 / 편집기 */}
+              {editing ? (
+                <TranscriptEditor
+                  historyId={result.historyId}
+                  segments={result.transcript}
+                  onSave={applyEdit}
+                  onCancel={() => setEditing(false)}
+                  onError={setError}
+                />
+              ) : (
+                <TranscriptView
+                  segments={shownSegments}
+                  translation={showOriginal ? null : translation}
+                  videoId={result.videoInfo?.videoId}
+                  speakers={result.speakers}
+                  activeIndex={activeIndex}
+                  onSeek={result.videoInfo || result.audioUrl ? (seconds) => player.current?.seek(seconds) : undefined}
+                />
+              )}
             </div>
+
+            {/* 질문 카드 */}
+            <AskPanel
+              historyId={result.historyId}
+              videoId={result.videoInfo?.videoId}
+              transcript={result.transcript}
+            />
           </div>
         )}
 
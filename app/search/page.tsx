@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { searchTerms, splitHighlights } from '@/lib/search'
+import { formatTime, youtubeTimeUrl } from '@/lib/transcript'
+import type { SearchResult } from '@/lib/types'
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, index) => part.match ? (
+        <mark key={index} className="bg-accent/30 text-white rounded px-0.5">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </>
+  )
+}
+
+export default function SearchPage() {
+  const [query, setQuery] = useState('')
+  const [terms, setTerms] = useState<string[]>([])
+  const [results, setResults] = useState<SearchResult[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const q = query.trim()
+    if (!q) return
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(q)}`, { cache: 'no-store' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '알 수 없는 오류가 발생했습니다')
+      }
+
+      setTerms(searchTerms(q))
+      setResults(data.results)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '오류가 발생했습니다')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen px-4 py-12 md:py-20">
+      <div className="relative max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">대본 검색</h1>
+          <Link
+            href="/"
+            className="px-4 py-2 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-xl text-sm font-medium transition-colors"
+          >
+            ← 추출기로
+          </Link>
+        </div>
+
+        <form onSubmit={handleSubmit} className="relative mb-6">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="저장된 모든 대본에서 찾을 말을 입력하세요"
+            className="w-full px-6 py-4 bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl text-white placeholder-surface-200/50 input-focus focus:border-accent/50 focus:outline-none text-lg"
+            disabled={loading}
+          />
+          <button
+            type="submit"
+            disabled={loading || !query.trim()}
+            className="absolute right-2 top-1/2 -translate-y-1/2 px-6 py-2.5 bg-accent hover:bg-accent-light disabled:bg-surface-800 disabled:text-surface-200/50 rounded-xl font-medium transition-all duration-200 disabled:cursor-not-allowed"
+          >
+            {loading ? '검색 중' : '검색'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 animate-fade-in">
+            {error}
+          </div>
+        )}
+
+        {results && (
+          <div className="space-y-4 animate-fade-in">
+            <p className="text-sm text-surface-200">{results.length}개 영상에서 찾았어요</p>
+
+            {results.map(result => (
+              <div key={result.id} className="bg-surface-900/80 border border-surface-800 rounded-2xl overflow-hidden">
+                <div className="flex gap-4 p-4 border-b border-surface-800">
+                  {result.thumbnail && (
+                    <div className="relative w-32 aspect-video rounded-lg overflow-hidden flex-shrink-0">
+                      <Image src={result.thumbnail} alt={result.title} fill sizes="128px" className="object-cover" />
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <Link href={`/?history=${result.id}`} className="font-bold hover:text-accent-light transition-colors line-clamp-2">
+                      <Highlighted text={result.title} terms={terms} />
+                    </Link>
+                    {result.channelName && <p className="text-sm text-surface-200 mt-1">{result.channelName}</p>}
+                    <p className="text-xs text-surface-200/60 mt-1">
+                      일치하는 구간 {result.hitCount}개
+                      {result.hitCount > result.hits.length && ` (상위 ${result.hits.length}개 표시)`}
+                    </p>
+                  </div>
+                </div>
+
+                {result.hits.length > 0 && (
+                  <div className="p-2 space-y-1">
+                    {result.hits.map((hit, index) => (
+                      <div key={index} className="flex gap-3 p-2 rounded-lg hover:bg-surface-800/50 transition-colors">
+                        {result.videoId ? (
+                          <a
+                            href={youtubeTimeUrl(result.videoId, hit.offset)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="timestamp flex-shrink-0 hover:bg-accent/30 transition-colors"
+                          >
+                            {formatTime(hit.offset)}
+                          </a>
+                        ) : (
+                          <span className="timestamp flex-shrink-0">{formatTime(hit.offset)}</span>
+                        )}
+                        <p className="text-surface-100 leading-relaxed">
+                          <Highlighted text={hit.text} terms={terms} />
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import ApiKeysPanel from '@/components/ApiKeysPanel'
+import WebhooksPanel from '@/components/WebhooksPanel'
+import { currentWorkspaceId, selectWorkspace } from '@/lib/supabaseBrowser'
+import type { Workspace } from '@/lib/types'
+
+interface AccountMenuProps {
+  email: string | null
+  onSignOut: () => void
+}
+
+// 로그인한 사용자와 워크스페이스 선택 (바꾸면 새로고침해서 기록을 다시 불러옴)
+export default function AccountMenu({ email, onSignOut }: AccountMenuProps) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [apiKeysOpen, setApiKeysOpen] = useState(false)
+  const [webhooksOpen, setWebhooksOpen] = useState(false)
+
+  useEffect(() => {
+    const selected = currentWorkspaceId()
+    setWorkspaceId(selected)
+
+    fetch('/api/workspaces')
+      .then(response => response.json())
+      .then(data => {
+        const list: Workspace[] = data.workspaces || []
+        setWorkspaces(list)
+        // 더 이상 멤버가 아닌 워크스페이스를 고른 상태면 개인으로 되돌림
+        if (selected && data.workspaces && !list.some(workspace => workspace.id === selected)) {
+          switchTo(null)
+        }
+      })
+      .catch(() => setWorkspaces([]))
+  }, [])
+
+  const switchTo = (id: string | null) => {
+    selectWorkspace(id)
+    window.location.reload()
+  }
+
+  const requestJson = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || '요청에 실패했습니다')
+    }
+    return data.workspace as Workspace
+  }
+
+  const create = async () => {
+    const name = window.prompt('새 워크스페이스 이름')
+    if (!name?.trim()) return
+    try {
+      switchTo((await requestJson('/api/workspaces', { name })).id)
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : '워크스페이스를 만들지 못했습니다')
+    }
+  }
+
+  const join = async () => {
+    const inviteCode = window.prompt('초대 코드')
+    if (!inviteCode?.trim()) return
+    try {
+      switchTo((await requestJson('/api/workspaces/join', { inviteCode })).id)
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : '워크스페이스에 참여하지 못했습니다')
+    }
+  }
+
+  const current = workspaces.find(workspace => workspace.id === workspaceId)
+
+  const copyInviteCode = async () => {
+    if (!current) return
+    await navigator.clipboard.writeText(current.inviteCode)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="fixed top-3 left-3 z-40 flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={workspaceId ?? ''}
+        onChange={(e) => switchTo(e.target.value || null)}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 rounded-lg text-white focus:outline-none focus:border-accent/50"
+        title="기록을 볼 워크스페이스"
+      >
+        <option value="">👤 개인</option>
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>👥 {workspace.name}</option>
+        ))}
+      </select>
+      {current && (
+        <button
+          onClick={copyInviteCode}
+          className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-lg text-surface-200 transition-colors"
+          title="이 코드를 공유하면 팀원이 참여할 수 있습니다"
+        >
+          {copied ? '복사됨' : `초대 코드 ${current.inviteCode}`}
+        </button>
+      )}
+      <button
+        onClick={create}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-lg text-surface-200 transition-colors"
+      >
+        + 만들기
+      </button>
+      <button
+        onClick={join}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-lg text-surface-200 transition-colors"
+      >
+        참여
+      </button>
+      <button
+        onClick={() => setApiKeysOpen(true)}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-lg text-surface-200 transition-colors"
+      >
+        🔑 API 키
+      </button>
+      <button
+        onClick={() => setWebhooksOpen(true)}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-lg text-surface-200 transition-colors"
+      >
+        🔔 웹훅
+      </button>
+      <span className="text-surface-200/60">{email}</span>
+      <button
+        onClick={onSignOut}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 hover:border-surface-200/30 rounded-lg text-surface-200 transition-colors"
+      >
+        로그아웃
+      </button>
+      <ApiKeysPanel open={apiKeysOpen} onClose={() => setApiKeysOpen(false)} />
+      <WebhooksPanel open={webhooksOpen} onClose={() => setWebhooksOpen(false)} />
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ApiKey } from '@/lib/apiKeys'
+
+interface ApiKeysPanelProps {
+  open: boolean
+  onClose: () => void
+}
+
+const formatDate = (iso: string | null): string => {
+  if (!iso) return '-'
+  const date = new Date(iso)
+  return `${date.getFullYear()}.${date.getMonth() + 1}.${date.getDate()}`
+}
+
+// /api/v1 API 키 발급·폐기
+export default function ApiKeysPanel({ open, onClose }: ApiKeysPanelProps) {
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [name, setName] = useState('')
+  // 방금 만든 키의 원문 (닫으면 다시 볼 수 없음)
+  const [secret, setSecret] = useState('')
+  const [error, setError] = useState('')
+
+  const load = () => {
+    fetch('/api/api-keys')
+      .then(response => response.json())
+      .then(data => setKeys(data.keys || []))
+      .catch(() => setKeys([]))
+  }
+
+  useEffect(() => {
+    if (open) load()
+    else setSecret('')
+  }, [open])
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'API 키를 만들지 못했습니다')
+      }
+
+      setSecret(data.secret)
+      setName('')
+      load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'API 키를 만들지 못했습니다')
+    }
+  }
+
+  const revoke = async (key: ApiKey) => {
+    if (!window.confirm(`"${key.name}" 키를 폐기할까요? 이 키를 쓰는 스크립트는 더 이상 동작하지 않습니다`)) return
+
+    const response = await fetch(`/api/api-keys/${key.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      setError(data.error || 'API 키를 폐기하지 못했습니다')
+      return
+    }
+    load()
+  }
+
+  if (!open) return null
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/40 z-40" onClick={onClose} />
+      <aside className="fixed top-0 left-0 h-full w-full max-w-sm bg-surface-900 border-r border-surface-800 z-50 flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-4 border-b border-surface-800">
+          <h3 className="font-bold flex items-center gap-2">
+            <span className="text-xl">🔑</span>
+            API 키
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-surface-800 transition-colors"
+            aria-label="닫기"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          <p className="text-surface-200/80">
+            <code>X-API-Key</code> 헤더로 <code>/api/v1</code>을 호출할 수 있습니다.{' '}
+            <a href="/api/v1/openapi.json" target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">
+              API 문서 (OpenAPI)
+            </a>
+          </p>
+
+          <form onSubmit={create} className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="키 이름 (예: 업로드 스크립트)"
+              className="flex-1 px-3 py-2 bg-surface-800/60 border border-surface-800 rounded-lg text-white placeholder-surface-200/50 focus:border-accent/50 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-3 py-2 bg-accent hover:bg-accent-light disabled:bg-surface-800 rounded-lg font-medium transition-colors"
+            >
+              만들기
+            </button>
+          </form>
+
+          {error && <p className="text-red-400">{error}</p>}
+
+          {secret && (
+            <div className="p-3 bg-accent/10 border border-accent/30 rounded-lg space-y-2">
+              <p className="text-surface-200">이 키는 지금만 볼 수 있습니다. 안전한 곳에 복사해두세요.</p>
+              <code className="block break-all font-mono text-white">{secret}</code>
+              <button
+                onClick={() => navigator.clipboard.writeText(secret)}
+                className="px-3 py-1 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs transition-colors"
+              >
+                복사
+              </button>
+            </div>
+          )}
+
+          {keys.length === 0 ? (
+            <p className="text-center text-surface-200/60 py-8">발급한 키가 없습니다</p>
+          ) : (
+            <ul className="space-y-2">
+              {keys.map(key => (
+                <li key={key.id} className="flex items-center gap-3 p-3 bg-surface-800/40 rounded-lg">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{key.name}</p>
+                    <p className="text-xs text-surface-200/60 font-mono">
+                      {key.prefix}… · 만든 날 {formatDate(key.createdAt)} · 마지막 사용 {formatDate(key.lastUsedAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => revoke(key)}
+                    className="px-2 py-1 bg-surface-800 hover:bg-red-500/30 rounded text-xs transition-colors"
+                  >
+                    폐기
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </>
+  )
+}
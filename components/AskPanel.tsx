@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { AskMessage, AskSource } from '@/lib/ask'
+import { formatTime, youtubeTimeUrl } from '@/lib/transcript'
+import type { TranscriptSegment } from '@/lib/types'
+
+interface AskPanelProps {
+  historyId?: string | null
+  videoId?: string | null
+  transcript: TranscriptSegment[]
+}
+
+interface ChatMessage extends AskMessage {
+  sources?: AskSource[]
+}
+
+export default function AskPanel({ historyId, videoId, transcript }: AskPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [question, setQuestion] = useState('')
+  const [asking, setAsking] = useState(false)
+  const [error, setError] = useState('')
+
+  // 다른 대본을 열면 대화 초기화
+  useEffect(() => {
+    setMessages([])
+    setError('')
+  }, [transcript])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = question.trim()
+    if (!text) return
+
+    setAsking(true)
+    setError('')
+    setQuestion('')
+    setMessages(prev => [...prev, { role: 'user', content: text }])
+
+    try {
+      const history = messages.map(({ role, content }) => ({ role, content }))
+      const response = await fetch('/api/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(historyId
+          ? { question: text, historyId, history }
+          : { question: text, transcript, history }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '답변을 만들지 못했습니다')
+      }
+
+      setMessages(prev => [...prev, { role: 'assistant', content: data.answer, sources: data.sources }])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '오류가 발생했습니다')
+    } finally {
+      setAsking(false)
+    }
+  }
+
+  // 답변 속 [번호]를 해당 구간 타임스탬프로 바꿔서 표시
+  const renderAnswer = (message: ChatMessage) => {
+    const sources = new Map((message.sources || []).map(source => [source.index, source]))
+
+    return message.content.split(/(\[\d+\])/g).map((part, i) => {
+      const source = sources.get(Number(part.match(/^\[(\d+)\]$/)?.[1]))
+      if (!source) return <span key={i}>{part}</span>
+
+      return videoId ? (
+        <a
+          key={i}
+          href={youtubeTimeUrl(videoId, source.offset)}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={source.text}
+          className="timestamp mx-0.5 hover:bg-accent/30 transition-colors"
+        >
+          {formatTime(source.offset)}
+        </a>
+      ) : (
+        <span key={i} title={source.text} className="timestamp mx-0.5">
+          {formatTime(source.offset)}
+        </span>
+      )
+    })
+  }
+
+  return (
+    <div className="bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl overflow-hidden">
+      <div className="p-4 border-b border-surface-800">
+        <h3 className="font-bold flex items-center gap-2">
+          <svg className="w-5 h-5 text-accent" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M21 12c0 4.418-4.03 8-9 8a9.86 9.86 0 01-4-.83L3 20l1.4-3.72A7.94 7.94 0 013 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+          </svg>
+          영상에 질문하기
+        </h3>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="max-h-[400px] overflow-y-auto p-4 space-y-3">
+          {messages.map((message, index) => (
+            <div
+              key={index}
+              className={`p-3 rounded-xl leading-relaxed whitespace-pre-wrap ${
+                message.role === 'user'
+                  ? 'bg-accent/15 text-white ml-8'
+                  : 'bg-surface-800/60 text-surface-100 mr-8'
+              }`}
+            >
+              {message.role === 'assistant' ? renderAnswer(message) : message.content}
+            </div>
+          ))}
+          {asking && (
+            <div className="p-3 rounded-xl bg-surface-800/60 text-surface-200 mr-8">답변 작성 중…</div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-4 mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2 p-4">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="예: 발표자가 추천한 책은 뭐야?"
+          className="flex-1 px-4 py-2.5 bg-surface-800/60 border border-surface-800 rounded-xl text-white placeholder-surface-200/50 focus:border-accent/50 focus:outline-none"
+          disabled={asking}
+        />
+        <button
+          type="submit"
+          disabled={asking || !question.trim()}
+          className="px-5 py-2.5 bg-accent hover:bg-accent-light disabled:bg-surface-800 disabled:text-surface-200/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed"
+        >
+          질문
+        </button>
+      </form>
+    </div>
+  )
+}
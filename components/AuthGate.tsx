@@ -0,0 +1,60 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import AccountMenu from '@/components/AccountMenu'
+import LoginForm from '@/components/LoginForm'
+import { AUTH_ENABLED } from '@/lib/authConfig'
+import { getBrowserSupabase, selectWorkspace, syncSessionCookie } from '@/lib/supabaseBrowser'
+
+// 로그인을 켜면 세션이 있을 때만 화면을 보여줌 (꺼져 있으면 그대로 통과)
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null)
+  const [ready, setReady] = useState(false)
+
+  useEffect(() => {
+    const supabase = getBrowserSupabase()
+    if (!supabase) return
+
+    // 처음 불릴 때(INITIAL_SESSION) 쿠키를 먼저 맞춰서 화면의 API 요청에 토큰이 붙도록 함
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      syncSessionCookie(next)
+      setSession(next)
+      setReady(true)
+    })
+
+    return () => data.subscription.unsubscribe()
+  }, [])
+
+  if (!AUTH_ENABLED) {
+    return <>{children}</>
+  }
+
+  const supabase = getBrowserSupabase()
+
+  if (!supabase) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-4 text-surface-200">
+        로그인 설정(NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY)이 없습니다
+      </main>
+    )
+  }
+
+  if (!ready) return null
+
+  if (!session) {
+    return <LoginForm supabase={supabase} />
+  }
+
+  const signOut = async () => {
+    selectWorkspace(null)
+    await supabase.auth.signOut()
+  }
+
+  return (
+    <>
+      <AccountMenu email={session.user.email ?? null} onSignOut={signOut} />
+      {children}
+    </>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Batch, BatchItemStatus } from '@/lib/batch'
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export'
+import LanguageSelect from '@/components/LanguageSelect'
+
+interface BatchPanelProps {
+  language: string
+  onLanguageChange: (language: string) => void
+  onOpen: (historyId: string) => void
+}
+
+const POLL_INTERVAL = 2000
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: '대기', className: 'bg-surface-800 text-surface-200' },
+  running: { label: '추출 중', className: 'bg-yellow-500/15 text-yellow-400' },
+  done: { label: '완료', className: 'bg-green-500/15 text-green-400' },
+  failed: { label: '실패', className: 'bg-red-500/15 text-red-400' },
+}
+
+export default function BatchPanel({ language, onLanguageChange, onOpen }: BatchPanelProps) {
+  const [input, setInput] = useState('')
+  const [batch, setBatch] = useState<Batch | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [fileFormat, setFileFormat] = useState<ExportFormat>('txt')
+
+  const finished = batch?.items.every(item => item.status === 'done' || item.status === 'failed') ?? false
+  const doneCount = batch?.items.filter(item => item.status === 'done').length ?? 0
+  const failedCount = batch?.items.filter(item => item.status === 'failed').length ?? 0
+
+  // 끝날 때까지 상태 폴링
+  useEffect(() => {
+    if (!batch || finished) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/batch/${batch.id}`, { cache: 'no-store' })
+        const data = await response.json()
+        if (response.ok) setBatch(data.batch)
+      } catch {
+        // 다음 폴링에서 다시 시도
+      }
+    }, POLL_INTERVAL)
+
+    return () => clearTimeout(timer)
+  }, [batch, finished])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+    setBatch(null)
+
+    try {
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input, languages: [language] }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '알 수 없는 오류가 발생했습니다')
+      }
+
+      setBatch(data.batch)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '오류가 발생했습니다')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="animate-slide-up space-y-4">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={'한 줄에 하나씩 입력하세요\nhttps://youtube.com/watch?v=...\nhttps://youtube.com/playlist?list=...\n@channel'}
+          rows={6}
+          className="w-full px-6 py-4 bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl text-white placeholder-surface-200/50 input-focus focus:border-accent/50 focus:outline-none font-mono text-sm resize-y"
+          disabled={submitting}
+        />
+        <div className="flex items-center justify-between gap-3">
+          <LanguageSelect value={language} onChange={onLanguageChange} disabled={submitting} />
+          <button
+            type="submit"
+            disabled={submitting || !input.trim() || (batch !== null && !finished)}
+            className="px-6 py-2.5 bg-accent hover:bg-accent-light disabled:bg-surface-800 disabled:text-surface-200/50 rounded-xl font-medium transition-all duration-200 disabled:cursor-not-allowed glow-red"
+          >
+            {submitting ? '목록 불러오는 중' : '일괄 추출하기'}
+          </button>
+        </div>
+      </form>
+      <p className="text-center text-surface-200/60 text-sm">
+        ✨ 영상 URL 여러 개, 재생목록, 채널(@핸들)을 한꺼번에 추출해요
+      </p>
+
+      {error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 animate-fade-in">
+          {error}
+        </div>
+      )}
+
+      {batch && (
+        <div className="bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl overflow-hidden animate-fade-in">
+          <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-surface-800">
+            <h3 className="font-bold">
+              {doneCount}/{batch.items.length} 완료
+              {failedCount > 0 && <span className="text-red-400 font-normal text-sm ml-2">실패 {failedCount}</span>}
+            </h3>
+            <div className="flex items-center gap-2">
+              <select
+                value={fileFormat}
+                onChange={(e) => setFileFormat(e.target.value as ExportFormat)}
+                className="px-2 py-2 bg-surface-800 rounded-lg text-xs font-mono focus:outline-none"
+              >
+                {EXPORT_FORMATS.map(format => (
+                  <option key={format} value={format}>{format.toUpperCase()}</option>
+                ))}
+              </select>
+              <a
+                href={`/api/batch/${batch.id}/export?format=zip&file=${fileFormat}`}
+                className={`px-3 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors ${doneCount === 0 ? 'pointer-events-none opacity-50' : ''}`}
+              >
+                ZIP 다운로드
+              </a>
+              <a
+                href={`/api/batch/${batch.id}/export?format=json`}
+                className={`px-3 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors ${doneCount === 0 ? 'pointer-events-none opacity-50' : ''}`}
+              >
+                JSON 다운로드
+              </a>
+            </div>
+          </div>
+
+          <div className="h-1 bg-surface-800">
+            <div
+              className="h-full bg-accent transition-all duration-500"
+              style={{ width: `${Math.round(((doneCount + failedCount) / batch.items.length) * 100)}%` }}
+            />
+          </div>
+
+          <div className="max-h-[500px] overflow-y-auto p-2">
+            {batch.items.map(item => (
+              <div key={item.videoId} className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800/50 transition-colors">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${STATUS_STYLES[item.status].className}`}>
+                  {STATUS_STYLES[item.status].label}
+                </span>
+                <div className="min-w-0 flex-1">
+                  {item.historyId ? (
+                    <button
+                      onClick={() => onOpen(item.historyId!)}
+                      className="text-sm text-left hover:text-accent-light transition-colors line-clamp-1"
+                    >
+                      {item.title || item.videoId}
+                    </button>
+                  ) : (
+                    <p className="text-sm line-clamp-1 font-mono text-surface-200">{item.title || item.videoId}</p>
+                  )}
+                  {item.error && <p className="text-xs text-red-400/80 line-clamp-1">{item.error}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface DiarizeToggleProps {
+  value: boolean
+  onChange: (diarize: boolean) => void
+  disabled?: boolean
+}
+
+// 화자 구분 체크박스 (화자 분리 서버가 설정됐을 때만 표시)
+export default function DiarizeToggle({ value, onChange, disabled }: DiarizeToggleProps) {
+  const [available, setAvailable] = useState(false)
+
+  useEffect(() => {
+    fetch('/api/providers')
+      .then(response => response.json())
+      .then(data => {
+        setAvailable(data.diarization === true)
+        if (data.diarization !== true) onChange(false)
+      })
+      .catch(() => setAvailable(false))
+  }, [])
+
+  if (!available) return null
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-surface-200">
+      <input
+        type="checkbox"
+        checked={value}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        className="accent-accent"
+      />
+      화자 구분
+    </label>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { EXPORT_FORMATS, ExportFormat, exportFileName } from '@/lib/export'
+import type { TranscriptSegment, TranscriptSource } from '@/lib/types'
+
+interface ExportButtonsProps {
+  historyId?: string | null
+  title: string
+  videoId?: string | null
+  channelName?: string | null
+  source?: TranscriptSource
+  transcript: TranscriptSegment[]
+  fullText: string
+  translation?: TranscriptSegment[] | null
+  translationLanguage?: string | null
+  speakers?: Record<string, string>
+  onError: (message: string) => void
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  srt: 'SRT',
+  vtt: 'VTT',
+  txt: 'TXT',
+  md: 'MD',
+  json: 'JSON',
+}
+
+export default function ExportButtons({ historyId, title, videoId, channelName, source, transcript, fullText, translation, translationLanguage, speakers, onError }: ExportButtonsProps) {
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null)
+
+  const download = async (format: ExportFormat) => {
+    setDownloading(format)
+
+    try {
+      // 저장된 기록이면 id로, 아니면 현재 결과를 그대로 보냄
+      const translationQuery = translation && translationLanguage
+        ? `&translation=${encodeURIComponent(translationLanguage)}`
+        : ''
+      const response = historyId
+        ? await fetch(`/api/export?id=${encodeURIComponent(historyId)}&format=${format}${translationQuery}`)
+        : await fetch('/api/export', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format, title, videoId, channelName, source, transcript, fullText, translation, speakers }),
+        })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || '내보내기에 실패했습니다')
+      }
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = exportFileName(title, format)
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '내보내기에 실패했습니다')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          onClick={() => download(format)}
+          disabled={downloading !== null}
+          className="px-2.5 py-2 bg-surface-800 hover:bg-surface-200/20 disabled:opacity-50 rounded-lg text-xs font-mono font-medium transition-colors"
+          title={`${FORMAT_LABELS[format]} 파일로 다운로드`}
+        >
+          {downloading === format ? '…' : FORMAT_LABELS[format]}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import type { HistoryItem, TranscriptSource } from '@/lib/types'
+
+interface HistorySidebarProps {
+  open: boolean
+  activeId?: string | null
+  refreshKey: number
+  onClose: () => void
+  onSelect: (id: string) => void
+}
+
+const SOURCE_LABELS: Record<TranscriptSource, string> = {
+  captions: '자막',
+  whisper: 'Whisper',
+  upload: '업로드',
+}
+
+const formatDate = (iso: string): string => {
+  const date = new Date(iso)
+  return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`
+}
+
+export default function HistorySidebar({ open, activeId, refreshKey, onClose, onSelect }: HistorySidebarProps) {
+  const [history, setHistory] = useState<HistoryItem[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setLoading(true)
+
+    fetch('/api/history')
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled) setHistory(data.history || [])
+      })
+      .catch(() => {
+        if (!cancelled) setHistory([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => { cancelled = true }
+  }, [open, refreshKey])
+
+  if (!open) return null
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/40 z-40" onClick={onClose} />
+      <aside className="fixed top-0 right-0 h-full w-full max-w-sm bg-surface-900 border-l border-surface-800 z-50 flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-4 border-b border-surface-800">
+          <h3 className="font-bold flex items-center gap-2">
+            <span className="text-xl">📚</span>
+            추출 기록
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-surface-800 transition-colors"
+            aria-label="닫기"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {loading && history.length === 0 && (
+            <>
+              <div className="h-16 rounded-xl shimmer" />
+              <div className="h-16 rounded-xl shimmer" />
+              <div className="h-16 rounded-xl shimmer" />
+            </>
+          )}
+
+          {!loading && history.length === 0 && (
+            <p className="text-center text-surface-200/60 text-sm py-12">
+              아직 저장된 기록이 없습니다
+            </p>
+          )}
+
+          {history.map(item => (
+            <button
+              key={item.id}
+              onClick={() => onSelect(item.id)}
+              className={`w-full flex gap-3 p-2 rounded-xl text-left transition-colors ${
+                item.id === activeId
+                  ? 'bg-accent/10 border border-accent/30'
+                  : 'hover:bg-surface-800/70 border border-transparent'
+              }`}
+            >
+              {item.thumbnail ? (
+                <div className="relative w-24 aspect-video rounded-lg overflow-hidden flex-shrink-0">
+                  <Image
+                    src={item.thumbnail}
+                    alt={item.title}
+                    fill
+                    sizes="96px"
+                    className="object-cover"
+                  />
+                </div>
+              ) : (
+                <div className="w-24 aspect-video bg-surface-800 rounded-lg flex items-center justify-center flex-shrink-0">
+                  <span className="text-xl">🎵</span>
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium line-clamp-2">{item.title}</p>
+                <p className="text-xs text-surface-200/60 mt-1">
+                  {SOURCE_LABELS[item.source] || item.source} · {formatDate(item.createdAt)}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      </aside>
+    </>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import type { Job } from '@/lib/jobs'
+import type { UploadProgress } from '@/lib/uploadClient'
+
+interface JobProgressProps {
+  job: Job | null
+  // 작업을 만들기 전 파일 업로드 진행 상태
+  upload?: UploadProgress | null
+}
+
+const STATUS_LABELS: Record<Job['status'], string> = {
+  queued: '대기 중',
+  running: '작업 시작 중',
+  fetching_captions: '자막 확인 중',
+  downloading_audio: '오디오 다운로드 중',
+  extracting_audio: '오디오 추출 중',
+  transcribing: 'AI 음성 인식 중',
+  diarizing: '화자 구분 중',
+  done: '완료',
+  failed: '실패',
+}
+
+// 단계별 대략적인 진행률 (%)
+function percentOf(job: Job | null): number {
+  if (!job) return 2
+  switch (job.status) {
+    case 'queued':
+      return 5
+    case 'running':
+      return 10
+    case 'fetching_captions':
+      return 15
+    case 'downloading_audio':
+      return 30
+    case 'extracting_audio':
+      return 25
+    case 'transcribing': {
+      const { current, total } = job.progress ?? { current: 1, total: 1 }
+      return 35 + Math.round((60 * (current - 1)) / Math.max(1, total))
+    }
+    case 'diarizing':
+      return 95
+    case 'done':
+    case 'failed':
+      return 100
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`
+}
+
+export default function JobProgress({ job, upload }: JobProgressProps) {
+  const uploading = !job && upload
+  const percent = uploading ? Math.floor((100 * upload.sent) / Math.max(1, upload.total)) : percentOf(job)
+  const label = job ? STATUS_LABELS[job.status] : uploading ? '파일 업로드 중' : '작업 요청 중'
+  const chunkText = uploading
+    ? ` (${formatMegabytes(upload.sent)} / ${formatMegabytes(upload.total)})`
+    : job?.status === 'transcribing' && job.progress && job.progress.total > 1
+      ? ` (${job.progress.current}/${job.progress.total})`
+      : ''
+
+  return (
+    <div className="bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-medium flex items-center gap-2">
+          <svg className="w-4 h-4 animate-spin text-accent" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+          {label}{chunkText}
+        </span>
+        <span className="text-surface-200/60 text-sm font-mono">{percent}%</span>
+      </div>
+      <div className="h-2 bg-surface-800 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-accent rounded-full transition-all duration-500 glow-red"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import { AUTO_LANGUAGE, LANGUAGE_OPTIONS } from '@/lib/languages'
+
+interface LanguageSelectProps {
+  value: string
+  onChange: (language: string) => void
+  disabled?: boolean
+}
+
+export default function LanguageSelect({ value, onChange, disabled }: LanguageSelectProps) {
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-surface-200">
+      🌐 언어
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 rounded-lg text-white focus:outline-none focus:border-accent/50"
+      >
+        <option value={AUTO_LANGUAGE}>자동 감지</option>
+        {LANGUAGE_OPTIONS.map(option => (
+          <option key={option.code} value={option.code}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+interface LoginFormProps {
+  supabase: SupabaseClient
+}
+
+// 이메일/비밀번호 로그인 및 가입
+export default function LoginForm({ supabase }: LoginFormProps) {
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+    setMessage('')
+
+    try {
+      if (mode === 'signIn') {
+        const { error: signInError } = await supabase.auth.signInWithPassword({ email, password })
+        if (signInError) throw signInError
+      } else {
+        const { data, error: signUpError } = await supabase.auth.signUp({ email, password })
+        if (signUpError) throw signUpError
+        // 이메일 확인을 켜 둔 프로젝트는 세션 없이 돌아옴
+        if (!data.session) {
+          setMessage('확인 메일을 보냈습니다. 메일의 링크를 누른 뒤 로그인해주세요')
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '로그인에 실패했습니다')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4">
+      <form
+        onSubmit={submit}
+        className="w-full max-w-sm bg-surface-900/80 border border-surface-800 rounded-2xl p-6 space-y-4 animate-fade-in"
+      >
+        <h1 className="text-xl font-bold text-center">
+          {mode === 'signIn' ? '로그인' : '회원가입'}
+        </h1>
+
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="이메일"
+          required
+          className="w-full px-4 py-3 bg-surface-800/50 border border-surface-800 rounded-xl text-white placeholder-surface-200/50 focus:outline-none focus:border-accent/50"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="비밀번호 (6자 이상)"
+          minLength={6}
+          required
+          className="w-full px-4 py-3 bg-surface-800/50 border border-surface-800 rounded-xl text-white placeholder-surface-200/50 focus:outline-none focus:border-accent/50"
+        />
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {message && <p className="text-sm text-surface-200">{message}</p>}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full py-3 bg-accent hover:bg-accent-light disabled:bg-surface-800 rounded-xl font-semibold transition-colors"
+        >
+          {loading ? '처리 중…' : mode === 'signIn' ? '로그인' : '가입하기'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => { setMode(mode === 'signIn' ? 'signUp' : 'signIn'); setError(''); setMessage('') }}
+          className="w-full text-sm text-surface-200 hover:text-white transition-colors"
+        >
+          {mode === 'signIn' ? '계정이 없나요? 회원가입' : '이미 계정이 있나요? 로그인'}
+        </button>
+      </form>
+    </main>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+// 유튜브 플레이어와 오디오 태그를 같은 방식으로 다루기 위한 인터페이스
+export interface MediaController {
+  seek(seconds: number): void
+  togglePlay(): void
+}
+
+interface MediaPlayerProps {
+  videoId?: string | null
+  audioUrl?: string | null
+  onReady: (controller: MediaController | null) => void
+  onTime: (seconds: number) => void
+}
+
+// YouTube IFrame Player API 중 쓰는 부분만
+interface YouTubePlayer {
+  seekTo(seconds: number, allowSeekAhead: boolean): void
+  playVideo(): void
+  pauseVideo(): void
+  getPlayerState(): number
+  getCurrentTime(): number
+  destroy(): void
+}
+
+interface YouTubeApi {
+  Player: new (element: HTMLElement, options: {
+    videoId: string
+    width?: string
+    height?: string
+    playerVars?: Record<string, number>
+    events?: { onReady?: () => void }
+  }) => YouTubePlayer
+  PlayerState: { PLAYING: number }
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeApi
+    onYouTubeIframeAPIReady?: () => void
+  }
+}
+
+// 재생 위치를 확인하는 간격 (ms)
+const TIME_POLL_INTERVAL = 250
+
+let youtubeApi: Promise<YouTubeApi> | null = null
+
+function loadYouTubeApi(): Promise<YouTubeApi> {
+  if (window.YT?.Player) return Promise.resolve(window.YT)
+
+  if (!youtubeApi) {
+    youtubeApi = new Promise(resolve => {
+      const previous = window.onYouTubeIframeAPIReady
+      window.onYouTubeIframeAPIReady = () => {
+        previous?.()
+        resolve(window.YT!)
+      }
+      const script = document.createElement('script')
+      script.src = 'https://www.youtube.com/iframe_api'
+      document.head.appendChild(script)
+    })
+  }
+
+  return youtubeApi
+}
+
+export default function MediaPlayer({ videoId, audioUrl, onReady, onTime }: MediaPlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const audioRef = useRef<HTMLAudioElement>(null)
+
+  // 콜백이 바뀌어도 플레이어를 다시 만들지 않도록
+  const callbacks = useRef({ onReady, onTime })
+  callbacks.current = { onReady, onTime }
+
+  useEffect(() => {
+    if (!videoId || !containerRef.current) return
+
+    let player: YouTubePlayer | null = null
+    let timer: ReturnType<typeof setInterval> | null = null
+    let cancelled = false
+
+    const mount = document.createElement('div')
+    containerRef.current.appendChild(mount)
+
+    loadYouTubeApi().then(YT => {
+      if (cancelled) return
+      player = new YT.Player(mount, {
+        videoId,
+        width: '100%',
+        height: '100%',
+        playerVars: { playsinline: 1, rel: 0 },
+        events: {
+          onReady: () => {
+            const ready = player!
+            callbacks.current.onReady({
+              seek: seconds => {
+                ready.seekTo(seconds, true)
+                ready.playVideo()
+              },
+              togglePlay: () => {
+                if (ready.getPlayerState() === YT.PlayerState.PLAYING) {
+                  ready.pauseVideo()
+                } else {
+                  ready.playVideo()
+                }
+              },
+            })
+            timer = setInterval(() => callbacks.current.onTime(ready.getCurrentTime()), TIME_POLL_INTERVAL)
+          },
+        },
+      })
+    })
+
+    return () => {
+      cancelled = true
+      if (timer) clearInterval(timer)
+      player?.destroy()
+      mount.remove()
+      callbacks.current.onReady(null)
+    }
+  }, [videoId])
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (videoId || !audioUrl || !audio) return
+
+    callbacks.current.onReady({
+      seek: seconds => {
+        audio.currentTime = seconds
+        audio.play().catch(() => {})
+      },
+      togglePlay: () => {
+        if (audio.paused) {
+          audio.play().catch(() => {})
+        } else {
+          audio.pause()
+        }
+      },
+    })
+
+    return () => callbacks.current.onReady(null)
+  }, [videoId, audioUrl])
+
+  if (videoId) {
+    return <div ref={containerRef} className="w-full aspect-video bg-black" />
+  }
+
+  if (audioUrl) {
+    return (
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        onTimeUpdate={(e) => onTime(e.currentTarget.currentTime)}
+        className="w-full"
+      />
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { TranscriptionProviderName } from '@/lib/transcription'
+
+interface ProviderSelectProps {
+  value: string
+  onChange: (provider: string) => void
+  disabled?: boolean
+}
+
+const PROVIDER_LABELS: Record<TranscriptionProviderName, string> = {
+  openai: 'OpenAI Whisper',
+  local: '로컬 Whisper (사내)',
+}
+
+// 음성 인식 provider 선택 (두 개 이상 설정됐을 때만 표시)
+export default function ProviderSelect({ value, onChange, disabled }: ProviderSelectProps) {
+  const [providers, setProviders] = useState<TranscriptionProviderName[]>([])
+
+  useEffect(() => {
+    fetch('/api/providers')
+      .then(response => response.json())
+      .then(data => {
+        setProviders(data.providers || [])
+        if (!value && data.defaultProvider) onChange(data.defaultProvider)
+      })
+      .catch(() => setProviders([]))
+  }, [])
+
+  if (providers.length < 2) return null
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-surface-200">
+      🎙️ 음성 인식
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="px-3 py-1.5 bg-surface-900/80 border border-surface-800 rounded-lg text-white focus:outline-none focus:border-accent/50"
+      >
+        {providers.map(provider => (
+          <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { speakerColor, speakerName } from '@/lib/speakers'
+
+interface SpeakerNamesProps {
+  historyId?: string | null
+  labels: string[]
+  speakers?: Record<string, string>
+  onChange: (speakers: Record<string, string>) => void
+  onError: (message: string) => void
+}
+
+// 화자 이름 바꾸기 (저장된 기록이면 입력을 마칠 때 서버에도 저장)
+export default function SpeakerNames({ historyId, labels, speakers, onChange, onError }: SpeakerNamesProps) {
+  const [draft, setDraft] = useState<Record<string, string>>(speakers ?? {})
+
+  useEffect(() => {
+    setDraft(speakers ?? {})
+  }, [speakers])
+
+  const commit = async () => {
+    if (labels.every(label => (draft[label] ?? '') === (speakers?.[label] ?? ''))) return
+
+    onChange(draft)
+    if (!historyId) return
+
+    try {
+      const response = await fetch(`/api/history/${historyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ speakers: draft }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || '화자 이름을 저장하지 못했습니다')
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '화자 이름을 저장하지 못했습니다')
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 pt-4 text-sm">
+      <span className="text-surface-200">🗣️ 화자</span>
+      {labels.map(label => (
+        <input
+          key={label}
+          type="text"
+          value={draft[label] ?? ''}
+          placeholder={speakerName(label, {}, labels)}
+          onChange={(e) => setDraft(prev => ({ ...prev, [label]: e.target.value }))}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={`w-28 px-2 py-1 bg-surface-800 border border-surface-800 rounded-lg focus:outline-none focus:border-accent/50 placeholder-current ${speakerColor(label, labels)}`}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { CheckSummary, Subscription, SubscriptionVideo, SubscriptionVideoStatus } from '@/lib/subscriptions'
+
+interface SubscriptionsPanelProps {
+  onOpen: (historyId: string) => void
+  // 지금 확인으로 새 기록이 생겼을 때
+  onTranscribed: () => void
+}
+
+// 추출 중인 영상이 있으면 끝날 때까지 피드를 다시 불러오는 간격
+const POLL_INTERVAL = 5000
+
+const STATUS_STYLES: Record<SubscriptionVideoStatus, { label: string; className: string }> = {
+  pending: { label: '대기', className: 'bg-surface-800 text-surface-200' },
+  processing: { label: '추출 중', className: 'bg-yellow-500/15 text-yellow-400' },
+  done: { label: '완료', className: 'bg-green-500/15 text-green-400' },
+  failed: { label: '실패', className: 'bg-red-500/15 text-red-400' },
+}
+
+const formatDateTime = (iso: string): string => {
+  const date = new Date(iso)
+  return `${date.getMonth() + 1}.${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+// 채널 구독 관리와 새 영상 피드 (새 영상은 cron이 매시간 확인해서 추출)
+export default function SubscriptionsPanel({ onOpen, onTranscribed }: SubscriptionsPanelProps) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
+  const [videos, setVideos] = useState<SubscriptionVideo[]>([])
+  const [channel, setChannel] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [checking, setChecking] = useState(false)
+  const [summary, setSummary] = useState<CheckSummary | null>(null)
+  const [error, setError] = useState('')
+
+  const processing = videos.some(video => video.status === 'processing')
+
+  const load = () => {
+    fetch('/api/subscriptions', { cache: 'no-store' })
+      .then(response => response.json())
+      .then(data => setSubscriptions(data.subscriptions || []))
+      .catch(() => setSubscriptions([]))
+    fetch('/api/subscriptions/feed', { cache: 'no-store' })
+      .then(response => response.json())
+      .then(data => setVideos(data.videos || []))
+      .catch(() => setVideos([]))
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  // 추출 작업은 백그라운드에서 끝나므로 완료될 때까지 피드 폴링
+  useEffect(() => {
+    if (!processing) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/subscriptions/feed', { cache: 'no-store' })
+        const data = await response.json()
+        if (!response.ok) return
+
+        const next: SubscriptionVideo[] = data.videos || []
+        const doneBefore = new Set(videos.filter(video => video.status === 'done').map(video => video.id))
+        if (next.some(video => video.status === 'done' && !doneBefore.has(video.id))) onTranscribed()
+        setVideos(next)
+      } catch {
+        // 다음 폴링에서 다시 시도
+      }
+    }, POLL_INTERVAL)
+
+    return () => clearTimeout(timer)
+  }, [videos, processing])
+
+  const subscribe = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setAdding(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '채널을 구독하지 못했습니다')
+      }
+
+      setChannel('')
+      load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '채널을 구독하지 못했습니다')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const unsubscribe = async (subscription: Subscription) => {
+    if (!window.confirm(`${subscription.title} 구독을 취소할까요?`)) return
+
+    const response = await fetch(`/api/subscriptions/${subscription.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      setError(data.error || '구독을 취소하지 못했습니다')
+      return
+    }
+    load()
+  }
+
+  const checkNow = async () => {
+    setChecking(true)
+    setSummary(null)
+    setError('')
+
+    try {
+      const response = await fetch('/api/subscriptions/check', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '구독 채널을 확인하지 못했습니다')
+      }
+
+      setSummary(data)
+      if (data.transcribed > 0) onTranscribed()
+      load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '구독 채널을 확인하지 못했습니다')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <div className="animate-slide-up space-y-4">
+      <form onSubmit={subscribe} className="flex gap-3">
+        <input
+          type="text"
+          value={channel}
+          onChange={(e) => setChannel(e.target.value)}
+          placeholder="https://youtube.com/@channel"
+          className="flex-1 min-w-0 px-6 py-4 bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl text-white placeholder-surface-200/50 input-focus focus:border-accent/50 focus:outline-none font-mono text-sm"
+          disabled={adding}
+        />
+        <button
+          type="submit"
+          disabled={adding || !channel.trim()}
+          className="px-6 py-2.5 bg-accent hover:bg-accent-light disabled:bg-surface-800 disabled:text-surface-200/50 rounded-2xl font-medium transition-all duration-200 disabled:cursor-not-allowed glow-red"
+        >
+          {adding ? '확인 중' : '구독'}
+        </button>
+      </form>
+      <p className="text-center text-surface-200/60 text-sm">
+        ✨ 구독한 채널에 새 영상이 올라오면 자동으로 대본을 추출해 기록에 저장해요
+      </p>
+
+      {error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 animate-fade-in">
+          {error}
+        </div>
+      )}
+
+      {subscriptions.length > 0 && (
+        <div className="bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl overflow-hidden">
+          <div className="flex items-center justify-between gap-3 p-4 border-b border-surface-800">
+            <h3 className="font-bold">구독 채널 {subscriptions.length}개</h3>
+            <button
+              onClick={checkNow}
+              disabled={checking}
+              className="px-3 py-2 bg-surface-800 hover:bg-surface-200/20 disabled:opacity-50 rounded-lg text-xs font-medium transition-colors"
+            >
+              {checking ? '확인 중…' : '지금 확인'}
+            </button>
+          </div>
+          {summary && (
+            <p className="px-4 pt-3 text-xs text-surface-200/80">
+              채널 {summary.checked}개 확인 · 새 영상 {summary.found}개 · 추출 시작 {summary.queued}개
+              {summary.transcribed > 0 && <span> · 완료 {summary.transcribed}개</span>}
+              {summary.failed > 0 && <span className="text-red-400"> · 실패 {summary.failed}개</span>}
+            </p>
+          )}
+          <div className="p-2">
+            {subscriptions.map(subscription => (
+              <div key={subscription.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800/50 transition-colors">
+                <div className="min-w-0 flex-1">
+                  <a
+                    href={`https://www.youtube.com/channel/${subscription.channelId}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm hover:text-accent-light transition-colors line-clamp-1"
+                  >
+                    {subscription.title}
+                  </a>
+                  {subscription.lastError ? (
+                    <p className="text-xs text-red-400/80 line-clamp-1">{subscription.lastError}</p>
+                  ) : (
+                    <p className="text-xs text-surface-200/60">
+                      {subscription.lastCheckedAt ? `${formatDateTime(subscription.lastCheckedAt)} 확인` : '아직 확인 전'}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => unsubscribe(subscription)}
+                  className="px-2 py-0.5 bg-surface-800 hover:bg-red-500/30 rounded text-xs transition-colors flex-shrink-0"
+                >
+                  구독 취소
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl overflow-hidden">
+        <h3 className="font-bold p-4 border-b border-surface-800">새 영상</h3>
+        {videos.length === 0 ? (
+          <p className="text-center text-surface-200/60 text-sm py-8">
+            {subscriptions.length === 0 ? '채널을 구독하면 새 영상이 여기에 표시됩니다' : '구독한 뒤 올라온 새 영상이 아직 없습니다'}
+          </p>
+        ) : (
+          <div className="max-h-[500px] overflow-y-auto p-2">
+            {videos.map(video => (
+              <div key={video.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800/50 transition-colors">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${STATUS_STYLES[video.status].className}`}>
+                  {STATUS_STYLES[video.status].label}
+                </span>
+                <div className="min-w-0 flex-1">
+                  {video.historyId ? (
+                    <button
+                      onClick={() => onOpen(video.historyId!)}
+                      className="text-sm text-left hover:text-accent-light transition-colors line-clamp-1"
+                    >
+                      {video.title}
+                    </button>
+                  ) : (
+                    <p className="text-sm line-clamp-1 text-surface-200">{video.title}</p>
+                  )}
+                  <p className="text-xs text-surface-200/60 line-clamp-1">
+                    {video.channelTitle} · {formatDateTime(video.publishedAt)}
+                  </p>
+                  {video.error && video.status !== 'done' && <p className="text-xs text-red-400/80 line-clamp-1">{video.error}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
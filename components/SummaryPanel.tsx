@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { formatTime, youtubeTimeUrl } from '@/lib/transcript'
+import type { TranscriptSegment, TranscriptSummary } from '@/lib/types'
+
+interface SummaryPanelProps {
+  historyId?: string | null
+  videoId?: string | null
+  transcript: TranscriptSegment[]
+  summary?: TranscriptSummary | null
+  onSummary: (summary: TranscriptSummary) => void
+  onError: (message: string) => void
+}
+
+export default function SummaryPanel({ historyId, videoId, transcript, summary, onSummary, onError }: SummaryPanelProps) {
+  const [loading, setLoading] = useState(false)
+
+  const summarize = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/summarize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(historyId ? { historyId } : { transcript }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '요약에 실패했습니다')
+      }
+
+      onSummary(data.summary)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '요약에 실패했습니다')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-surface-800">
+        <h3 className="font-bold flex items-center gap-2">
+          <svg className="w-5 h-5 text-accent" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h7" />
+          </svg>
+          AI 요약
+        </h3>
+        {!summary && (
+          <button
+            onClick={summarize}
+            disabled={loading}
+            className="px-4 py-2 bg-accent hover:bg-accent-light disabled:bg-surface-800 disabled:text-surface-200/50 rounded-lg text-sm font-medium transition-colors"
+          >
+            {loading ? '요약 중…' : '요약하기'}
+          </button>
+        )}
+      </div>
+
+      {summary ? (
+        <div className="p-4 space-y-5">
+          {summary.summary && (
+            <p className="text-surface-100 leading-relaxed">{summary.summary}</p>
+          )}
+
+          {summary.keyPoints.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-surface-200 mb-2">핵심 포인트</h4>
+              <ul className="list-disc pl-5 space-y-1 text-surface-100">
+                {summary.keyPoints.map((point, index) => (
+                  <li key={index}>{point}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {summary.chapters.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-surface-200 mb-2">챕터</h4>
+              <ul className="space-y-1">
+                {summary.chapters.map((chapter, index) => (
+                  <li key={index} className="flex gap-3 items-baseline">
+                    {videoId ? (
+                      <a
+                        href={youtubeTimeUrl(videoId, chapter.offset)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="timestamp flex-shrink-0 hover:bg-accent/30 transition-colors"
+                      >
+                        {formatTime(chapter.offset)}
+                      </a>
+                    ) : (
+                      <span className="timestamp flex-shrink-0">{formatTime(chapter.offset)}</span>
+                    )}
+                    <span className="text-surface-100">{chapter.title}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="p-4 text-sm text-surface-200/60">
+          요약, 핵심 포인트, 챕터를 만들어 드려요
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { formatTime, joinTranscript } from '@/lib/transcript'
+import { mergeWithNext, normalizeSegments, parseTime, removeSegment, splitSegment, updateSegment } from '@/lib/transcriptEdit'
+import type { HistoryDetail, TranscriptSegment } from '@/lib/types'
+
+export interface EditedTranscript {
+  transcript: TranscriptSegment[]
+  fullText: string
+  item?: HistoryDetail
+}
+
+interface TranscriptEditorProps {
+  historyId?: string | null
+  segments: TranscriptSegment[]
+  onSave: (edited: EditedTranscript) => void
+  onCancel: () => void
+  onError: (message: string) => void
+}
+
+export default function TranscriptEditor({ historyId, segments: initial, onSave, onCancel, onError }: TranscriptEditorProps) {
+  const [segments, setSegments] = useState(initial)
+  const [undoStack, setUndoStack] = useState<TranscriptSegment[][]>([])
+  const [redoStack, setRedoStack] = useState<TranscriptSegment[][]>([])
+  const [saving, setSaving] = useState(false)
+
+  // 글자 입력은 포커스를 잃을 때 한 번에 되돌리기 기록
+  const editStart = useRef<TranscriptSegment[] | null>(null)
+  const caret = useRef<{ index: number; position: number } | null>(null)
+
+  const apply = (next: TranscriptSegment[]) => {
+    if (next === segments) return
+    // 입력 중에 나누기를 누른 경우 입력 전 상태도 함께 기록
+    const pending = editStart.current && editStart.current !== segments ? [editStart.current] : []
+    if (editStart.current) editStart.current = next
+    setUndoStack(stack => [...stack, ...pending, segments])
+    setRedoStack([])
+    setSegments(next)
+  }
+
+  const undo = () => {
+    const previous = undoStack[undoStack.length - 1]
+    if (!previous) return
+    setUndoStack(stack => stack.slice(0, -1))
+    setRedoStack(stack => [...stack, segments])
+    setSegments(previous)
+  }
+
+  const redo = () => {
+    const next = redoStack[redoStack.length - 1]
+    if (!next) return
+    setRedoStack(stack => stack.slice(0, -1))
+    setUndoStack(stack => [...stack, segments])
+    setSegments(next)
+  }
+
+  const commitTextEdit = () => {
+    const start = editStart.current
+    editStart.current = null
+    if (start && start !== segments) {
+      setUndoStack(stack => [...stack, start])
+      setRedoStack([])
+    }
+  }
+
+  const changeTime = (index: number, value: string) => {
+    const seconds = parseTime(value)
+    if (seconds === null) {
+      onError('시간은 0:00 또는 0:00:00 형식으로 입력해주세요')
+      return
+    }
+    if (seconds !== segments[index].offset) {
+      apply(updateSegment(segments, index, { offset: seconds }))
+    }
+  }
+
+  const split = (index: number) => {
+    const position = caret.current?.index === index ? caret.current.position : undefined
+    apply(splitSegment(segments, index, position))
+  }
+
+  const save = async () => {
+    const transcript = normalizeSegments(segments)
+    if (transcript.length === 0) {
+      onError('대본이 비어 있습니다')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      if (!historyId) {
+        onSave({ transcript, fullText: joinTranscript(transcript) })
+        return
+      }
+
+      const response = await fetch(`/api/history/${historyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transcript }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '저장에 실패했습니다')
+      }
+
+      const item: HistoryDetail = data.item
+      onSave({ transcript: item.transcript, fullText: item.fullText, item })
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '저장에 실패했습니다')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 pt-4">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={undo}
+            disabled={undoStack.length === 0}
+            className="px-3 py-1.5 bg-surface-800 hover:bg-surface-200/20 disabled:opacity-40 rounded-lg text-xs font-medium transition-colors"
+          >
+            ↶ 되돌리기
+          </button>
+          <button
+            onClick={redo}
+            disabled={redoStack.length === 0}
+            className="px-3 py-1.5 bg-surface-800 hover:bg-surface-200/20 disabled:opacity-40 rounded-lg text-xs font-medium transition-colors"
+          >
+            ↷ 다시 실행
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="px-3 py-1.5 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors"
+          >
+            취소
+          </button>
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-3 py-1.5 bg-accent hover:bg-accent-light disabled:bg-surface-800 rounded-lg text-xs font-medium transition-colors"
+          >
+            {saving ? '저장 중…' : '저장'}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-[500px] overflow-y-auto p-4 space-y-2">
+        {segments.map((segment, index) => (
+          <div key={`${index}-${segment.offset}`} className="flex gap-2 p-2 rounded-lg bg-surface-800/30">
+            <input
+              type="text"
+              defaultValue={formatTime(segment.offset)}
+              onBlur={(e) => changeTime(index, e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="timestamp w-20 flex-shrink-0 self-start bg-transparent text-center focus:outline-none"
+              title="시작 시간"
+            />
+            <textarea
+              value={segment.text}
+              rows={Math.max(1, Math.ceil(segment.text.length / 60))}
+              onFocus={() => { editStart.current = segments }}
+              onChange={(e) => setSegments(updateSegment(segments, index, { text: e.target.value }))}
+              onBlur={commitTextEdit}
+              onSelect={(e) => { caret.current = { index, position: e.currentTarget.selectionStart } }}
+              className="flex-1 px-2 py-1 bg-transparent border border-transparent focus:border-accent/50 rounded-lg text-surface-100 leading-relaxed resize-none focus:outline-none"
+            />
+            <div className="flex flex-col gap-1 flex-shrink-0">
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => split(index)}
+                className="px-2 py-0.5 bg-surface-800 hover:bg-surface-200/20 rounded text-xs transition-colors"
+                title="커서 위치에서 나누기"
+              >
+                나누기
+              </button>
+              <button
+                onClick={() => apply(mergeWithNext(segments, index))}
+                disabled={index === segments.length - 1}
+                className="px-2 py-0.5 bg-surface-800 hover:bg-surface-200/20 disabled:opacity-40 rounded text-xs transition-colors"
+                title="다음 세그먼트와 합치기"
+              >
+                합치기
+              </button>
+              <button
+                onClick={() => apply(removeSegment(segments, index))}
+                className="px-2 py-0.5 bg-surface-800 hover:bg-red-500/30 rounded text-xs transition-colors"
+              >
+                삭제
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import { speakerColor, speakerLabels, speakerName } from '@/lib/speakers'
+import { formatTime, youtubeTimeUrl } from '@/lib/transcript'
+import type { TranscriptSegment } from '@/lib/types'
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[]
+  translation?: TranscriptSegment[] | null
+  videoId?: string | null
+  speakers?: Record<string, string>
+  // 재생 중인 세그먼트 (플레이어와 동기화, -1이면 없음)
+  activeIndex?: number
+  // 있으면 타임스탬프를 누를 때 새 창 대신 플레이어를 이동
+  onSeek?: (seconds: number) => void
+}
+
+// 타임스탬프 목록 (번역이 있으면 원문/번역 나란히, 화자가 있으면 화자별 색)
+export default function TranscriptView({ segments, translation, videoId, speakers = {}, activeIndex = -1, onSeek }: TranscriptViewProps) {
+  const labels = useMemo(() => speakerLabels(segments), [segments])
+  const containerRef = useRef<HTMLDivElement>(null)
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([])
+
+  // 재생 중인 줄이 목록 밖에 있으면 가운데로 스크롤 (페이지 전체는 움직이지 않음)
+  useEffect(() => {
+    const container = containerRef.current
+    const row = rowRefs.current[activeIndex]
+    if (!container || !row) return
+
+    // 컨테이너가 relative라서 offsetTop은 이미 컨테이너 기준
+    const top = row.offsetTop
+    if (top < container.scrollTop || top + row.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 2 + row.offsetHeight / 2, behavior: 'smooth' })
+    }
+  }, [activeIndex])
+
+  return (
+    <div ref={containerRef} className="relative max-h-[500px] overflow-y-auto p-4 space-y-2">
+      {segments.map((segment, index) => (
+        <div
+          key={index}
+          ref={(element) => { rowRefs.current[index] = element }}
+          className={`flex gap-3 p-2 rounded-lg transition-colors group ${
+            index === activeIndex ? 'bg-accent/15' : 'hover:bg-surface-800/50'
+          }`}
+        >
+          {onSeek ? (
+            <button
+              onClick={() => onSeek(segment.offset)}
+              className="timestamp flex-shrink-0 hover:bg-accent/30 transition-colors"
+              title="이 위치부터 재생"
+            >
+              {formatTime(segment.offset)}
+            </button>
+          ) : videoId ? (
+            <a
+              href={youtubeTimeUrl(videoId, segment.offset)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="timestamp flex-shrink-0 hover:bg-accent/30 transition-colors"
+            >
+              {formatTime(segment.offset)}
+            </a>
+          ) : (
+            <span className="timestamp flex-shrink-0">
+              {formatTime(segment.offset)}
+            </span>
+          )}
+          {segment.speaker && (
+            <span className={`flex-shrink-0 w-20 truncate text-sm font-medium leading-relaxed ${speakerColor(segment.speaker, labels)}`}>
+              {speakerName(segment.speaker, speakers, labels)}
+            </span>
+          )}
+          {translation ? (
+            <div className="grid flex-1 gap-3 sm:grid-cols-2">
+              <p className="text-surface-200 leading-relaxed">
+                {segment.text}
+              </p>
+              <p className="text-surface-100 leading-relaxed">
+                {translation[index]?.text}
+              </p>
+            </div>
+          ) : (
+            <p className="text-surface-100 leading-relaxed">
+              {segment.text}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
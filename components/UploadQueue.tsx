@@ -0,0 +1,216 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { Job } from '@/lib/jobs'
+import { waitForJob } from '@/lib/jobClient'
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export'
+import { startUploadJob, uploadFile, UploadProgress } from '@/lib/uploadClient'
+
+interface UploadQueueProps {
+  // 추가된 순서대로 계속 늘어나는 파일 목록
+  files: File[]
+  language: string
+  provider: string
+  diarize: boolean
+  onOpen: (historyId: string) => void
+  onComplete: () => void
+}
+
+type QueueItemStatus = 'queued' | 'uploading' | 'transcribing' | 'done' | 'failed'
+
+interface QueueItem {
+  id: number
+  file: File
+  status: QueueItemStatus
+  upload: UploadProgress | null
+  job: Job | null
+  historyId: string | null
+  error: string
+}
+
+// 동시에 올리고 인식할 파일 수 (Whisper 요청이 한꺼번에 몰리지 않게)
+const UPLOAD_CONCURRENCY = Math.max(1, Number(process.env.NEXT_PUBLIC_UPLOAD_CONCURRENCY) || 2)
+
+const STATUS_STYLES: Record<QueueItemStatus, { label: string; className: string }> = {
+  queued: { label: '대기', className: 'bg-surface-800 text-surface-200' },
+  uploading: { label: '업로드 중', className: 'bg-blue-500/15 text-blue-400' },
+  transcribing: { label: '인식 중', className: 'bg-yellow-500/15 text-yellow-400' },
+  done: { label: '완료', className: 'bg-green-500/15 text-green-400' },
+  failed: { label: '실패', className: 'bg-red-500/15 text-red-400' },
+}
+
+function detailOf(item: QueueItem): string {
+  if (item.status === 'uploading' && item.upload) {
+    return `${Math.floor((100 * item.upload.sent) / Math.max(1, item.upload.total))}%`
+  }
+  if (item.status === 'transcribing' && item.job?.status === 'transcribing' && item.job.progress && item.job.progress.total > 1) {
+    return `${item.job.progress.current}/${item.job.progress.total}`
+  }
+  return ''
+}
+
+export default function UploadQueue({ files, language, provider, diarize, onOpen, onComplete }: UploadQueueProps) {
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [fileFormat, setFileFormat] = useState<ExportFormat>('txt')
+  const added = useRef(0)
+  const nextId = useRef(0)
+
+  const update = (id: number, patch: Partial<QueueItem>) => {
+    setItems(current => current.map(item => item.id === id ? { ...item, ...patch } : item))
+  }
+
+  // 새로 들어온 파일만 대기열에 추가
+  useEffect(() => {
+    const fresh = files.slice(added.current)
+    added.current = files.length
+    if (fresh.length === 0) return
+
+    setItems(current => [
+      ...current,
+      ...fresh.map(file => ({
+        id: nextId.current++,
+        file,
+        status: 'queued' as const,
+        upload: null,
+        job: null,
+        historyId: null,
+        error: '',
+      })),
+    ])
+  }, [files])
+
+  const run = async (item: QueueItem) => {
+    update(item.id, { status: 'uploading', upload: { sent: 0, total: item.file.size }, job: null, error: '' })
+
+    try {
+      const uploadId = await uploadFile(item.file, upload => update(item.id, { upload }))
+      update(item.id, { status: 'transcribing' })
+
+      const jobId = await startUploadJob(item.file, uploadId, { language, provider: provider || undefined, diarize })
+      const result = await waitForJob(jobId, job => update(item.id, { job }))
+
+      update(item.id, { status: 'done', historyId: result.historyId })
+      onComplete()
+    } catch (err) {
+      update(item.id, { status: 'failed', error: err instanceof Error ? err.message : '오류가 발생했습니다' })
+    }
+  }
+
+  // 빈 자리만큼 대기 중인 파일 시작
+  useEffect(() => {
+    const active = items.filter(item => item.status === 'uploading' || item.status === 'transcribing').length
+    items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, UPLOAD_CONCURRENCY - active))
+      .forEach(item => { run(item) })
+  }, [items])
+
+  // 실패한 파일은 대기열로 되돌림 (올리던 파일은 이어서 올림)
+  const retry = (id?: number) => {
+    setItems(current => current.map(item =>
+      item.status === 'failed' && (id === undefined || item.id === id) ? { ...item, status: 'queued' } : item
+    ))
+  }
+
+  const clearFinished = () => {
+    setItems(current => current.filter(item => item.status !== 'done'))
+  }
+
+  if (items.length === 0) return null
+
+  const doneCount = items.filter(item => item.status === 'done').length
+  const failedCount = items.filter(item => item.status === 'failed').length
+  const historyIds = items.map(item => item.historyId).filter((id): id is string => Boolean(id))
+  const exportQuery = `ids=${historyIds.map(encodeURIComponent).join(',')}`
+
+  return (
+    <div className="mt-6 bg-surface-900/80 backdrop-blur-sm border border-surface-800 rounded-2xl overflow-hidden animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-surface-800">
+        <h3 className="font-bold">
+          {doneCount}/{items.length} 완료
+          {failedCount > 0 && <span className="text-red-400 font-normal text-sm ml-2">실패 {failedCount}</span>}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {failedCount > 0 && (
+            <button
+              onClick={() => retry()}
+              className="px-3 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors"
+            >
+              실패 항목 다시 시도
+            </button>
+          )}
+          {doneCount > 0 && (
+            <button
+              onClick={clearFinished}
+              className="px-3 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors"
+            >
+              완료 항목 지우기
+            </button>
+          )}
+          <select
+            value={fileFormat}
+            onChange={(e) => setFileFormat(e.target.value as ExportFormat)}
+            className="px-2 py-2 bg-surface-800 rounded-lg text-xs font-mono focus:outline-none"
+          >
+            {EXPORT_FORMATS.map(format => (
+              <option key={format} value={format}>{format.toUpperCase()}</option>
+            ))}
+          </select>
+          <a
+            href={`/api/export/bundle?${exportQuery}&format=zip&file=${fileFormat}`}
+            className={`px-3 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors ${historyIds.length === 0 ? 'pointer-events-none opacity-50' : ''}`}
+          >
+            ZIP 다운로드
+          </a>
+          <a
+            href={`/api/export/bundle?${exportQuery}&format=json`}
+            className={`px-3 py-2 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs font-medium transition-colors ${historyIds.length === 0 ? 'pointer-events-none opacity-50' : ''}`}
+          >
+            JSON 다운로드
+          </a>
+        </div>
+      </div>
+
+      <div className="h-1 bg-surface-800">
+        <div
+          className="h-full bg-accent transition-all duration-500"
+          style={{ width: `${Math.round(((doneCount + failedCount) / items.length) * 100)}%` }}
+        />
+      </div>
+
+      <div className="max-h-[500px] overflow-y-auto p-2">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800/50 transition-colors">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${STATUS_STYLES[item.status].className}`}>
+              {STATUS_STYLES[item.status].label}
+            </span>
+            <div className="min-w-0 flex-1">
+              {item.historyId ? (
+                <button
+                  onClick={() => onOpen(item.historyId!)}
+                  className="text-sm text-left hover:text-accent-light transition-colors line-clamp-1"
+                >
+                  {item.file.name}
+                </button>
+              ) : (
+                <p className="text-sm line-clamp-1 text-surface-200">{item.file.name}</p>
+              )}
+              {item.error && <p className="text-xs text-red-400/80 line-clamp-1">{item.error}</p>}
+            </div>
+            {detailOf(item) && (
+              <span className="text-xs font-mono text-surface-200/60 flex-shrink-0">{detailOf(item)}</span>
+            )}
+            {item.status === 'failed' && (
+              <button
+                onClick={() => retry(item.id)}
+                className="px-2 py-0.5 bg-surface-800 hover:bg-surface-200/20 rounded text-xs transition-colors flex-shrink-0"
+              >
+                다시 시도
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
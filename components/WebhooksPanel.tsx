@@ -0,0 +1,241 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { DeliveryStatus, Webhook, WebhookDelivery } from '@/lib/webhooks'
+
+interface WebhooksPanelProps {
+  open: boolean
+  onClose: () => void
+}
+
+const DELIVERY_STYLES: Record<DeliveryStatus, { label: string; className: string }> = {
+  pending: { label: '재시도 중', className: 'bg-yellow-500/15 text-yellow-400' },
+  succeeded: { label: '성공', className: 'bg-green-500/15 text-green-400' },
+  failed: { label: '실패', className: 'bg-red-500/15 text-red-400' },
+}
+
+const formatDateTime = (iso: string): string => {
+  const date = new Date(iso)
+  return `${date.getMonth() + 1}.${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+// 추출 완료/실패 알림 웹훅 등록·삭제와 전송 기록
+export default function WebhooksPanel({ open, onClose }: WebhooksPanelProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [url, setUrl] = useState('')
+  // 방금 등록한 웹훅의 서명 secret (닫으면 다시 볼 수 없음)
+  const [secret, setSecret] = useState('')
+  const [error, setError] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [testing, setTesting] = useState<string | null>(null)
+
+  const load = () => {
+    fetch('/api/webhooks')
+      .then(response => response.json())
+      .then(data => setWebhooks(data.webhooks || []))
+      .catch(() => setWebhooks([]))
+  }
+
+  const loadDeliveries = (id: string) => {
+    fetch(`/api/webhooks/${id}/deliveries`, { cache: 'no-store' })
+      .then(response => response.json())
+      .then(data => setDeliveries(data.deliveries || []))
+      .catch(() => setDeliveries([]))
+  }
+
+  useEffect(() => {
+    if (open) {
+      load()
+    } else {
+      setSecret('')
+      setSelectedId(null)
+    }
+  }, [open])
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '웹훅을 등록하지 못했습니다')
+      }
+
+      setSecret(data.secret)
+      setUrl('')
+      load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '웹훅을 등록하지 못했습니다')
+    }
+  }
+
+  const remove = async (webhook: Webhook) => {
+    if (!window.confirm(`${webhook.url} 웹훅을 삭제할까요?`)) return
+
+    const response = await fetch(`/api/webhooks/${webhook.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      setError(data.error || '웹훅을 삭제하지 못했습니다')
+      return
+    }
+    if (selectedId === webhook.id) setSelectedId(null)
+    load()
+  }
+
+  const test = async (webhook: Webhook) => {
+    setTesting(webhook.id)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}/test`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '시험 전송에 실패했습니다')
+      }
+
+      setSelectedId(webhook.id)
+      loadDeliveries(webhook.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '시험 전송에 실패했습니다')
+    } finally {
+      setTesting(null)
+    }
+  }
+
+  const toggleDeliveries = (id: string) => {
+    if (selectedId === id) {
+      setSelectedId(null)
+      return
+    }
+    setSelectedId(id)
+    setDeliveries([])
+    loadDeliveries(id)
+  }
+
+  if (!open) return null
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/40 z-40" onClick={onClose} />
+      <aside className="fixed top-0 left-0 h-full w-full max-w-sm bg-surface-900 border-r border-surface-800 z-50 flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-4 border-b border-surface-800">
+          <h3 className="font-bold flex items-center gap-2">
+            <span className="text-xl">🔔</span>
+            웹훅
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-surface-800 transition-colors"
+            aria-label="닫기"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          <p className="text-surface-200/80">
+            대본 추출이 끝나거나 실패하면 등록한 URL로 JSON을 POST합니다.
+            본문은 <code>X-Webhook-Signature</code> 헤더로 서명됩니다.
+          </p>
+
+          <form onSubmit={create} className="flex gap-2">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/transcript"
+              className="flex-1 min-w-0 px-3 py-2 bg-surface-800/60 border border-surface-800 rounded-lg text-white placeholder-surface-200/50 focus:border-accent/50 focus:outline-none font-mono text-xs"
+            />
+            <button
+              type="submit"
+              disabled={!url.trim()}
+              className="px-3 py-2 bg-accent hover:bg-accent-light disabled:bg-surface-800 rounded-lg font-medium transition-colors"
+            >
+              등록
+            </button>
+          </form>
+
+          {error && <p className="text-red-400">{error}</p>}
+
+          {secret && (
+            <div className="p-3 bg-accent/10 border border-accent/30 rounded-lg space-y-2">
+              <p className="text-surface-200">서명 secret은 지금만 볼 수 있습니다. 받는 쪽에서 서명을 확인할 때 쓰세요.</p>
+              <code className="block break-all font-mono text-white">{secret}</code>
+              <button
+                onClick={() => navigator.clipboard.writeText(secret)}
+                className="px-3 py-1 bg-surface-800 hover:bg-surface-200/20 rounded-lg text-xs transition-colors"
+              >
+                복사
+              </button>
+            </div>
+          )}
+
+          {webhooks.length === 0 ? (
+            <p className="text-center text-surface-200/60 py-8">등록한 웹훅이 없습니다</p>
+          ) : (
+            <ul className="space-y-2">
+              {webhooks.map(webhook => (
+                <li key={webhook.id} className="p-3 bg-surface-800/40 rounded-lg space-y-2">
+                  <p className="font-mono text-xs break-all">{webhook.url}</p>
+                  <p className="text-xs text-surface-200/60">{webhook.events.join(', ')}</p>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => test(webhook)}
+                      disabled={testing === webhook.id}
+                      className="px-2 py-1 bg-surface-800 hover:bg-surface-200/20 disabled:opacity-50 rounded text-xs transition-colors"
+                    >
+                      {testing === webhook.id ? '보내는 중…' : '시험 전송'}
+                    </button>
+                    <button
+                      onClick={() => toggleDeliveries(webhook.id)}
+                      className="px-2 py-1 bg-surface-800 hover:bg-surface-200/20 rounded text-xs transition-colors"
+                    >
+                      {selectedId === webhook.id ? '기록 닫기' : '전송 기록'}
+                    </button>
+                    <button
+                      onClick={() => remove(webhook)}
+                      className="px-2 py-1 bg-surface-800 hover:bg-red-500/30 rounded text-xs transition-colors"
+                    >
+                      삭제
+                    </button>
+                  </div>
+
+                  {selectedId === webhook.id && (
+                    deliveries.length === 0 ? (
+                      <p className="text-xs text-surface-200/60">전송 기록이 없습니다</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {deliveries.map(delivery => (
+                          <li key={delivery.id} className="flex items-center gap-2 text-xs">
+                            <span className={`px-1.5 py-0.5 rounded flex-shrink-0 ${DELIVERY_STYLES[delivery.status].className}`}>
+                              {DELIVERY_STYLES[delivery.status].label}
+                            </span>
+                            <span className="font-mono text-surface-200/80 truncate">{delivery.event}</span>
+                            <span className="text-surface-200/60 flex-shrink-0 ml-auto" title={delivery.lastError ?? undefined}>
+                              {delivery.responseStatus ?? '-'} · {delivery.attempts}회 · {formatDateTime(delivery.createdAt)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </>
+  )
+}
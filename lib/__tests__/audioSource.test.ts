@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { AudioCandidate, parseSizeText, rapidApiCandidates, selectAudioFormat } from '../audioSource'
+import videoDetails from './fixtures/rapidapi-video-details.json'
+
+const candidate = (patch: Partial<AudioCandidate>): AudioCandidate => ({
+  url: 'https://example.com/a',
+  mimeType: 'audio/webm',
+  hasVideo: false,
+  sizeBytes: null,
+  bitrate: null,
+  ...patch,
+})
+
+describe('parseSizeText', () => {
+  it('단위가 붙은 크기를 바이트로', () => {
+    expect(parseSizeText('3.52 MB')).toBe(Math.round(3.52 * 1024 ** 2))
+    expect(parseSizeText('1,280 KB')).toBe(1280 * 1024)
+    expect(parseSizeText('2GB')).toBe(2 * 1024 ** 3)
+    expect(parseSizeText(' 512 b ')).toBe(512)
+  })
+
+  it('형식이 다르면 null', () => {
+    expect(parseSizeText('3.52')).toBeNull()
+    expect(parseSizeText('3.52 TB')).toBeNull()
+    expect(parseSizeText('')).toBeNull()
+    expect(parseSizeText(3.52)).toBeNull()
+    expect(parseSizeText(undefined)).toBeNull()
+  })
+})
+
+describe('rapidApiCandidates', () => {
+  it('오디오 전용 항목과 소리가 있는 영상 항목을 후보로', () => {
+    const candidates = rapidApiCandidates(videoDetails)
+
+    expect(candidates).toEqual([
+      { url: 'https://rr1.example.googlevideo.com/audio-251', mimeType: 'audio/webm', hasVideo: false, sizeBytes: 3437753, bitrate: null },
+      { url: 'https://rr1.example.googlevideo.com/audio-140', mimeType: 'audio/mp4', hasVideo: false, sizeBytes: Math.round(3.52 * 1024 ** 2), bitrate: null },
+      { url: 'https://rr1.example.googlevideo.com/audio-249', mimeType: 'audio/webm', hasVideo: false, sizeBytes: 1280 * 1024, bitrate: null },
+      { url: 'https://rr1.example.googlevideo.com/video-18', mimeType: 'video/mp4', hasVideo: true, sizeBytes: 11370000, bitrate: null },
+    ])
+  })
+
+  it('항목이 없으면 빈 목록', () => {
+    expect(rapidApiCandidates({})).toEqual([])
+    expect(rapidApiCandidates({ audios: {}, videos: { items: [] } })).toEqual([])
+  })
+})
+
+describe('selectAudioFormat', () => {
+  it('오디오 전용 중 가장 작은 것', () => {
+    expect(selectAudioFormat(rapidApiCandidates(videoDetails))?.url).toBe('https://rr1.example.googlevideo.com/audio-249')
+  })
+
+  it('선호 형식이 있으면 크기보다 우선', () => {
+    expect(selectAudioFormat(rapidApiCandidates(videoDetails), ['audio/mp4'])?.url).toBe('https://rr1.example.googlevideo.com/audio-140')
+  })
+
+  it('오디오 전용이 없으면 영상 포함 형식', () => {
+    const selected = selectAudioFormat([
+      candidate({ url: 'video', hasVideo: true, sizeBytes: 100 }),
+    ])
+    expect(selected?.url).toBe('video')
+  })
+
+  it('크기를 모르면 비트레이트로 비교하고, 둘 다 없으면 마지막', () => {
+    const selected = selectAudioFormat([
+      candidate({ url: 'unknown' }),
+      candidate({ url: 'high', bitrate: 160 }),
+      candidate({ url: 'low', bitrate: 48 }),
+    ])
+    expect(selected?.url).toBe('low')
+  })
+
+  it('url이 없는 후보는 무시', () => {
+    expect(selectAudioFormat([candidate({ url: '' })])).toBeNull()
+    expect(selectAudioFormat([])).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+import { writeFile } from 'fs/promises'
+import { describe, expect, it, vi } from 'vitest'
+import { planChunks, stitchChunks, transcribeAudio } from '../chunking'
+import type { TranscriptSegment } from '../types'
+
+// ffmpeg 대신: 길이는 고정값, 자른 파일에는 잘린 구간을 JSON으로 기록
+vi.mock('../audio', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../audio')>()
+  return {
+    ...actual,
+    getAudioDuration: vi.fn(async () => 1500),
+    sliceAudio: vi.fn(async (_input: string, output: string, start: number, length: number) => {
+      await writeFile(output, JSON.stringify({ start, length }))
+    }),
+  }
+})
+
+// 전체 타임라인 (초): 청크 경계 600초/1200초 근처에 걸친 문장 포함
+const TIMELINE: TranscriptSegment[] = [
+  { text: '첫 문장', offset: 10, duration: 4 },
+  { text: '경계 직전 문장', offset: 598, duration: 3 },
+  { text: '겹치는 구간 문장', offset: 602, duration: 2 },
+  { text: '두 번째 청크 문장', offset: 900, duration: 5 },
+  { text: '두 번째 경계 문장', offset: 1201, duration: 2.5 },
+  { text: '마지막 문장', offset: 1490, duration: 6 },
+]
+
+// 로컬 스텁 provider: 받은 청크 구간에서 시작하는 문장을 청크 기준 시간으로 반환
+async function stubTranscribe(file: File): Promise<TranscriptSegment[]> {
+  const { start, length } = JSON.parse(await file.text()) as { start: number; length: number }
+  return TIMELINE
+    .filter(segment => segment.offset >= start && segment.offset < start + length)
+    .map(segment => ({ ...segment, offset: segment.offset - start }))
+}
+
+describe('planChunks', () => {
+  it('chunkSeconds 단위로 나누고 끝에 겹치는 구간을 붙임', () => {
+    expect(planChunks(1500, 600, 5)).toEqual([
+      { index: 0, start: 0, end: 605 },
+      { index: 1, start: 600, end: 1205 },
+      { index: 2, start: 1200, end: 1500 },
+    ])
+  })
+
+  it('전체 길이가 청크 하나보다 짧으면 하나', () => {
+    expect(planChunks(42, 600, 5)).toEqual([{ index: 0, start: 0, end: 42 }])
+  })
+})
+
+describe('stitchChunks', () => {
+  it('청크 기준 시간을 원래 타임라인으로 옮김', () => {
+    const stitched = stitchChunks([
+      { start: 600, segments: [{ text: 'b', offset: 30, duration: 1 }] },
+      { start: 0, segments: [{ text: 'a', offset: 30, duration: 1 }] },
+    ], 5)
+
+    expect(stitched).toEqual([
+      { text: 'a', offset: 30, duration: 1 },
+      { text: 'b', offset: 630, duration: 1 },
+    ])
+  })
+
+  it('겹치는 구간은 가운데를 경계로 한쪽 청크만 사용', () => {
+    const stitched = stitchChunks([
+      { start: 0, segments: [{ text: 'x', offset: 601, duration: 1 }, { text: 'y', offset: 603, duration: 1 }] },
+      { start: 600, segments: [{ text: 'x', offset: 1, duration: 1 }, { text: 'y', offset: 3, duration: 1 }] },
+    ], 5)
+
+    expect(stitched.map(s => s.offset)).toEqual([601, 603])
+  })
+
+  it('경계에서 같은 문장이 이어서 나오면 하나만 남김', () => {
+    const stitched = stitchChunks([
+      { start: 0, segments: [{ text: '반갑습니다.', offset: 602, duration: 1 }] },
+      { start: 600, segments: [{ text: '반갑습니다', offset: 2.6, duration: 1 }] },
+    ], 5)
+
+    expect(stitched).toHaveLength(1)
+  })
+})
+
+describe('transcribeAudio', () => {
+  const audio = { data: Buffer.alloc(64), fileName: 'long.mp3', mimeType: 'audio/mpeg' }
+
+  it('제한보다 크면 청크로 나눠 보내고 원래 시간으로 이어붙임', async () => {
+    const progress: string[] = []
+    const segments = await transcribeAudio(audio, stubTranscribe, {
+      maxBytes: 16,
+      onProgress: (current, total) => { progress.push(`${current}/${total}`) },
+    })
+
+    expect(progress).toEqual(['1/3', '2/3', '3/3'])
+    expect(segments).toEqual(TIMELINE)
+  })
+
+  it('제한 이하면 나누지 않고 한 번에', async () => {
+    const transcribe = vi.fn(async () => [{ text: '한 번에', offset: 0, duration: 1 }])
+    const segments = await transcribeAudio(audio, transcribe)
+
+    expect(transcribe).toHaveBeenCalledTimes(1)
+    expect(segments).toEqual([{ text: '한 번에', offset: 0, duration: 1 }])
+  })
+})
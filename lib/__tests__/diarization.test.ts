@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { assignSpeakers, diarizeSegments, getDiarizationProvider } from '../diarization'
+import type { SpeakerTurn } from '../diarization'
+import type { AudioInput } from '../chunking'
+import type { TranscriptSegment } from '../types'
+
+const AUDIO: AudioInput = { data: Buffer.alloc(0), fileName: 'audio.mp3', mimeType: 'audio/mpeg' }
+
+const segment = (offset: number, duration: number): TranscriptSegment => ({ text: `${offset}초`, offset, duration })
+
+describe('assignSpeakers', () => {
+  const turns: SpeakerTurn[] = [
+    { start: 0, end: 10, speaker: 'S1' },
+    { start: 10, end: 20, speaker: 'S2' },
+  ]
+
+  it('세그먼트마다 가장 많이 겹치는 화자', () => {
+    const result = assignSpeakers([segment(2, 3), segment(8, 5), segment(9, 2)], turns)
+    expect(result.map(item => item.speaker)).toEqual(['S1', 'S2', 'S1'])
+  })
+
+  it('겹치는 구간이 없으면 가장 가까운 화자', () => {
+    const gapped: SpeakerTurn[] = [
+      { start: 0, end: 5, speaker: 'S1' },
+      { start: 30, end: 40, speaker: 'S2' },
+    ]
+    const result = assignSpeakers([segment(7, 2), segment(26, 2)], gapped)
+    expect(result.map(item => item.speaker)).toEqual(['S1', 'S2'])
+  })
+
+  it('길이가 0인 세그먼트도 화자를 붙임', () => {
+    expect(assignSpeakers([segment(15, 0)], turns)[0].speaker).toBe('S2')
+  })
+
+  it('화자 구간이 없으면 그대로', () => {
+    const segments = [segment(0, 2)]
+    expect(assignSpeakers(segments, [])).toBe(segments)
+  })
+
+  it('텍스트와 시간은 바꾸지 않음', () => {
+    expect(assignSpeakers([segment(2, 3)], turns)[0]).toEqual({ text: '2초', offset: 2, duration: 3, speaker: 'S1' })
+  })
+})
+
+describe('pause provider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('DIARIZATION_PROVIDER=pause일 때만 사용', () => {
+    vi.stubEnv('DIARIZATION_PROVIDER', 'pause')
+    expect(getDiarizationProvider()?.name).toBe('pause')
+  })
+
+  it('침묵이 1.5초 이상이면 화자를 바꿈', async () => {
+    vi.stubEnv('DIARIZATION_PROVIDER', 'pause')
+    const turns = await getDiarizationProvider()!.diarize(AUDIO, [
+      segment(0, 2),
+      segment(2.5, 2),
+      segment(6, 1),
+      segment(7.2, 1),
+      segment(10, 2),
+    ])
+
+    expect(turns).toEqual([
+      { start: 0, end: 2, speaker: 'S1' },
+      { start: 2.5, end: 4.5, speaker: 'S1' },
+      { start: 6, end: 7, speaker: 'S2' },
+      { start: 7.2, end: 8.2, speaker: 'S2' },
+      { start: 10, end: 12, speaker: 'S1' },
+    ])
+  })
+
+  it('세그먼트에 화자를 붙여서 돌려줌', async () => {
+    vi.stubEnv('DIARIZATION_PROVIDER', 'pause')
+    const result = await diarizeSegments(AUDIO, [segment(0, 2), segment(5, 2)])
+    expect(result.map(item => item.speaker)).toEqual(['S1', 'S2'])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { decodeHtmlEntities, fromCaptions, fromWhisper, youtubeTimeUrl } from '../transcript'
+import captionsSrv3 from './fixtures/captions-srv3.json'
+import captionsLegacy from './fixtures/captions-legacy.json'
+import whisperVerbose from './fixtures/whisper-verbose.json'
+
+describe('fromCaptions', () => {
+  it('srv3 자막(밀리초)을 초로 바꿈', () => {
+    const segments = fromCaptions(captionsSrv3)
+
+    expect(segments[0]).toEqual({ text: '안녕하세요 여러분', offset: 1.28, duration: 2.4 })
+    expect(segments[1]).toEqual({ text: "오늘은 '대본 추출'을 해볼게요", offset: 3.68, duration: 3.12 })
+    expect(segments[2].text).toBe('Tom & Jerry <3')
+  })
+
+  it('공백뿐인 줄은 버림', () => {
+    const segments = fromCaptions(captionsSrv3)
+
+    expect(segments).toHaveLength(4)
+    expect(segments.map(s => s.text)).not.toContain('')
+    expect(segments[3]).toEqual({ text: '[음악]', offset: 9.26, duration: 72 })
+  })
+
+  it('예전 포맷(초)은 그대로 두고 공백을 정리', () => {
+    const segments = fromCaptions(captionsLegacy)
+
+    expect(segments).toEqual([
+      { text: 'Hello and welcome', offset: 0.5, duration: 2.34 },
+      { text: "it's a great day", offset: 2.84, duration: 3.1 },
+      { text: "let's begin", offset: 5.94, duration: 1.75 },
+    ])
+  })
+
+  it('duration이 없으면 offset 크기로 단위를 판단', () => {
+    const ms = fromCaptions([
+      { text: 'a', offset: 0, duration: 0 },
+      { text: 'b', offset: 15_000, duration: 0 },
+    ])
+    const seconds = fromCaptions([
+      { text: 'a', offset: 0, duration: 0 },
+      { text: 'b', offset: 15, duration: 0 },
+    ])
+
+    expect(ms[1].offset).toBe(15)
+    expect(seconds[1].offset).toBe(15)
+  })
+})
+
+describe('fromWhisper', () => {
+  it('verbose_json 세그먼트를 초 단위 세그먼트로', () => {
+    expect(fromWhisper(whisperVerbose)).toEqual([
+      { text: '안녕하세요.', offset: 0, duration: 2.2 },
+      { text: '오늘은 대본 추출을 해볼게요.', offset: 2.2, duration: expect.closeTo(4.7, 5) },
+      { text: '감사합니다.', offset: 10.04, duration: expect.closeTo(2.44, 5) },
+    ])
+  })
+
+  it('세그먼트가 없으면 전체 텍스트를 하나로', () => {
+    expect(fromWhisper({ text: ' 짧은 음성 ', segments: [] })).toEqual([
+      { text: '짧은 음성', offset: 0, duration: 0 },
+    ])
+    expect(fromWhisper({})).toEqual([])
+  })
+
+  it('end가 start보다 앞서도 duration은 음수가 되지 않음', () => {
+    expect(fromWhisper({ segments: [{ text: 'x', start: 3, end: 2 }] })[0].duration).toBe(0)
+  })
+})
+
+describe('decodeHtmlEntities', () => {
+  it('이중 인코딩된 엔티티까지 디코딩', () => {
+    expect(decodeHtmlEntities('it&amp;#39;s')).toBe("it's")
+    expect(decodeHtmlEntities('&amp;quot;인용&amp;quot;')).toBe('"인용"')
+  })
+
+  it('숫자/16진수/이름 엔티티', () => {
+    expect(decodeHtmlEntities('&#39;&#x27;&apos;&lt;&gt;&nbsp;')).toBe("'''<> ")
+    expect(decodeHtmlEntities('&#x1F600;')).toBe('😀')
+  })
+
+  it('모르는 엔티티와 범위를 벗어난 코드는 그대로', () => {
+    expect(decodeHtmlEntities('&unknown; &#99999999;')).toBe('&unknown; &#99999999;')
+    expect(decodeHtmlEntities('AT&T')).toBe('AT&T')
+  })
+})
+
+describe('youtubeTimeUrl', () => {
+  it('초를 내림해서 t 파라미터로', () => {
+    expect(youtubeTimeUrl('dQw4w9WgXcQ', 83.9)).toBe('https://youtube.com/watch?v=dQw4w9WgXcQ&t=83s')
+  })
+
+  it('음수는 0초', () => {
+    expect(youtubeTimeUrl('dQw4w9WgXcQ', -5)).toBe('https://youtube.com/watch?v=dQw4w9WgXcQ&t=0s')
+  })
+})
@@ -0,0 +1,200 @@
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { getSupabase } from './supabase'
+import { memoryCollection } from './memory'
+
+// 발급하는 키 모양: ytx_<32자 hex>
+const KEY_PREFIX = 'ytx_'
+
+// 로그인 없이 쓰는 배포용 고정 키 (쉼표 구분, 모든 기록에 접근)
+const STATIC_API_KEYS = (process.env.API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean)
+
+// 목록에 보여주는 키 정보 (원문은 만들 때 한 번만 반환하고 해시만 저장)
+export interface ApiKey {
+  id: string
+  name: string
+  // 키 앞부분 (어떤 키인지 구분용)
+  prefix: string
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+// 키로 확인한 호출자 (userId가 null이면 API_KEYS의 고정 키)
+export interface ApiKeyIdentity {
+  keyId: string
+  userId: string | null
+}
+
+interface ApiKeyRow {
+  id: string
+  user_id: string
+  name: string
+  prefix: string
+  key_hash: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+interface ApiKeyStore {
+  insert(row: Omit<ApiKeyRow, 'id' | 'created_at' | 'last_used_at' | 'revoked_at'>): Promise<ApiKeyRow>
+  list(userId: string): Promise<ApiKeyRow[]>
+  findByHash(hash: string): Promise<ApiKeyRow | null>
+  revoke(userId: string, id: string): Promise<boolean>
+  touch(id: string): Promise<void>
+}
+
+function hashKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  }
+}
+
+function createMemoryStore(): ApiKeyStore {
+  const keys = memoryCollection<ApiKeyRow>('api_keys')
+
+  return {
+    async insert(input) {
+      const row: ApiKeyRow = { ...input, id: randomUUID(), created_at: new Date().toISOString(), last_used_at: null, revoked_at: null }
+      keys.set(row.id, row)
+      return row
+    },
+    async list(userId) {
+      return Array.from(keys.values())
+        .filter(row => row.user_id === userId && !row.revoked_at)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    },
+    async findByHash(hash) {
+      return Array.from(keys.values()).find(row => row.key_hash === hash && !row.revoked_at) ?? null
+    },
+    async revoke(userId, id) {
+      const row = keys.get(id)
+      if (!row || row.user_id !== userId || row.revoked_at) return false
+      keys.set(id, { ...row, revoked_at: new Date().toISOString() })
+      return true
+    },
+    async touch(id) {
+      const row = keys.get(id)
+      if (row) keys.set(id, { ...row, last_used_at: new Date().toISOString() })
+    },
+  }
+}
+
+function createSupabaseStore(): ApiKeyStore {
+  const table = () => getSupabase()!.from('api_keys')
+
+  return {
+    async insert(input) {
+      const { data, error } = await table()
+        .insert(input)
+        .select('*')
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      return data as ApiKeyRow
+    },
+    async list(userId) {
+      const { data, error } = await table()
+        .select('*')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as ApiKeyRow[]
+    },
+    async findByHash(hash) {
+      const { data, error } = await table()
+        .select('*')
+        .eq('key_hash', hash)
+        .is('revoked_at', null)
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+
+      return data as ApiKeyRow | null
+    },
+    async revoke(userId, id) {
+      const { data, error } = await table()
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .select('id')
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []).length > 0
+    },
+    async touch(id) {
+      const { error } = await table()
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+    },
+  }
+}
+
+function getApiKeyStore(): ApiKeyStore {
+  return getSupabase() ? createSupabaseStore() : createMemoryStore()
+}
+
+// 새 키 발급 (secret은 이때만 볼 수 있음)
+export async function createApiKey(userId: string, name: string): Promise<{ key: ApiKey; secret: string }> {
+  const secret = `${KEY_PREFIX}${randomBytes(16).toString('hex')}`
+  const row = await getApiKeyStore().insert({
+    user_id: userId,
+    name,
+    prefix: secret.slice(0, KEY_PREFIX.length + 6),
+    key_hash: hashKey(secret),
+  })
+  return { key: toApiKey(row), secret }
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  return (await getApiKeyStore().list(userId)).map(toApiKey)
+}
+
+// 폐기 (본인 키가 아니거나 없으면 false)
+export async function revokeApiKey(userId: string, id: string): Promise<boolean> {
+  return getApiKeyStore().revoke(userId, id)
+}
+
+// 키 확인 (틀리거나 폐기된 키면 null)
+export async function verifyApiKey(secret: string): Promise<ApiKeyIdentity | null> {
+  const hash = hashKey(secret)
+
+  const staticIndex = STATIC_API_KEYS.findIndex(key => hashKey(key) === hash)
+  if (staticIndex >= 0) {
+    return { keyId: `env:${staticIndex}`, userId: null }
+  }
+
+  if (!secret.startsWith(KEY_PREFIX)) return null
+
+  const store = getApiKeyStore()
+  const row = await store.findByHash(hash)
+  if (!row) return null
+
+  store.touch(row.id).catch(error => console.error('API key touch error:', error))
+  return { keyId: row.id, userId: row.user_id }
+}
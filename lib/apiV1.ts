@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiKey } from './apiKeys'
+import { AuthError, Owner } from './auth'
+import { WORKSPACE_HEADER } from './authConfig'
+import type { Job } from './jobs'
+import { PipelineError } from './pipeline'
+import { RateLimitError } from './rateLimit'
+import type { UsageSubject } from './usage'
+import { workspaceRole } from './workspaces'
+import type { HistoryDetail, HistoryItem, TranscriptResult, TranscriptSegment } from './types'
+
+// /api/v1 응답 형식:
+//   성공 { data } (목록은 { data, pagination: { limit, nextCursor } })
+//   실패 { error: { code, message } } — code는 바뀌지 않는 값, message는 사람이 읽는 한국어
+
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'job_failed'
+  | 'internal_error'
+
+export const API_ERROR_CODES: ApiErrorCode[] = [
+  'bad_request', 'unauthorized', 'forbidden', 'not_found', 'rate_limited', 'job_failed', 'internal_error',
+]
+
+export class ApiError extends Error {
+  constructor(public code: ApiErrorCode, message: string, public status: number) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+const DEFAULT_PAGE_LIMIT = 20
+const MAX_PAGE_LIMIT = 100
+
+export interface ApiContext {
+  owner: Owner | null
+  subject: UsageSubject
+}
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 400) return 'bad_request'
+  if (status === 401) return 'unauthorized'
+  if (status === 403) return 'forbidden'
+  if (status === 404) return 'not_found'
+  if (status === 429) return 'rate_limited'
+  return 'internal_error'
+}
+
+export function errorResponse(error: unknown): NextResponse {
+  const body = (code: ApiErrorCode, message: string) => ({ error: { code, message } })
+
+  if (error instanceof ApiError) {
+    return NextResponse.json(body(error.code, error.message), { status: error.status })
+  }
+
+  if (error instanceof RateLimitError) {
+    return NextResponse.json(body('rate_limited', error.message), {
+      status: 429,
+      headers: { 'Retry-After': String(error.retryAfter) },
+    })
+  }
+
+  if (error instanceof PipelineError || error instanceof AuthError) {
+    return NextResponse.json(body(codeForStatus(error.status), error.message), { status: error.status })
+  }
+
+  console.error('API v1 error:', error)
+  return NextResponse.json(body('internal_error', '서버 오류가 발생했습니다'), { status: 500 })
+}
+
+// X-API-Key 또는 Authorization: Bearer <키>
+function apiKeyFrom(request: NextRequest): string | null {
+  const header = request.headers.get('x-api-key')
+  if (header) return header.trim()
+
+  const authorization = request.headers.get('authorization')
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null
+  }
+  return null
+}
+
+// API 키 확인. 사용자 키는 본인 기록(X-Workspace-Id가 있으면 그 워크스페이스),
+// API_KEYS의 고정 키는 로그인이 꺼져 있을 때처럼 모든 기록에 접근
+export async function authenticate(request: NextRequest): Promise<ApiContext> {
+  const secret = apiKeyFrom(request)
+  if (!secret) {
+    throw new ApiError('unauthorized', 'API 키가 필요합니다 (X-API-Key 헤더)', 401)
+  }
+
+  const identity = await verifyApiKey(secret)
+  if (!identity) {
+    throw new ApiError('unauthorized', 'API 키가 올바르지 않습니다', 401)
+  }
+
+  if (!identity.userId) {
+    return { owner: null, subject: { key: `key:${identity.keyId}`, userId: null } }
+  }
+
+  const workspaceId = request.headers.get(WORKSPACE_HEADER)
+  if (workspaceId && !await workspaceRole(workspaceId, identity.userId)) {
+    throw new ApiError('forbidden', '워크스페이스에 접근할 수 없습니다', 403)
+  }
+
+  return {
+    owner: { userId: identity.userId, workspaceId: workspaceId || null },
+    subject: { key: `user:${identity.userId}`, userId: identity.userId },
+  }
+}
+
+type RouteParams = Record<string, string>
+
+// 인증과 오류 응답을 공통으로 처리하는 v1 라우트
+export function v1Route<P extends RouteParams = RouteParams>(
+  handler: (request: NextRequest, context: ApiContext, params: P) => Promise<Response>
+) {
+  return async (request: NextRequest, { params }: { params: P }) => {
+    try {
+      return await handler(request, await authenticate(request), params)
+    } catch (error) {
+      return errorResponse(error)
+    }
+  }
+}
+
+export async function readJson(request: NextRequest): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json()
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body
+  } catch {
+    // 아래에서 같은 오류로 처리
+  }
+  throw new ApiError('bad_request', '요청 본문은 JSON 객체여야 합니다', 400)
+}
+
+export interface PageParams {
+  limit: number
+  cursor: string | null
+}
+
+export function pageParams(request: NextRequest): PageParams {
+  const limitParam = request.nextUrl.searchParams.get('limit')
+  const limit = limitParam === null ? DEFAULT_PAGE_LIMIT : Number(limitParam)
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new ApiError('bad_request', `limit은 1~${MAX_PAGE_LIMIT} 사이의 정수여야 합니다`, 400)
+  }
+
+  return { limit, cursor: request.nextUrl.searchParams.get('cursor') }
+}
+
+// 공개 API의 세그먼트 (start/duration은 초)
+export interface ApiSegment {
+  start: number
+  duration: number
+  text: string
+  speaker?: string
+}
+
+function toApiSegments(segments: TranscriptSegment[]): ApiSegment[] {
+  return segments.map(segment => ({
+    start: segment.offset,
+    duration: segment.duration,
+    text: segment.text,
+    ...(segment.speaker ? { speaker: segment.speaker } : {}),
+  }))
+}
+
+export function toTranscriptResource(result: TranscriptResult) {
+  return {
+    id: result.historyId,
+    videoId: result.videoInfo?.videoId ?? null,
+    title: result.videoInfo?.title ?? result.fileName ?? null,
+    channelName: result.videoInfo?.channelName ?? null,
+    source: result.source,
+    language: result.language,
+    cached: Boolean(result.cached),
+    duration: result.duration ?? null,
+    text: result.fullText,
+    segments: toApiSegments(result.transcript),
+    captionTracks: result.captionTracks ?? [],
+  }
+}
+
+export function toHistoryResource(item: HistoryItem) {
+  return {
+    id: item.id,
+    videoId: item.videoId,
+    title: item.title,
+    thumbnail: item.thumbnail,
+    source: item.source,
+    createdAt: item.createdAt,
+  }
+}
+
+export function toHistoryDetailResource(item: HistoryDetail) {
+  return {
+    ...toHistoryResource(item),
+    channelName: item.channelName,
+    language: item.language,
+    text: item.fullText,
+    segments: toApiSegments(item.transcript),
+    speakers: item.speakers,
+    translations: Object.keys(item.translations),
+    summary: item.summary,
+    editedAt: item.editedAt,
+  }
+}
+
+export function toJobResource(job: Job) {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    result: job.result ? toTranscriptResource(job.result) : null,
+    error: job.error ? { code: 'job_failed' as ApiErrorCode, message: job.error } : null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  }
+}
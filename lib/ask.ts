@@ -0,0 +1,186 @@
+import { memoryCollection } from './memory'
+import { openai } from './openai'
+import { formatTime } from './transcript'
+import type { TranscriptSegment } from './types'
+
+const ASK_MODEL = process.env.OPENAI_ASK_MODEL || 'gpt-4o-mini'
+const EMBEDDING_MODEL = 'text-embedding-3-small'
+
+// 검색 단위 (연속된 세그먼트를 이 길이까지 묶음)
+const PASSAGE_SECONDS = 30
+const PASSAGE_CHARS = 800
+
+// 답변에 넘기는 구간 수 / 한 번에 임베딩하는 구간 수
+const TOP_K = 8
+const EMBEDDING_BATCH = 100
+
+// 이어서 묻는 질문에 함께 보내는 이전 대화 수
+const MAX_HISTORY = 6
+
+// 임베딩을 메모리에 들고 있는 대본 수 (넘으면 가장 오래 안 쓴 것부터 버림)
+const EMBEDDING_CACHE_SIZE = Math.max(1, Number(process.env.EMBEDDING_CACHE_SIZE) || 50)
+
+// 답변 근거가 된 대본 구간
+export interface AskSource {
+  index: number
+  offset: number
+  text: string
+}
+
+export interface AskMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface AskResult {
+  answer: string
+  sources: AskSource[]
+}
+
+interface Passage {
+  offset: number
+  text: string
+}
+
+interface EmbeddingCache {
+  // 대본을 수정하면 달라지는 값 (다르면 새로 만듦)
+  version: string
+  passages: Passage[]
+  vectors: number[][]
+}
+
+// 임베딩을 재사용할 대본 (저장된 기록)
+export interface EmbeddingCacheKey {
+  id: string
+  version: string
+}
+
+// 기록 id → 구간 임베딩 (프로세스 안에서만 재사용, 기록마다 최신 버전 하나만)
+// Map은 넣은 순서를 유지하므로 쓸 때마다 뒤로 옮겨서 앞쪽이 가장 오래 안 쓴 항목
+const embeddingCache = memoryCollection<EmbeddingCache>('transcript_embeddings')
+
+function buildPassages(segments: TranscriptSegment[]): Passage[] {
+  const passages: Passage[] = []
+  let current: Passage | null = null
+
+  for (const segment of segments) {
+    if (
+      current
+      && segment.offset - current.offset < PASSAGE_SECONDS
+      && current.text.length + segment.text.length < PASSAGE_CHARS
+    ) {
+      current.text += ` ${segment.text}`
+      continue
+    }
+    current = { offset: segment.offset, text: segment.text }
+    passages.push(current)
+  }
+
+  return passages
+}
+
+async function embed(texts: string[]): Promise<number[][]> {
+  if (!openai) {
+    throw new Error('OpenAI API 키가 설정되지 않았습니다')
+  }
+
+  const vectors: number[][] = []
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+    const response = await openai.embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: texts.slice(i, i + EMBEDDING_BATCH),
+    })
+    vectors.push(...response.data.map(item => item.embedding))
+  }
+  return vectors
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB) || 1)
+}
+
+async function loadEmbeddings(segments: TranscriptSegment[], cacheKey?: EmbeddingCacheKey | null): Promise<EmbeddingCache> {
+  const cached = cacheKey ? embeddingCache.get(cacheKey.id) : undefined
+  if (cacheKey && cached?.version === cacheKey.version) {
+    embeddingCache.delete(cacheKey.id)
+    embeddingCache.set(cacheKey.id, cached)
+    return cached
+  }
+
+  const passages = buildPassages(segments)
+  const entry = { version: cacheKey?.version ?? '', passages, vectors: await embed(passages.map(passage => passage.text)) }
+
+  if (cacheKey) {
+    embeddingCache.delete(cacheKey.id)
+    embeddingCache.set(cacheKey.id, entry)
+    while (embeddingCache.size > EMBEDDING_CACHE_SIZE) {
+      embeddingCache.delete(embeddingCache.keys().next().value!)
+    }
+  }
+  return entry
+}
+
+// 질문과 가까운 구간을 시간 순으로 반환
+async function retrieve(segments: TranscriptSegment[], question: string, cacheKey?: EmbeddingCacheKey | null): Promise<Passage[]> {
+  const passages = buildPassages(segments)
+  if (passages.length <= TOP_K) return passages
+
+  const { passages: indexed, vectors } = await loadEmbeddings(segments, cacheKey)
+  const [questionVector] = await embed([question])
+
+  return indexed
+    .map((passage, i) => ({ passage, score: cosine(vectors[i], questionVector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, TOP_K)
+    .map(item => item.passage)
+    .sort((a, b) => a.offset - b.offset)
+}
+
+// 대본에서 관련 구간을 찾아 [번호]로 출처를 달아 답변
+export async function askTranscript(
+  segments: TranscriptSegment[],
+  question: string,
+  history: AskMessage[] = [],
+  cacheKey?: EmbeddingCacheKey | null
+): Promise<AskResult> {
+  if (!openai) {
+    throw new Error('OpenAI API 키가 설정되지 않았습니다')
+  }
+
+  const passages = await retrieve(segments, question, cacheKey)
+  const sources = passages.map((passage, i) => ({ index: i + 1, offset: passage.offset, text: passage.text }))
+  const context = sources.map(source => `[${source.index}] (${formatTime(source.offset)}) ${source.text}`).join('\n')
+
+  const completion = await openai.chat.completions.create({
+    model: ASK_MODEL,
+    temperature: 0.2,
+    messages: [
+      {
+        role: 'system',
+        content: [
+          'You answer questions about a video using only the transcript excerpts below.',
+          'Cite the excerpts you rely on with their bracketed numbers, e.g. [2] or [1][3].',
+          'If the excerpts do not contain the answer, say so. Answer in the language of the question.',
+          '',
+          context,
+        ].join('\n'),
+      },
+      ...history.slice(-MAX_HISTORY).map(message => ({ role: message.role, content: message.content })),
+      { role: 'user', content: question },
+    ],
+  })
+
+  const answer = completion.choices[0]?.message?.content?.trim() || ''
+
+  // 답변에서 실제로 인용한 구간만 돌려줌
+  const cited = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => Number(match[1])))
+  return { answer, sources: sources.filter(source => cited.has(source.index)) }
+}
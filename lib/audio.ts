@@ -0,0 +1,98 @@
+import { spawn } from 'child_process'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+
+// ffmpeg 실행 파일 경로 (PATH에 없으면 FFMPEG_PATH로 지정)
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg'
+
+// ffmpeg가 없을 때 (긴 오디오 분할, 영상/기타 형식 변환 불가)
+export class FfmpegMissingError extends Error {
+  constructor() {
+    super('서버에 ffmpeg가 설치되어 있지 않아 긴 오디오나 영상 파일을 처리할 수 없습니다')
+    this.name = 'FfmpegMissingError'
+  }
+}
+
+// Whisper API 파일 크기 제한
+export const WHISPER_MAX_BYTES = 25 * 1024 * 1024
+
+// ffmpeg 실행 후 stderr(로그)를 반환
+function runFfmpeg(args: string[], allowFailure = false): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ['-hide_banner', ...args])
+    let stderr = ''
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString()
+    })
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new FfmpegMissingError())
+      } else {
+        reject(error)
+      }
+    })
+
+    child.on('close', code => {
+      if (code === 0 || allowFailure) {
+        resolve(stderr)
+      } else {
+        console.error('ffmpeg error:', stderr.slice(-2000))
+        reject(new Error('오디오 변환에 실패했습니다'))
+      }
+    })
+  })
+}
+
+// 오디오 길이 (초)
+export async function getAudioDuration(filePath: string): Promise<number> {
+  // 출력 파일 없이 실행하면 실패 코드로 끝나지만 로그에 Duration이 찍힘
+  const log = await runFfmpeg(['-i', filePath], true)
+  const match = log.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/)
+
+  if (!match) {
+    throw new Error('오디오 길이를 알 수 없습니다')
+  }
+
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])
+}
+
+// start부터 length초만큼 잘라 Whisper에 적합한 mono 16kHz MP3로 저장
+export async function sliceAudio(input: string, output: string, start: number, length: number): Promise<void> {
+  await runFfmpeg([
+    '-y',
+    '-ss', start.toFixed(3),
+    '-t', length.toFixed(3),
+    '-i', input,
+    '-vn',
+    '-ac', '1',
+    '-ar', '16000',
+    '-b:a', '48k',
+    output,
+  ])
+}
+
+// 영상/오디오 파일에서 오디오만 뽑아 mono 16kHz MP3로 변환 (1시간에 약 21MB)
+export async function extractAudio(input: string, output: string): Promise<void> {
+  await runFfmpeg([
+    '-y',
+    '-i', input,
+    '-vn',
+    '-ac', '1',
+    '-ar', '16000',
+    '-b:a', '48k',
+    output,
+  ])
+}
+
+// 임시 폴더를 만들고 작업이 끝나면 삭제
+export async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'transcript-'))
+  try {
+    return await fn(dir)
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+}
@@ -0,0 +1,249 @@
+import ytdl from '@distube/ytdl-core'
+
+// RapidAPI 설정 - YouTube Media Downloader
+const RAPIDAPI_KEY = process.env.RAPIDAPI_KEY
+const RAPIDAPI_HOST = 'youtube-media-downloader.p.rapidapi.com'
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+
+// {videoId}를 영상 ID로 바꿔서 GET, 응답은 { url, mimeType?, headers? }
+const AUDIO_RESOLVER_URL = process.env.AUDIO_RESOLVER_URL
+const AUDIO_RESOLVER_TOKEN = process.env.AUDIO_RESOLVER_TOKEN
+
+// 시도 순서 (예: AUDIO_RESOLVERS=rapidapi,ytdl)
+const DEFAULT_ORDER = ['ytdl', 'rapidapi', 'custom']
+
+// 다운로드할 수 있는 오디오 위치
+export interface AudioSource {
+  url: string
+  mimeType: string
+  headers?: Record<string, string>
+  resolver: string
+}
+
+// 포맷 고르기에 쓰는 공통 형태
+export interface AudioCandidate {
+  url: string
+  mimeType: string
+  hasVideo: boolean
+  sizeBytes: number | null
+  bitrate: number | null
+}
+
+export interface ResolveOptions {
+  // 이 형식이 있으면 우선 선택 (예: 업로드할 수 있는 audio/mp4)
+  preferredTypes?: string[]
+}
+
+export interface AudioSourceResolver {
+  name: string
+  isConfigured(): boolean
+  resolve(videoId: string, options?: ResolveOptions): Promise<AudioSource>
+}
+
+export interface ResolverFailure {
+  resolver: string
+  message: string
+}
+
+// 모든 resolver가 실패했을 때 (각 resolver의 실패 이유 포함)
+export class AudioResolveError extends Error {
+  constructor(public failures: ResolverFailure[]) {
+    super(failures.length
+      ? `오디오를 가져올 수 없습니다 (${failures.map(f => `${f.resolver}: ${f.message}`).join(' / ')})`
+      : '오디오를 가져올 수 있는 방법이 설정되지 않았습니다')
+    this.name = 'AudioResolveError'
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+}
+
+// "3.52 MB" → 바이트 (단위가 없거나 모르면 null)
+export function parseSizeText(text: unknown): number | null {
+  if (typeof text !== 'string') return null
+  const match = text.trim().match(/^([\d.,]+)\s*([KMG]?B)$/i)
+  if (!match) return null
+  const value = parseFloat(match[1].replace(/,/g, ''))
+  const unit = SIZE_UNITS[match[2].toUpperCase()]
+  return Number.isFinite(value) && unit ? Math.round(value * unit) : null
+}
+
+// 음성 인식용이라 음질보다 크기가 중요:
+// 선호 형식 > 오디오 전용 > 영상 포함, 그 안에서 크기(없으면 비트레이트)가 작은 순
+export function selectAudioFormat(candidates: AudioCandidate[], preferredTypes: string[] = []): AudioCandidate | null {
+  const usable = candidates.filter(candidate => candidate.url)
+  if (usable.length === 0) return null
+
+  const preferred = (candidate: AudioCandidate) => preferredTypes.includes(candidate.mimeType)
+  const weight = (candidate: AudioCandidate) => candidate.sizeBytes ?? (candidate.bitrate ? candidate.bitrate * 1000 : Infinity)
+
+  return [...usable].sort((a, b) => {
+    if (preferred(a) !== preferred(b)) return preferred(a) ? -1 : 1
+    if (a.hasVideo !== b.hasVideo) return a.hasVideo ? 1 : -1
+    return weight(a) - weight(b)
+  })[0]
+}
+
+function toSource(candidate: AudioCandidate, resolver: string): AudioSource {
+  return { url: candidate.url, mimeType: candidate.mimeType, resolver }
+}
+
+const ytdlResolver: AudioSourceResolver = {
+  name: 'ytdl',
+  isConfigured: () => true,
+  async resolve(videoId, options = {}) {
+    const info = await ytdl.getInfo(videoId)
+
+    const candidates = info.formats
+      .filter(format => format.hasAudio)
+      .map(format => ({
+        url: format.url,
+        mimeType: (format.mimeType || 'audio/mp4').split(';')[0],
+        hasVideo: format.hasVideo,
+        sizeBytes: Number(format.contentLength) || null,
+        bitrate: format.audioBitrate ?? null,
+      }))
+
+    const selected = selectAudioFormat(candidates, options.preferredTypes)
+    if (!selected) {
+      throw new Error('오디오 포맷이 없습니다')
+    }
+
+    return { ...toSource(selected, 'ytdl'), headers: { 'User-Agent': USER_AGENT } }
+  },
+}
+
+interface RapidApiMediaItem {
+  url?: string
+  mimeType?: string
+  extension?: string
+  size?: number
+  sizeText?: string
+  hasAudio?: boolean
+}
+
+// RapidAPI "YouTube Media Downloader" /v2/video/details 응답을 후보 목록으로
+export function rapidApiCandidates(data: { audios?: { items?: RapidApiMediaItem[] }; videos?: { items?: RapidApiMediaItem[] } }): AudioCandidate[] {
+  const toCandidate = (item: RapidApiMediaItem, hasVideo: boolean): AudioCandidate => ({
+    url: item.url || '',
+    mimeType: (item.mimeType || (item.extension === 'webm' ? 'audio/webm' : 'audio/mp4')).split(';')[0],
+    hasVideo,
+    sizeBytes: typeof item.size === 'number' && item.size > 0 ? item.size : parseSizeText(item.sizeText),
+    bitrate: null,
+  })
+
+  return [
+    ...(data.audios?.items || []).map(item => toCandidate(item, false)),
+    ...(data.videos?.items || []).filter(item => item.hasAudio).map(item => toCandidate(item, true)),
+  ]
+}
+
+const rapidApiResolver: AudioSourceResolver = {
+  name: 'rapidapi',
+  isConfigured: () => Boolean(RAPIDAPI_KEY),
+  async resolve(videoId, options = {}) {
+    const response = await fetch(
+      `https://${RAPIDAPI_HOST}/v2/video/details?videoId=${videoId}`,
+      {
+        method: 'GET',
+        headers: {
+          'X-RapidAPI-Key': RAPIDAPI_KEY!,
+          'X-RapidAPI-Host': RAPIDAPI_HOST,
+        },
+      }
+    )
+
+    if (!response.ok) {
+      throw new Error(`영상 정보를 가져올 수 없습니다 (${response.status})`)
+    }
+
+    const selected = selectAudioFormat(rapidApiCandidates(await response.json()), options.preferredTypes)
+    if (!selected) {
+      throw new Error('오디오를 찾을 수 없습니다')
+    }
+
+    return { ...toSource(selected, 'rapidapi'), headers: { 'User-Agent': USER_AGENT } }
+  },
+}
+
+const customResolver: AudioSourceResolver = {
+  name: 'custom',
+  isConfigured: () => Boolean(AUDIO_RESOLVER_URL),
+  async resolve(videoId) {
+    const response = await fetch(AUDIO_RESOLVER_URL!.replace('{videoId}', encodeURIComponent(videoId)), {
+      headers: AUDIO_RESOLVER_TOKEN ? { Authorization: `Bearer ${AUDIO_RESOLVER_TOKEN}` } : {},
+    })
+
+    if (!response.ok) {
+      throw new Error(`응답 오류 (${response.status})`)
+    }
+
+    const data = await response.json() as { url?: string; mimeType?: string; headers?: Record<string, string> }
+    if (!data.url) {
+      throw new Error('응답에 url이 없습니다')
+    }
+
+    return { url: data.url, mimeType: data.mimeType || 'audio/mp4', headers: data.headers, resolver: 'custom' }
+  },
+}
+
+const RESOLVERS: Record<string, AudioSourceResolver> = {
+  ytdl: ytdlResolver,
+  rapidapi: rapidApiResolver,
+  custom: customResolver,
+}
+
+export function getAudioResolvers(): AudioSourceResolver[] {
+  const order = process.env.AUDIO_RESOLVERS
+    ? process.env.AUDIO_RESOLVERS.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_ORDER
+
+  return order
+    .map(name => RESOLVERS[name])
+    .filter((resolver): resolver is AudioSourceResolver => Boolean(resolver) && resolver.isConfigured())
+}
+
+// 순서대로 시도해서 처음 성공한 오디오 위치를 반환
+export async function resolveAudioSource(videoId: string, options: ResolveOptions = {}): Promise<AudioSource> {
+  const failures: ResolverFailure[] = []
+
+  for (const resolver of getAudioResolvers()) {
+    try {
+      return await resolver.resolve(videoId, options)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Audio resolver ${resolver.name} failed:`, message)
+      failures.push({ resolver: resolver.name, message })
+    }
+  }
+
+  throw new AudioResolveError(failures)
+}
+
+// 오디오 스트림 요청 (다운로드 프록시에서도 사용)
+export async function fetchAudio(source: AudioSource): Promise<Response> {
+  const response = await fetch(source.url, { headers: source.headers })
+
+  if (!response.ok || !response.body) {
+    throw new Error('오디오 다운로드에 실패했습니다')
+  }
+
+  return response
+}
+
+export async function downloadAudio(source: AudioSource): Promise<Buffer> {
+  const response = await fetchAudio(source)
+  return Buffer.from(await response.arrayBuffer())
+}
+
+// mimeType에 맞는 파일 이름 (Whisper는 확장자로 형식을 판단)
+export function audioFileName(source: AudioSource, base = 'audio'): string {
+  if (source.mimeType.includes('webm')) return `${base}.webm`
+  if (source.mimeType.includes('mpeg')) return `${base}.mp3`
+  return `${base}.m4a`
+}
@@ -0,0 +1,60 @@
+import type { NextRequest } from 'next/server'
+import { AUTH_ENABLED, USER_ID_HEADER, WORKSPACE_COOKIE, WORKSPACE_HEADER } from './authConfig'
+import { workspaceRole } from './workspaces'
+
+// 기록을 보고 저장하는 주체 (workspaceId가 없으면 개인 기록)
+export interface Owner {
+  userId: string
+  workspaceId: string | null
+}
+
+// 라우트에서 그대로 HTTP 상태 코드로 쓰는 에러
+export class AuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+// 로그인이 꺼져 있으면 null (모든 기록을 함께 봄)
+export async function getOwner(request: NextRequest): Promise<Owner | null> {
+  if (!AUTH_ENABLED) return null
+
+  // 미들웨어가 토큰을 확인하고 넣어준 값
+  const userId = request.headers.get(USER_ID_HEADER)
+  if (!userId) {
+    throw new AuthError('로그인이 필요합니다', 401)
+  }
+
+  const workspaceId = request.headers.get(WORKSPACE_HEADER) || request.cookies.get(WORKSPACE_COOKIE)?.value || null
+  if (!workspaceId) {
+    return { userId, workspaceId: null }
+  }
+
+  if (!await workspaceRole(workspaceId, userId).catch(() => null)) {
+    throw new AuthError('워크스페이스에 접근할 수 없습니다', 403)
+  }
+
+  return { userId, workspaceId }
+}
+
+// 로그인한 사용자 ID (로그인이 꺼져 있으면 AuthError)
+export function requireUserId(request: NextRequest): string {
+  const userId = AUTH_ENABLED ? request.headers.get(USER_ID_HEADER) : null
+  if (!userId) {
+    throw new AuthError(AUTH_ENABLED ? '로그인이 필요합니다' : '로그인 기능이 꺼져 있습니다', AUTH_ENABLED ? 401 : 404)
+  }
+  return userId
+}
+
+// 관리자: x-admin-token 헤더가 ADMIN_TOKEN과 같거나, 로그인한 사용자가 ADMIN_USER_IDS(쉼표 구분)에 있음
+export function requireAdmin(request: NextRequest): void {
+  const adminToken = process.env.ADMIN_TOKEN
+  if (adminToken && request.headers.get('x-admin-token') === adminToken) return
+
+  const userId = AUTH_ENABLED ? request.headers.get(USER_ID_HEADER) : null
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+  if (userId && adminIds.includes(userId)) return
+
+  throw new AuthError('관리자만 사용할 수 있습니다', userId || request.headers.has('x-admin-token') ? 403 : 401)
+}
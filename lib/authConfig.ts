@@ -0,0 +1,14 @@
+// 서버·미들웨어·브라우저에서 같이 쓰는 로그인 설정 (Node 전용 모듈을 import하지 않음)
+
+// NEXT_PUBLIC_AUTH_ENABLED=true면 로그인한 사용자만 API를 쓸 수 있고 기록도 본인 것만 보임
+export const AUTH_ENABLED = process.env.NEXT_PUBLIC_AUTH_ENABLED === 'true'
+
+// 브라우저가 Supabase 세션의 access token을 이 쿠키에 넣어두면 fetch와 다운로드 링크에 자동으로 붙음
+export const ACCESS_TOKEN_COOKIE = 'sb-access-token'
+
+// 선택한 팀 워크스페이스 (없으면 개인 기록)
+export const WORKSPACE_COOKIE = 'workspace-id'
+export const WORKSPACE_HEADER = 'x-workspace-id'
+
+// 미들웨어가 토큰을 확인한 뒤 라우트로 넘기는 사용자 ID
+export const USER_ID_HEADER = 'x-user-id'
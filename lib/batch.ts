@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto'
+import { waitUntil } from '@vercel/functions'
+import type { Owner } from './auth'
+import { getSupabase } from './supabase'
+import { inScope } from './history'
+import { memoryCollection } from './memory'
+import { createBatchJobs, drainJobs, JobSummary, listBatchJobs } from './jobs'
+import type { UsageSubject } from './usage'
+import type { TranscriptSource } from './types'
+
+// 한 번에 처리할 수 있는 최대 영상 수
+export const BATCH_MAX_VIDEOS = 200
+
+// 동시에 추출할 영상 수
+const BATCH_CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 3)
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface BatchItem {
+  videoId: string
+  status: BatchItemStatus
+  title: string | null
+  source: TranscriptSource | null
+  historyId: string | null
+  error: string | null
+}
+
+export interface Batch {
+  id: string
+  items: BatchItem[]
+  createdAt: string
+  updatedAt: string
+}
+
+// 영상별 진행 상태는 transcription_jobs(batch_id)에 있고 여기는 영상 순서만 저장
+interface BatchRow {
+  id: string
+  video_ids: string[]
+  user_id: string | null
+  workspace_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface BatchStore {
+  create(videoIds: string[], owner: Owner | null): Promise<BatchRow>
+  get(id: string): Promise<BatchRow | null>
+}
+
+function createMemoryStore(): BatchStore {
+  const batches = memoryCollection<BatchRow>('batch_jobs')
+
+  return {
+    async create(videoIds, owner) {
+      const now = new Date().toISOString()
+      const row: BatchRow = {
+        id: randomUUID(),
+        video_ids: videoIds,
+        user_id: owner?.userId ?? null,
+        workspace_id: owner?.workspaceId ?? null,
+        created_at: now,
+        updated_at: now,
+      }
+      batches.set(row.id, row)
+      return row
+    },
+    async get(id) {
+      return batches.get(id) ?? null
+    },
+  }
+}
+
+function createSupabaseStore(): BatchStore {
+  const table = () => getSupabase()!.from('batch_jobs')
+
+  return {
+    async create(videoIds, owner) {
+      const { data, error } = await table()
+        .insert({ video_ids: videoIds, user_id: owner?.userId ?? null, workspace_id: owner?.workspaceId ?? null })
+        .select('*')
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      return data as BatchRow
+    },
+    async get(id) {
+      const { data, error } = await table()
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+
+      return data as BatchRow | null
+    },
+  }
+}
+
+function getBatchStore(): BatchStore {
+  return getSupabase() ? createSupabaseStore() : createMemoryStore()
+}
+
+function toItem(videoId: string, job: JobSummary | undefined): BatchItem {
+  const status = job?.status ?? 'queued'
+  return {
+    videoId,
+    status: status === 'queued' || status === 'done' || status === 'failed' ? status : 'running',
+    title: job?.title ?? null,
+    source: job?.source ?? null,
+    historyId: job?.historyId ?? null,
+    error: status === 'failed' ? job?.error ?? null : null,
+  }
+}
+
+function toBatch(row: BatchRow, jobs: JobSummary[]): Batch {
+  const byVideo = new Map(jobs.map(job => [job.videoId, job]))
+  const updatedAt = jobs.reduce((latest, job) => job.updatedAt > latest ? job.updatedAt : latest, row.updated_at)
+  return {
+    id: row.id,
+    items: row.video_ids.map(videoId => toItem(videoId, byVideo.get(videoId))),
+    createdAt: row.created_at,
+    updatedAt,
+  }
+}
+
+// 다른 사용자/워크스페이스의 일괄 작업은 없는 것처럼
+export async function getBatch(id: string, owner: Owner | null): Promise<Batch | null> {
+  const row = await getBatchStore().get(id)
+  return row && inScope(row, owner) ? toBatch(row, await listBatchJobs(row.id)) : null
+}
+
+// 영상마다 작업을 저장하고 응답 뒤에 waitUntil로 실행 시작 (남은 영상은 /api/cron/jobs가 이어서 실행)
+export async function startBatch(videoIds: string[], languages: string[] | undefined, owner: Owner | null, subject: UsageSubject): Promise<Batch> {
+  const row = await getBatchStore().create(videoIds, owner)
+  await createBatchJobs(
+    row.id,
+    videoIds.map(videoId => ({ kind: 'video', videoId, languages, provider: null })),
+    { owner, subject, route: 'batch' }
+  )
+
+  waitUntil(drainJobs({ batchId: row.id, concurrency: BATCH_CONCURRENCY }).catch(error => {
+    console.error('Batch run error:', error)
+  }))
+
+  return toBatch(row, [])
+}
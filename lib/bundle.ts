@@ -0,0 +1,32 @@
+import JSZip from 'jszip'
+import { ExportDocument, ExportFormat, exportFileName, renderExport } from './export'
+
+// 여러 대본을 JSON 하나로
+export function renderCombinedJson(docs: ExportDocument[]): string {
+  return JSON.stringify(docs.map(doc => JSON.parse(renderExport(doc, 'json').body)), null, 2)
+}
+
+// 여러 대본을 각각 format 파일로 만들어 ZIP으로 묶음
+export async function renderZip(docs: ExportDocument[], format: ExportFormat): Promise<ArrayBuffer> {
+  const zip = new JSZip()
+  const used = new Set<string>()
+
+  docs.forEach((doc, index) => {
+    let name = exportFileName(doc.title, format)
+    // 제목이 같은 대본이 있으면 번호를 붙임
+    if (used.has(name)) {
+      name = exportFileName(`${doc.title} (${index + 1})`, format)
+    }
+    used.add(name)
+    zip.file(name, renderExport(doc, format).body)
+  })
+
+  zip.file('index.json', JSON.stringify(docs.map(doc => ({
+    title: doc.title,
+    videoId: doc.videoId ?? null,
+    channelName: doc.channelName ?? null,
+    source: doc.source ?? null,
+  })), null, 2))
+
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' })
+}
@@ -0,0 +1,128 @@
+import { getSupabase } from './supabase'
+import { memoryCollection } from './memory'
+
+// 종류별 보관 기간 (초)
+export const CACHE_TTL = {
+  videoInfo: 24 * 60 * 60,
+  captionTracks: 6 * 60 * 60,
+  captions: 24 * 60 * 60,
+  // 음성 인식은 비싸서 오래 보관
+  whisper: 30 * 24 * 60 * 60,
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>
+}
+
+interface CacheEntry {
+  value: unknown
+  expiresAt: number
+}
+
+interface CacheRow {
+  key: string
+  value: unknown
+  expires_at: string
+}
+
+function createMemoryStore(): CacheStore {
+  const entries = memoryCollection<CacheEntry>('transcript_cache')
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry.value as T
+    },
+    async set(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+    },
+  }
+}
+
+function createSupabaseStore(): CacheStore {
+  const table = () => getSupabase()!.from('transcript_cache')
+
+  return {
+    async get<T>(key: string) {
+      const { data, error } = await table()
+        .select('*')
+        .eq('key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+
+      return data ? (data as CacheRow).value as T : null
+    },
+    async set(key, value, ttlSeconds) {
+      const { error } = await table()
+        .upsert({ key, value, expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString() })
+
+      if (error) {
+        throw error
+      }
+    },
+  }
+}
+
+const disabledStore: CacheStore = {
+  async get() {
+    return null
+  },
+  async set() {},
+}
+
+// CACHE_STORE=memory|supabase|off (기본: Supabase가 있으면 supabase, 없으면 memory)
+export function getCacheStore(): CacheStore {
+  const kind = process.env.CACHE_STORE || (getSupabase() ? 'supabase' : 'memory')
+
+  if (kind === 'off') return disabledStore
+  if (kind === 'supabase' && getSupabase()) return createSupabaseStore()
+  return createMemoryStore()
+}
+
+export interface CachedValue<T> {
+  value: T
+  hit: boolean
+}
+
+// 캐시에 있으면 반환, 없거나 force면 load 결과를 저장 (null은 저장하지 않음)
+export async function cached<T>(
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<T>,
+  force = false
+): Promise<CachedValue<T>> {
+  const store = getCacheStore()
+
+  if (!force) {
+    try {
+      const value = await store.get<T>(key)
+      if (value !== null) {
+        return { value, hit: true }
+      }
+    } catch (error) {
+      console.error('Cache read error:', error)
+    }
+  }
+
+  const value = await load()
+
+  if (value !== null && value !== undefined) {
+    try {
+      await store.set(key, value, ttlSeconds)
+    } catch (error) {
+      console.error('Cache write error:', error)
+    }
+  }
+
+  return { value, hit: false }
+}
@@ -0,0 +1,128 @@
+import { readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { getAudioDuration, sliceAudio, WHISPER_MAX_BYTES, withTempDir } from './audio'
+import type { TranscriptSegment } from './types'
+
+// 청크 길이 / 앞뒤 청크가 겹치는 길이 (초)
+const DEFAULT_CHUNK_SECONDS = 600
+const DEFAULT_OVERLAP_SECONDS = 5
+
+export interface AudioInput {
+  data: Buffer
+  fileName: string
+  mimeType: string
+}
+
+// 파일 하나를 음성 인식해서 세그먼트(초, 파일 시작 기준)를 반환하는 함수
+export type TranscribeFile = (file: File) => Promise<TranscriptSegment[]>
+
+export interface ChunkOptions {
+  // 이 크기 이하면 나누지 않고 한 번에 보냄 (기본: OpenAI Whisper 제한 25MB)
+  maxBytes?: number
+  chunkSeconds?: number
+  overlapSeconds?: number
+  // 청크 하나를 보내기 직전에 호출 (current는 1부터)
+  onProgress?: (current: number, total: number) => void | Promise<void>
+}
+
+export interface ChunkPlan {
+  index: number
+  start: number
+  end: number
+}
+
+export interface ChunkResult {
+  start: number
+  segments: TranscriptSegment[]
+}
+
+// 전체 길이를 chunkSeconds 단위로 나누고, 각 청크 끝에 overlapSeconds를 덧붙임
+export function planChunks(totalSeconds: number, chunkSeconds: number, overlapSeconds: number): ChunkPlan[] {
+  const plans: ChunkPlan[] = []
+
+  for (let start = 0, index = 0; start < totalSeconds; start += chunkSeconds, index++) {
+    plans.push({
+      index,
+      start,
+      end: Math.min(totalSeconds, start + chunkSeconds + overlapSeconds),
+    })
+  }
+
+  return plans
+}
+
+function normalizeForCompare(text: string): string {
+  return text.toLowerCase().replace(/[\s.,!?'"…~\-]+/g, '')
+}
+
+// 겹치는 구간에서 앞 청크 끝과 같은 문장이 다음 청크 처음에 또 나오는지
+function isDuplicate(previous: TranscriptSegment | undefined, current: TranscriptSegment): boolean {
+  if (!previous) return false
+  const a = normalizeForCompare(previous.text)
+  const b = normalizeForCompare(current.text)
+  if (!a || !b) return false
+  return a === b || a.endsWith(b) || b.startsWith(a)
+}
+
+// 청크별 결과를 원래 타임라인으로 옮기고 이음새 중복을 제거
+export function stitchChunks(results: ChunkResult[], overlapSeconds: number): TranscriptSegment[] {
+  const sorted = [...results].sort((a, b) => a.start - b.start)
+  const stitched: TranscriptSegment[] = []
+
+  sorted.forEach((result, i) => {
+    // 겹치는 구간의 가운데를 경계로 앞/뒤 청크 중 하나만 사용
+    const from = i === 0 ? -Infinity : result.start + overlapSeconds / 2
+    const next = sorted[i + 1]
+    const until = next ? next.start + overlapSeconds / 2 : Infinity
+
+    for (const segment of result.segments) {
+      const offset = result.start + segment.offset
+      if (offset < from || offset >= until) continue
+
+      const shifted = { ...segment, offset }
+      if (isDuplicate(stitched[stitched.length - 1], shifted)) continue
+
+      stitched.push(shifted)
+    }
+  })
+
+  return stitched
+}
+
+// 크기 제한(기본 25MB)을 넘으면 청크로 나눠서 음성 인식
+export async function transcribeAudio(
+  audio: AudioInput,
+  transcribe: TranscribeFile,
+  options: ChunkOptions = {}
+): Promise<TranscriptSegment[]> {
+  if (audio.data.byteLength <= (options.maxBytes ?? WHISPER_MAX_BYTES)) {
+    await options.onProgress?.(1, 1)
+    return transcribe(new File([new Uint8Array(audio.data)], audio.fileName, { type: audio.mimeType }))
+  }
+
+  const chunkSeconds = options.chunkSeconds ?? DEFAULT_CHUNK_SECONDS
+  const overlapSeconds = options.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS
+
+  return withTempDir(async dir => {
+    const inputPath = path.join(dir, `input${path.extname(audio.fileName) || '.bin'}`)
+    await writeFile(inputPath, audio.data)
+
+    const totalSeconds = await getAudioDuration(inputPath)
+    const plans = planChunks(totalSeconds, chunkSeconds, overlapSeconds)
+    const results: ChunkResult[] = []
+
+    // 순서대로 처리 (동시에 보내면 Whisper rate limit에 걸리기 쉬움)
+    for (const plan of plans) {
+      await options.onProgress?.(plan.index + 1, plans.length)
+
+      const chunkPath = path.join(dir, `chunk-${plan.index}.mp3`)
+      await sliceAudio(inputPath, chunkPath, plan.start, plan.end - plan.start)
+
+      const data = await readFile(chunkPath)
+      const segments = await transcribe(new File([new Uint8Array(data)], `chunk-${plan.index}.mp3`, { type: 'audio/mpeg' }))
+      results.push({ start: plan.start, segments })
+    }
+
+    return stitchChunks(results, overlapSeconds)
+  })
+}
@@ -0,0 +1,13 @@
+// 최대 limit개씩 동시에 실행
+export async function mapWithConcurrency<T>(items: T[], limit: number, fn: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
@@ -0,0 +1,9 @@
+import type { NextRequest } from 'next/server'
+
+// Vercel Cron은 CRON_SECRET을 Authorization: Bearer 헤더로 보냄
+// (CRON_SECRET이 없으면 개발 환경에서만 허용)
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return process.env.NODE_ENV !== 'production'
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
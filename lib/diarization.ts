@@ -0,0 +1,139 @@
+import type { AudioInput } from './chunking'
+import type { TranscriptSegment } from './types'
+
+// pyannote 등 화자 분리 서버 주소 (multipart file → { turns: [{ start, end, speaker }] })
+const DIARIZATION_URL = process.env.DIARIZATION_URL
+const DIARIZATION_TOKEN = process.env.DIARIZATION_TOKEN
+
+// 로컬 대체 구현에서 화자가 바뀌었다고 보는 침묵 길이 (초)
+const PAUSE_SECONDS = 1.5
+
+export type DiarizationProviderName = 'http' | 'pause'
+
+// 화자가 말한 구간 (초)
+export interface SpeakerTurn {
+  start: number
+  end: number
+  speaker: string
+}
+
+export interface DiarizationProvider {
+  name: DiarizationProviderName
+  isConfigured(): boolean
+  diarize(audio: AudioInput, segments: TranscriptSegment[]): Promise<SpeakerTurn[]>
+}
+
+// 서버가 돌려준 라벨(SPEAKER_00 등)을 처음 나온 순서대로 S1, S2…로 바꿈
+function normalizeTurns(turns: SpeakerTurn[]): SpeakerTurn[] {
+  const labels = new Map<string, string>()
+  return [...turns]
+    .sort((a, b) => a.start - b.start)
+    .map(turn => {
+      if (!labels.has(turn.speaker)) {
+        labels.set(turn.speaker, `S${labels.size + 1}`)
+      }
+      return { ...turn, speaker: labels.get(turn.speaker)! }
+    })
+}
+
+const httpProvider: DiarizationProvider = {
+  name: 'http',
+  isConfigured: () => Boolean(DIARIZATION_URL),
+  async diarize(audio) {
+    if (!DIARIZATION_URL) {
+      throw new Error('화자 분리 서버 주소(DIARIZATION_URL)가 설정되지 않았습니다')
+    }
+
+    const form = new FormData()
+    form.append('file', new File([new Uint8Array(audio.data)], audio.fileName, { type: audio.mimeType }))
+
+    const response = await fetch(DIARIZATION_URL, {
+      method: 'POST',
+      body: form,
+      headers: DIARIZATION_TOKEN ? { Authorization: `Bearer ${DIARIZATION_TOKEN}` } : {},
+    })
+
+    if (!response.ok) {
+      throw new Error(`화자 분리 서버 오류 (${response.status})`)
+    }
+
+    const data = await response.json() as { turns?: SpeakerTurn[]; segments?: SpeakerTurn[] }
+    const turns = (data.turns || data.segments || [])
+      .filter(turn => Number.isFinite(turn.start) && Number.isFinite(turn.end) && turn.speaker !== undefined)
+      .map(turn => ({ start: turn.start, end: turn.end, speaker: String(turn.speaker) }))
+
+    return normalizeTurns(turns)
+  },
+}
+
+// 오디오 없이 세그먼트 사이 침묵만 보고 두 화자를 번갈아 붙이는 대체 구현
+// (로컬 테스트용, DIARIZATION_PROVIDER=pause로 명시했을 때만 사용)
+const pauseProvider: DiarizationProvider = {
+  name: 'pause',
+  isConfigured: () => true,
+  async diarize(_audio, segments) {
+    const turns: SpeakerTurn[] = []
+    let speaker = 1
+
+    segments.forEach((segment, index) => {
+      const previous = segments[index - 1]
+      if (previous && segment.offset - (previous.offset + previous.duration) >= PAUSE_SECONDS) {
+        speaker = speaker === 1 ? 2 : 1
+      }
+      turns.push({ start: segment.offset, end: segment.offset + segment.duration, speaker: `S${speaker}` })
+    })
+
+    return turns
+  },
+}
+
+const PROVIDERS: Record<DiarizationProviderName, DiarizationProvider> = {
+  http: httpProvider,
+  pause: pauseProvider,
+}
+
+// DIARIZATION_PROVIDER (기본 http) → 설정이 안 돼 있으면 null (화자 구분 사용 불가)
+export function getDiarizationProvider(): DiarizationProvider | null {
+  const configured = process.env.DIARIZATION_PROVIDER as DiarizationProviderName | undefined
+  const provider = configured && PROVIDERS[configured] ? PROVIDERS[configured] : httpProvider
+  return provider.isConfigured() ? provider : null
+}
+
+export function diarizationAvailable(): boolean {
+  return getDiarizationProvider() !== null
+}
+
+// 세그먼트마다 가장 많이 겹치는 화자를 붙임 (겹치는 구간이 없으면 가장 가까운 화자)
+export function assignSpeakers(segments: TranscriptSegment[], turns: SpeakerTurn[]): TranscriptSegment[] {
+  if (turns.length === 0) return segments
+
+  return segments.map(segment => {
+    const start = segment.offset
+    const end = segment.offset + Math.max(segment.duration, 0.01)
+
+    let best: SpeakerTurn | null = null
+    let bestScore = -Infinity
+
+    for (const turn of turns) {
+      const overlap = Math.min(end, turn.end) - Math.max(start, turn.start)
+      // 겹치면 겹친 길이, 안 겹치면 떨어진 거리만큼 음수
+      const score = overlap > 0 ? overlap : overlap - 1000
+      if (score > bestScore) {
+        best = turn
+        bestScore = score
+      }
+    }
+
+    return best ? { ...segment, speaker: best.speaker } : segment
+  })
+}
+
+export async function diarizeSegments(audio: AudioInput, segments: TranscriptSegment[]): Promise<TranscriptSegment[]> {
+  const provider = getDiarizationProvider()
+  if (!provider) {
+    throw new Error('화자 분리 서버 주소(DIARIZATION_URL)가 설정되지 않았습니다')
+  }
+
+  const turns = await provider.diarize(audio, segments)
+  return assignSpeakers(segments, turns)
+}
@@ -0,0 +1,184 @@
+import { speakerLabels, speakerName } from './speakers'
+import { formatTime, youtubeTimeUrl } from './transcript'
+import type { TranscriptSegment, TranscriptSource } from './types'
+
+export type ExportFormat = 'srt' | 'vtt' | 'txt' | 'md' | 'json'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['srt', 'vtt', 'txt', 'md', 'json']
+
+export interface ExportDocument {
+  title: string
+  videoId?: string | null
+  channelName?: string | null
+  source?: TranscriptSource
+  transcript: TranscriptSegment[]
+  fullText: string
+  // 있으면 원문 아래에 번역을 함께 넣은 이중 자막으로 내보냄
+  translation?: TranscriptSegment[] | null
+  // 화자 라벨 → 표시 이름 (세그먼트에 speaker가 있을 때)
+  speakers?: Record<string, string> | null
+}
+
+export interface ExportFile {
+  body: string
+  contentType: string
+  extension: ExportFormat
+}
+
+// duration이 없는 세그먼트(Whisper 전체 텍스트 등)에 쓰는 기본 길이 (초)
+const FALLBACK_DURATION = 3
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value)
+}
+
+// 세그먼트 종료 시각 (초). duration이 없으면 다음 세그먼트 시작까지
+function segmentEnd(segments: TranscriptSegment[], index: number): number {
+  const segment = segments[index]
+  if (segment.duration > 0) {
+    return segment.offset + segment.duration
+  }
+  const next = segments[index + 1]
+  if (next && next.offset > segment.offset) {
+    return next.offset
+  }
+  return segment.offset + FALLBACK_DURATION
+}
+
+// 초 → HH:MM:SS{separator}mmm
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3_600_000)
+  const mins = Math.floor((totalMs % 3_600_000) / 60_000)
+  const secs = Math.floor((totalMs % 60_000) / 1000)
+  const ms = totalMs % 1000
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`
+}
+
+type SpeakerNamer = (segment: TranscriptSegment) => string | null
+
+// 세그먼트의 화자 표시 이름 (화자 구분을 안 했으면 null)
+function speakerNamer(doc: ExportDocument): SpeakerNamer {
+  const labels = speakerLabels(doc.transcript)
+  return segment => segment.speaker ? speakerName(segment.speaker, doc.speakers ?? {}, labels) : null
+}
+
+// 자막 큐 본문 (화자가 있으면 앞에 이름, 번역이 있으면 두 줄)
+function cueText(doc: ExportDocument, index: number, nameOf: SpeakerNamer, voiceTag = false): string {
+  const segment = doc.transcript[index]
+  const name = nameOf(segment)
+  const original = name ? (voiceTag ? `<v ${name}>${segment.text}` : `${name}: ${segment.text}`) : segment.text
+  const translated = doc.translation?.[index]?.text
+  return translated ? `${original}\n${translated}` : original
+}
+
+function toSrt(doc: ExportDocument): string {
+  const nameOf = speakerNamer(doc)
+  return doc.transcript
+    .map((segment, index) => [
+      String(index + 1),
+      `${formatTimestamp(segment.offset, ',')} --> ${formatTimestamp(segmentEnd(doc.transcript, index), ',')}`,
+      cueText(doc, index, nameOf),
+    ].join('\n'))
+    .join('\n\n') + '\n'
+}
+
+function toVtt(doc: ExportDocument): string {
+  const nameOf = speakerNamer(doc)
+  const cues = doc.transcript.map((segment, index) => [
+    `${formatTimestamp(segment.offset, '.')} --> ${formatTimestamp(segmentEnd(doc.transcript, index), '.')}`,
+    // WebVTT에서 "-->"는 큐 본문에 올 수 없음, 화자는 <v> 태그로
+    cueText(doc, index, nameOf, true).replace(/-->/g, '->'),
+  ].join('\n'))
+  return ['WEBVTT', ...cues].join('\n\n') + '\n'
+}
+
+function toTxt(doc: ExportDocument): string {
+  const nameOf = speakerNamer(doc)
+
+  if (doc.translation) {
+    return doc.transcript.map((_, index) => cueText(doc, index, nameOf)).join('\n\n') + '\n'
+  }
+
+  // 화자가 있으면 같은 화자가 이어서 말한 부분을 한 문단으로
+  if (doc.transcript.some(segment => segment.speaker)) {
+    const paragraphs: { name: string | null; texts: string[] }[] = []
+    for (const segment of doc.transcript) {
+      const name = nameOf(segment)
+      const last = paragraphs[paragraphs.length - 1]
+      if (last && last.name === name) {
+        last.texts.push(segment.text)
+      } else {
+        paragraphs.push({ name, texts: [segment.text] })
+      }
+    }
+    return paragraphs
+      .map(paragraph => `${paragraph.name ? `${paragraph.name}: ` : ''}${paragraph.texts.join(' ')}`)
+      .join('\n\n') + '\n'
+  }
+
+  return doc.fullText + '\n'
+}
+
+function toMarkdown(doc: ExportDocument): string {
+  const lines = [`# ${doc.title}`, '']
+
+  if (doc.videoId) {
+    const meta = doc.channelName ? `${doc.channelName} · ` : ''
+    lines.push(`${meta}https://youtube.com/watch?v=${doc.videoId}`, '')
+  }
+
+  const nameOf = speakerNamer(doc)
+
+  doc.transcript.forEach((segment, index) => {
+    const time = formatTime(segment.offset)
+    const stamp = doc.videoId
+      ? `[${time}](${youtubeTimeUrl(doc.videoId, segment.offset)})`
+      : `\`${time}\``
+    const name = nameOf(segment)
+    lines.push(`- ${stamp} ${name ? `**${name}:** ` : ''}${segment.text}`)
+    const translated = doc.translation?.[index]?.text
+    if (translated) {
+      lines.push(`  ${translated}`)
+    }
+  })
+
+  return lines.join('\n') + '\n'
+}
+
+function toJson(doc: ExportDocument): string {
+  const labels = speakerLabels(doc.transcript)
+  const speakers = Object.fromEntries(labels.map(label => [label, speakerName(label, doc.speakers ?? {}, labels)]))
+
+  return JSON.stringify({
+    title: doc.title,
+    videoId: doc.videoId ?? null,
+    channelName: doc.channelName ?? null,
+    source: doc.source ?? null,
+    transcript: doc.transcript,
+    fullText: doc.fullText,
+    ...(doc.translation ? { translation: doc.translation } : {}),
+    ...(labels.length > 0 ? { speakers } : {}),
+  }, null, 2)
+}
+
+export function renderExport(doc: ExportDocument, format: ExportFormat): ExportFile {
+  switch (format) {
+    case 'srt':
+      return { body: toSrt(doc), contentType: 'application/x-subrip; charset=utf-8', extension: 'srt' }
+    case 'vtt':
+      return { body: toVtt(doc), contentType: 'text/vtt; charset=utf-8', extension: 'vtt' }
+    case 'txt':
+      return { body: toTxt(doc), contentType: 'text/plain; charset=utf-8', extension: 'txt' }
+    case 'md':
+      return { body: toMarkdown(doc), contentType: 'text/markdown; charset=utf-8', extension: 'md' }
+    case 'json':
+      return { body: toJson(doc), contentType: 'application/json; charset=utf-8', extension: 'json' }
+  }
+}
+
+// 파일명에 쓸 수 없는 문자 제거
+export function exportFileName(title: string, format: ExportFormat): string {
+  const base = title.replace(/[\\/:*?"<>|\n\r]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80) || 'transcript'
+  return `${base}.${format}`
+}
@@ -0,0 +1,410 @@
+import { randomUUID } from 'crypto'
+import type { Owner } from './auth'
+import { getSupabase } from './supabase'
+import { memoryCollection } from './memory'
+import { MAX_HITS_PER_RESULT, findHits, matchesAllTerms, searchTerms } from './search'
+import { joinTranscript } from './transcript'
+import type { HistoryDetail, HistoryItem, SearchResult, TranscriptSegment, TranscriptSource, TranscriptSummary, VideoInfo } from './types'
+
+const HISTORY_LIMIT = 20
+const SEARCH_LIMIT = 50
+
+export interface SaveHistoryInput {
+  videoInfo?: VideoInfo
+  fileName?: string
+  transcript: TranscriptSegment[]
+  fullText: string
+  source: TranscriptSource
+  language: string | null
+}
+
+interface HistoryRow {
+  id: string
+  video_id: string | null
+  title: string
+  thumbnail: string | null
+  channel_name: string | null
+  source: TranscriptSource
+  language: string | null
+  transcript: TranscriptSegment[]
+  full_text: string
+  // 언어 코드 → 번역된 세그먼트
+  translations: Record<string, TranscriptSegment[]> | null
+  summary: TranscriptSummary | null
+  // 화자 라벨 → 표시 이름
+  speakers: Record<string, string> | null
+  original_transcript: TranscriptSegment[] | null
+  edited_at: string | null
+  // 로그인을 켜기 전에 만든 기록은 null
+  user_id: string | null
+  workspace_id: string | null
+  created_at: string
+}
+
+// Supabase가 없을 때(로컬 실행) 쓰는 메모리 저장소
+const memoryStore = memoryCollection<HistoryRow>('crawl_history')
+
+// 기록처럼 사용자/워크스페이스에 속하는 행 (구독 등에서도 사용)
+export interface ScopedRow {
+  user_id: string | null
+  workspace_id: string | null
+}
+
+// owner가 null이면(로그인 꺼짐) 전체, 워크스페이스를 골랐으면 그 워크스페이스, 아니면 본인 개인 기록
+export function inScope(row: ScopedRow, owner: Owner | null): boolean {
+  if (!owner) return true
+  return owner.workspaceId
+    ? row.workspace_id === owner.workspaceId
+    : row.user_id === owner.userId && !row.workspace_id
+}
+
+// Supabase 쿼리 빌더 중 쓰는 필터만
+interface FilterQuery {
+  eq(column: string, value: string): FilterQuery
+  is(column: string, value: null): FilterQuery
+}
+
+// inScope와 같은 조건을 Supabase 쿼리에 적용
+export function scoped<Q>(query: Q, owner: Owner | null): Q {
+  if (!owner) return query
+  const filter = query as unknown as FilterQuery
+  return (owner.workspaceId
+    ? filter.eq('workspace_id', owner.workspaceId)
+    : filter.eq('user_id', owner.userId).is('workspace_id', null)) as unknown as Q
+}
+
+function memoryRow(id: string, owner: Owner | null): HistoryRow | null {
+  const row = memoryStore.get(id)
+  return row && inScope(row, owner) ? row : null
+}
+
+function toItem(row: HistoryRow): HistoryItem {
+  return {
+    id: row.id,
+    videoId: row.video_id,
+    title: row.title,
+    thumbnail: row.thumbnail,
+    source: row.source,
+    createdAt: row.created_at,
+  }
+}
+
+function toDetail(row: HistoryRow): HistoryDetail {
+  return {
+    ...toItem(row),
+    channelName: row.channel_name,
+    language: row.language ?? null,
+    transcript: row.transcript || [],
+    fullText: row.full_text || '',
+    translations: row.translations || {},
+    summary: row.summary ?? null,
+    speakers: row.speakers || {},
+    originalTranscript: row.original_transcript ?? null,
+    editedAt: row.edited_at ?? null,
+  }
+}
+
+// 추출 결과를 crawl_history에 저장하고 id를 반환
+export async function saveHistory(input: SaveHistoryInput, owner: Owner | null = null): Promise<string> {
+  const row: Omit<HistoryRow, 'id' | 'created_at'> = {
+    video_id: input.videoInfo?.videoId ?? null,
+    title: input.videoInfo?.title ?? input.fileName ?? '제목 없음',
+    thumbnail: input.videoInfo?.thumbnail ?? null,
+    channel_name: input.videoInfo?.channelName ?? null,
+    source: input.source,
+    language: input.language,
+    transcript: input.transcript,
+    full_text: input.fullText,
+    translations: {},
+    summary: null,
+    speakers: {},
+    original_transcript: null,
+    edited_at: null,
+    user_id: owner?.userId ?? null,
+    workspace_id: owner?.workspaceId ?? null,
+  }
+
+  const supabase = getSupabase()
+
+  if (!supabase) {
+    const id = randomUUID()
+    memoryStore.set(id, { ...row, id, created_at: new Date().toISOString() })
+    return id
+  }
+
+  const { data, error } = await supabase
+    .from('crawl_history')
+    .insert(row)
+    .select('id')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return String(data.id)
+}
+
+export async function listHistory(owner: Owner | null): Promise<HistoryItem[]> {
+  return (await listHistoryPage(owner, { limit: HISTORY_LIMIT })).items
+}
+
+export interface HistoryPage {
+  items: HistoryItem[]
+  // 다음 페이지를 가져올 때 넘기는 값 (마지막 페이지면 null)
+  nextCursor: string | null
+}
+
+// 커서는 마지막 항목의 created_at (바깥에서는 그대로 전달만 하도록 base64url로 감쌈)
+function encodeCursor(createdAt: string): string {
+  return Buffer.from(createdAt).toString('base64url')
+}
+
+// 잘못된 커서면 null
+export function decodeHistoryCursor(cursor: string): string | null {
+  const createdAt = Buffer.from(cursor, 'base64url').toString()
+  return Number.isNaN(Date.parse(createdAt)) ? null : createdAt
+}
+
+// 최신순 페이지 (before는 decodeHistoryCursor로 푼 커서, 그보다 오래된 기록)
+export async function listHistoryPage(owner: Owner | null, options: { limit: number; before?: string | null }): Promise<HistoryPage> {
+  const { before } = options
+  const supabase = getSupabase()
+  let rows: HistoryRow[]
+
+  if (!supabase) {
+    rows = Array.from(memoryStore.values())
+      .filter(row => inScope(row, owner) && (!before || row.created_at < before))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, options.limit + 1)
+  } else {
+    let query = scoped(supabase
+      .from('crawl_history')
+      .select('id, video_id, title, thumbnail, source, created_at'), owner)
+    if (before) {
+      query = query.lt('created_at', before)
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options.limit + 1)
+
+    if (error) {
+      throw error
+    }
+
+    rows = (data || []) as HistoryRow[]
+  }
+
+  // 하나 더 가져와서 다음 페이지가 있는지 확인
+  const page = rows.slice(0, options.limit)
+  return {
+    items: page.map(toItem),
+    nextCursor: rows.length > options.limit ? encodeCursor(page[page.length - 1].created_at) : null,
+  }
+}
+
+// 다른 사용자의 기록은 없는 것과 같이 null
+export async function getHistory(id: string, owner: Owner | null): Promise<HistoryDetail | null> {
+  const supabase = getSupabase()
+
+  if (!supabase) {
+    const row = memoryRow(id, owner)
+    return row ? toDetail(row) : null
+  }
+
+  const { data, error } = await scoped(supabase
+    .from('crawl_history')
+    .select('*')
+    .eq('id', id), owner)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data ? toDetail(data as HistoryRow) : null
+}
+
+function toSearchResult(row: HistoryRow, terms: string[]): SearchResult {
+  const hits = findHits(row.transcript || [], terms)
+  return {
+    ...toItem(row),
+    channelName: row.channel_name,
+    hits: hits.slice(0, MAX_HITS_PER_RESULT),
+    hitCount: hits.length,
+  }
+}
+
+// 제목과 대본 전체에서 검색 (모든 단어가 들어 있는 기록)
+export async function searchHistory(query: string, owner: Owner | null): Promise<SearchResult[]> {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return []
+
+  const supabase = getSupabase()
+
+  if (!supabase) {
+    return Array.from(memoryStore.values())
+      .filter(row => inScope(row, owner) && matchesAllTerms(`${row.title} ${row.full_text}`, terms))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, SEARCH_LIMIT)
+      .map(row => toSearchResult(row, terms))
+  }
+
+  const columns = 'id, video_id, title, thumbnail, channel_name, source, transcript, created_at'
+
+  const { data, error } = await scoped(supabase
+    .from('crawl_history')
+    .select(columns), owner)
+    .textSearch('search_vector', query, { type: 'websearch', config: 'simple' })
+    .order('created_at', { ascending: false })
+    .limit(SEARCH_LIMIT)
+
+  if (error) {
+    throw error
+  }
+
+  let rows = (data || []) as HistoryRow[]
+
+  // 단어 단위로 안 걸리면 부분 일치로 다시 검색
+  if (rows.length === 0) {
+    let fallback = scoped(supabase.from('crawl_history').select(columns), owner)
+    for (const term of terms) {
+      fallback = fallback.ilike('full_text', `%${term.replace(/[%_\\]/g, '\\$&')}%`)
+    }
+
+    const { data: partial, error: partialError } = await fallback
+      .order('created_at', { ascending: false })
+      .limit(SEARCH_LIMIT)
+
+    if (partialError) {
+      throw partialError
+    }
+
+    rows = (partial || []) as HistoryRow[]
+  }
+
+  return rows.map(row => toSearchResult(row, terms))
+}
+
+// 번역 결과를 기존 기록에 추가 (같은 언어는 덮어씀)
+export async function saveTranslation(id: string, language: string, segments: TranscriptSegment[], owner: Owner | null): Promise<void> {
+  const supabase = getSupabase()
+
+  if (!supabase) {
+    const row = memoryRow(id, owner)
+    if (row) {
+      memoryStore.set(id, { ...row, translations: { ...row.translations, [language]: segments } })
+    }
+    return
+  }
+
+  const { data, error } = await scoped(supabase
+    .from('crawl_history')
+    .select('translations')
+    .eq('id', id), owner)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!data) return
+
+  const { error: updateError } = await supabase
+    .from('crawl_history')
+    .update({ translations: { ...(data.translations || {}), [language]: segments } })
+    .eq('id', id)
+
+  if (updateError) {
+    throw updateError
+  }
+}
+
+// 요약 결과를 기존 기록에 저장
+export async function saveSummary(id: string, summary: TranscriptSummary, owner: Owner | null): Promise<void> {
+  const supabase = getSupabase()
+
+  if (!supabase) {
+    const row = memoryRow(id, owner)
+    if (row) {
+      memoryStore.set(id, { ...row, summary })
+    }
+    return
+  }
+
+  const { error } = await scoped(supabase
+    .from('crawl_history')
+    .update({ summary })
+    .eq('id', id), owner)
+
+  if (error) {
+    throw error
+  }
+}
+
+// 사용자가 고칠 수 있는 항목
+export interface HistoryUpdate {
+  speakers?: Record<string, string>
+  transcript?: TranscriptSegment[]
+}
+
+type HistoryRowUpdate = Partial<Omit<HistoryRow, 'id' | 'created_at'>>
+
+// 대본을 고치면 전체 텍스트를 다시 만들고, 처음 수정이면 원본을 보관.
+// 세그먼트가 나뉘거나 합쳐지면 번역 줄이 맞지 않으므로 번역은 지움
+function toRowUpdate(update: HistoryUpdate, current: Pick<HistoryRow, 'transcript' | 'original_transcript'>): HistoryRowUpdate {
+  const row: HistoryRowUpdate = {}
+
+  if (update.speakers) {
+    row.speakers = update.speakers
+  }
+
+  if (update.transcript) {
+    row.transcript = update.transcript
+    row.full_text = joinTranscript(update.transcript)
+    row.original_transcript = current.original_transcript ?? current.transcript
+    row.translations = {}
+    row.edited_at = new Date().toISOString()
+  }
+
+  return row
+}
+
+// 기록 수정 (없는 기록이면 null)
+export async function updateHistory(id: string, update: HistoryUpdate, owner: Owner | null): Promise<HistoryDetail | null> {
+  const supabase = getSupabase()
+
+  if (!supabase) {
+    const row = memoryRow(id, owner)
+    if (!row) return null
+    const updated = { ...row, ...toRowUpdate(update, row) }
+    memoryStore.set(id, updated)
+    return toDetail(updated)
+  }
+
+  const { data: current, error } = await scoped(supabase
+    .from('crawl_history')
+    .select('transcript, original_transcript')
+    .eq('id', id), owner)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!current) return null
+
+  const { data, error: updateError } = await supabase
+    .from('crawl_history')
+    .update(toRowUpdate(update, current as HistoryRow))
+    .eq('id', id)
+    .select('*')
+    .single()
+
+  if (updateError) {
+    throw updateError
+  }
+
+  return toDetail(data as HistoryRow)
+}
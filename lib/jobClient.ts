@@ -0,0 +1,51 @@
+import type { Job } from './jobs'
+import type { TranscriptResult } from './types'
+
+const POLL_INTERVAL = 1500
+
+// 작업을 만들고 끝날 때까지 상태를 폴링 (브라우저용)
+export async function runJob(
+  body: { videoId: string; languages?: string[]; force?: boolean; provider?: string; diarize?: boolean } | FormData,
+  onUpdate: (job: Job) => void
+): Promise<TranscriptResult> {
+  const response = body instanceof FormData
+    ? await fetch('/api/jobs', { method: 'POST', body })
+    : await fetch('/api/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || '알 수 없는 오류가 발생했습니다')
+  }
+
+  return waitForJob(data.jobId, onUpdate)
+}
+
+// 이미 만든 작업이 끝날 때까지 상태를 폴링
+export async function waitForJob(jobId: string, onUpdate: (job: Job) => void): Promise<TranscriptResult> {
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL))
+
+    const statusResponse = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' })
+    const statusData = await statusResponse.json()
+
+    if (!statusResponse.ok) {
+      throw new Error(statusData.error || '작업 상태를 불러오지 못했습니다')
+    }
+
+    const job: Job = statusData.job
+    onUpdate(job)
+
+    if (job.status === 'done' && job.result) {
+      return job.result
+    }
+
+    if (job.status === 'failed') {
+      throw new Error(job.error || '작업에 실패했습니다')
+    }
+  }
+}
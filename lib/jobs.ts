@@ -0,0 +1,482 @@
+import { randomUUID } from 'crypto'
+import { waitUntil } from '@vercel/functions'
+import type { Owner } from './auth'
+import { getSupabase } from './supabase'
+import { inScope } from './history'
+import { memoryCollection } from './memory'
+import { extractVideo, transcribeStoredUpload } from './pipeline'
+import type { ProgressHandler, ProgressInfo, ProgressStage } from './pipeline'
+import { removeUpload, withUploadFile } from './uploads'
+import { checkAudioQuota, meterTranscription, UsageSubject } from './usage'
+import { withWebhooks } from './webhooks'
+import type { TranscriptResult, TranscriptSource } from './types'
+
+export type JobStatus = 'queued' | 'running' | ProgressStage | 'done' | 'failed'
+
+export interface Job {
+  id: string
+  status: JobStatus
+  progress: ProgressInfo | null
+  result: TranscriptResult | null
+  error: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// 다시 실행할 수 있게 저장해두는 작업 내용 (어느 인스턴스에서든 이것만으로 실행)
+export type JobInput =
+  | { kind: 'video'; videoId: string; languages?: string[]; force?: boolean; provider: string | null; diarize?: boolean }
+  | { kind: 'upload'; uploadId: string; fileName: string; language: string; provider: string | null; diarize?: boolean }
+
+// 작업을 만든 요청 (기록 소유자, 사용량 대상, 사용량/웹훅에 남길 라우트 이름)
+export interface JobContext {
+  owner: Owner | null
+  subject: UsageSubject
+  route: string
+}
+
+// 실행 중인 작업이 updated_at을 갱신하는 간격
+const JOB_HEARTBEAT_MS = 30 * 1000
+
+// 이 시간 동안 갱신이 없으면 인스턴스가 멈춘 것으로 보고 다시 실행
+const JOB_STALE_MS = Math.max(60, Number(process.env.JOB_STALE_SECONDS) || 120) * 1000
+
+// 멈춘 작업을 다시 실행하는 최대 횟수 (넘으면 실패)
+const JOB_MAX_ATTEMPTS = 3
+
+// 한 번에 동시에 실행할 작업 수
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 3)
+
+// 이어서 실행할 때 새 작업을 시작하는 시간 (maxDuration 300초 안에 시작한 작업이 끝날 여유를 남김)
+const JOB_DRAIN_MS = 2 * 60 * 1000
+
+type JobUpdate = Partial<Pick<JobRow, 'status' | 'progress' | 'result' | 'error'>>
+
+interface NewJob {
+  input: JobInput
+  route: string
+  subject: string
+  user_id: string | null
+  workspace_id: string | null
+  // 일괄 추출로 만든 작업이면 batch_jobs ID
+  batch_id: string | null
+}
+
+interface JobRow extends NewJob {
+  id: string
+  status: JobStatus
+  progress: ProgressInfo | null
+  result: TranscriptResult | null
+  error: string | null
+  attempts: number
+  created_at: string
+  updated_at: string
+}
+
+// 목록용 작업 요약 (대본 없이)
+export interface JobSummary {
+  id: string
+  status: JobStatus
+  error: string | null
+  videoId: string | null
+  title: string | null
+  source: TranscriptSource | null
+  historyId: string | null
+  updatedAt: string
+}
+
+interface JobStore {
+  create(job: NewJob): Promise<JobRow>
+  createMany(jobs: NewJob[]): Promise<void>
+  get(id: string): Promise<JobRow | null>
+  // 내용 없이 호출하면 updated_at만 갱신 (실행 중 표시)
+  update(id: string, update: JobUpdate): Promise<void>
+  // 대기 중이거나 staleBefore 전에 멈춘 작업을 running으로 바꾸고 가져옴 (다른 곳에서 먼저 가져갔으면 null)
+  claim(id: string, staleBefore: Date): Promise<JobRow | null>
+  // 실행할 수 있는 작업 ID (오래된 순, batchId가 있으면 그 일괄 작업만)
+  listRunnable(staleBefore: Date, limit: number, batchId?: string): Promise<string[]>
+  listByBatch(batchId: string): Promise<JobSummary[]>
+  listByIds(ids: string[]): Promise<JobSummary[]>
+}
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    status: row.status,
+    progress: row.progress,
+    result: row.result,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+const isFinished = (status: JobStatus) => status === 'done' || status === 'failed'
+
+function toSummary(row: JobRow): JobSummary {
+  return {
+    id: row.id,
+    status: row.status,
+    error: row.error,
+    videoId: row.input.kind === 'video' ? row.input.videoId : null,
+    title: row.result?.videoInfo?.title ?? null,
+    source: row.result?.source ?? null,
+    historyId: row.result?.historyId ?? null,
+    updatedAt: row.updated_at,
+  }
+}
+
+function isRunnable(row: JobRow, staleBefore: Date): boolean {
+  if (row.status === 'queued') return true
+  return !isFinished(row.status) && new Date(row.updated_at) < staleBefore
+}
+
+// 로컬 실행용 (서버 프로세스가 살아있는 동안만 유지)
+function createMemoryStore(): JobStore {
+  const jobs = memoryCollection<JobRow>('transcription_jobs')
+
+  const create = async (job: NewJob): Promise<JobRow> => {
+    const now = new Date().toISOString()
+    const row: JobRow = {
+      ...job,
+      id: randomUUID(),
+      status: 'queued',
+      progress: null,
+      result: null,
+      error: null,
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+    }
+    jobs.set(row.id, row)
+    return row
+  }
+
+  return {
+    create,
+    async createMany(newJobs) {
+      await Promise.all(newJobs.map(create))
+    },
+    async get(id) {
+      return jobs.get(id) ?? null
+    },
+    async update(id, update) {
+      const row = jobs.get(id)
+      if (row) {
+        jobs.set(id, { ...row, ...update, updated_at: new Date().toISOString() })
+      }
+    },
+    async claim(id, staleBefore) {
+      const row = jobs.get(id)
+      if (!row || !isRunnable(row, staleBefore)) return null
+
+      const claimed: JobRow = { ...row, status: 'running', progress: null, attempts: row.attempts + 1, updated_at: new Date().toISOString() }
+      jobs.set(id, claimed)
+      return claimed
+    },
+    async listRunnable(staleBefore, limit, batchId) {
+      return Array.from(jobs.values())
+        .filter(row => isRunnable(row, staleBefore) && (!batchId || row.batch_id === batchId))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .slice(0, limit)
+        .map(row => row.id)
+    },
+    async listByBatch(batchId) {
+      return Array.from(jobs.values())
+        .filter(row => row.batch_id === batchId)
+        .map(toSummary)
+    },
+    async listByIds(ids) {
+      return ids.flatMap(id => {
+        const row = jobs.get(id)
+        return row ? [toSummary(row)] : []
+      })
+    },
+  }
+}
+
+function createSupabaseStore(): JobStore {
+  const table = () => getSupabase()!.from('transcription_jobs')
+
+  // 대기 중이거나, 끝나지 않았는데 staleBefore 전부터 갱신이 없는 작업
+  const runnable = (staleBefore: Date) =>
+    `status.eq.queued,and(status.neq.done,status.neq.failed,updated_at.lt.${staleBefore.toISOString()})`
+
+  // 대본(result 전체)은 빼고 목록에 필요한 값만
+  const summaryColumns = 'id, status, error, updated_at, video_id:input->>videoId, title:result->videoInfo->>title, source:result->>source, history_id:result->>historyId'
+
+  const toSummaries = (data: unknown[] | null): JobSummary[] =>
+    ((data || []) as Record<string, string | null>[]).map(row => ({
+      id: row.id!,
+      status: row.status as JobStatus,
+      error: row.error,
+      videoId: row.video_id,
+      title: row.title,
+      source: row.source as TranscriptSource | null,
+      historyId: row.history_id,
+      updatedAt: row.updated_at!,
+    }))
+
+  const get = async (id: string): Promise<JobRow | null> => {
+    const { data, error } = await table()
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data as JobRow | null
+  }
+
+  return {
+    async create(job) {
+      const { data, error } = await table()
+        .insert({ ...job, status: 'queued' })
+        .select('*')
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      return data as JobRow
+    },
+    async createMany(jobs) {
+      const { error } = await table().insert(jobs.map(job => ({ ...job, status: 'queued' })))
+
+      if (error) {
+        throw error
+      }
+    },
+    get,
+    async update(id, update) {
+      const { error } = await table()
+        .update({ ...update, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+    },
+    // 조건부 update라서 두 곳에서 동시에 가져가도 한 곳만 성공 (attempts가 이미 바뀌었으면 실패)
+    async claim(id, staleBefore) {
+      const row = await get(id)
+      if (!row || !isRunnable(row, staleBefore)) return null
+
+      const { data, error } = await table()
+        .update({ status: 'running', progress: null, attempts: row.attempts + 1, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('attempts', row.attempts)
+        .or(runnable(staleBefore))
+        .select('*')
+
+      if (error) {
+        throw error
+      }
+
+      return (data?.[0] as JobRow | undefined) ?? null
+    },
+    async listRunnable(staleBefore, limit, batchId) {
+      let query = table()
+        .select('id')
+        .or(runnable(staleBefore))
+      if (batchId) {
+        query = query.eq('batch_id', batchId)
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []).map(row => row.id as string)
+    },
+    async listByBatch(batchId) {
+      const { data, error } = await table()
+        .select(summaryColumns)
+        .eq('batch_id', batchId)
+
+      if (error) {
+        throw error
+      }
+
+      return toSummaries(data)
+    },
+    async listByIds(ids) {
+      if (ids.length === 0) return []
+
+      const { data, error } = await table()
+        .select(summaryColumns)
+        .in('id', ids)
+
+      if (error) {
+        throw error
+      }
+
+      return toSummaries(data)
+    },
+  }
+}
+
+function getJobStore(): JobStore {
+  return getSupabase() ? createSupabaseStore() : createMemoryStore()
+}
+
+// 다른 사용자/워크스페이스의 작업은 없는 것처럼
+export async function getJob(id: string, owner: Owner | null): Promise<Job | null> {
+  const row = await getJobStore().get(id)
+  return row && inScope(row, owner) ? toJob(row) : null
+}
+
+async function execute(row: JobRow, report: ProgressHandler): Promise<TranscriptResult> {
+  const { input, route } = row
+  const owner: Owner | null = row.user_id ? { userId: row.user_id, workspaceId: row.workspace_id } : null
+  const subject: UsageSubject = { key: row.subject, userId: row.user_id }
+
+  // 기다리는 동안 하루 사용량을 넘었으면 실행하지 않음
+  await checkAudioQuota(subject)
+
+  if (input.kind === 'video') {
+    return meterTranscription(subject, route, input.provider, () => withWebhooks(subject.userId, { route, videoId: input.videoId }, () => extractVideo(input.videoId, {
+      languages: input.languages,
+      force: input.force,
+      provider: input.provider,
+      diarize: input.diarize,
+      owner,
+      onProgress: report,
+    })))
+  }
+
+  return meterTranscription(subject, route, input.provider, () => withWebhooks(subject.userId, { route, fileName: input.fileName }, () =>
+    withUploadFile(input.uploadId, row.user_id, (filePath, upload) => transcribeStoredUpload(filePath, upload.fileName, upload.mimeType, {
+      language: input.language,
+      provider: input.provider,
+      diarize: input.diarize,
+      owner,
+      onProgress: report,
+    }))
+  ))
+}
+
+// 다 끝난 작업의 입력 파일 정리
+async function discardInput(input: JobInput): Promise<void> {
+  if (input.kind === 'upload') {
+    await removeUpload(input.uploadId).catch(error => console.error('Upload remove error:', error))
+  }
+}
+
+const staleBefore = () => new Date(Date.now() - JOB_STALE_MS)
+
+// 작업을 가져와서 실행 (다른 곳에서 실행 중이면 아무것도 하지 않고 false)
+export async function runJob(id: string): Promise<boolean> {
+  const store = getJobStore()
+  const row = await store.claim(id, staleBefore())
+  if (!row) return false
+
+  if (row.attempts > JOB_MAX_ATTEMPTS) {
+    await store.update(id, { status: 'failed', progress: null, error: '작업이 여러 번 중단되어 실패했습니다' })
+    await discardInput(row.input)
+    return true
+  }
+
+  const report: ProgressHandler = async (status, progress) => {
+    try {
+      await store.update(id, { status, progress: progress ?? null })
+    } catch (error) {
+      console.error('Job progress error:', error)
+    }
+  }
+
+  // 단계가 오래 걸려도 멈춘 작업으로 보이지 않게
+  const heartbeat = setInterval(() => {
+    store.update(id, {}).catch(error => console.error('Job heartbeat error:', error))
+  }, JOB_HEARTBEAT_MS)
+
+  try {
+    const result = await execute(row, report)
+    await store.update(id, { status: 'done', progress: null, result })
+  } catch (error) {
+    console.error('Job failed:', error)
+    const message = error instanceof Error ? error.message : '작업에 실패했습니다'
+    await store.update(id, { status: 'failed', progress: null, error: message }).catch(() => {})
+  } finally {
+    clearInterval(heartbeat)
+  }
+
+  await discardInput(row.input)
+  return true
+}
+
+// 작업을 저장만 함 (실행은 runJob 또는 /api/cron/jobs)
+export async function queueJob(input: JobInput, { owner, subject, route }: JobContext): Promise<Job> {
+  const row = await getJobStore().create({
+    input,
+    route,
+    subject: subject.key,
+    user_id: owner?.userId ?? null,
+    workspace_id: owner?.workspaceId ?? null,
+    batch_id: null,
+  })
+  return toJob(row)
+}
+
+// 작업을 저장하고 응답 뒤에 바로 실행 (Vercel에서는 waitUntil로 함수가 끝날 때까지 기다림).
+// 실행 중에 인스턴스가 멈춰도 /api/cron/jobs가 저장된 작업을 다시 가져가서 실행
+export async function enqueueJob(input: JobInput, context: JobContext): Promise<Job> {
+  const job = await queueJob(input, context)
+
+  waitUntil(runJob(job.id).catch(error => console.error('Job run error:', error)))
+
+  return job
+}
+
+// 일괄 추출: 영상마다 작업을 하나씩 저장 (실행은 drainJobs)
+export async function createBatchJobs(batchId: string, inputs: JobInput[], { owner, subject, route }: JobContext): Promise<void> {
+  await getJobStore().createMany(inputs.map(input => ({
+    input,
+    route,
+    subject: subject.key,
+    user_id: owner?.userId ?? null,
+    workspace_id: owner?.workspaceId ?? null,
+    batch_id: batchId,
+  })))
+}
+
+export async function listBatchJobs(batchId: string): Promise<JobSummary[]> {
+  return getJobStore().listByBatch(batchId)
+}
+
+// 다른 기능(구독 등)이 만든 작업의 결과 (없는 ID는 빠짐)
+export async function listJobSummaries(ids: string[]): Promise<JobSummary[]> {
+  return getJobStore().listByIds(ids)
+}
+
+export interface DrainOptions {
+  // 이 일괄 작업의 작업만 실행
+  batchId?: string
+  concurrency?: number
+}
+
+// 대기 중이거나 멈춘 작업을 하나씩 가져와서 실행 (JOB_DRAIN_MS가 지나면 새 작업은 시작하지 않음).
+// 남은 작업은 다음 cron(/api/cron/jobs)이 이어서 실행
+export async function drainJobs({ batchId, concurrency = JOB_CONCURRENCY }: DrainOptions = {}): Promise<number> {
+  const store = getJobStore()
+  const deadline = Date.now() + JOB_DRAIN_MS
+  let started = 0
+
+  const worker = async () => {
+    while (Date.now() < deadline) {
+      const [id] = await store.listRunnable(staleBefore(), 1, batchId)
+      if (!id) return
+      if (await runJob(id)) started++
+    }
+  }
+
+  await Promise.all(Array.from({ length: concurrency }, worker))
+  return started
+}
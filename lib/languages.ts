@@ -0,0 +1,58 @@
+// 언어 선택 목록 (ISO 639-1)
+export const LANGUAGE_OPTIONS = [
+  { code: 'ko', label: '한국어' },
+  { code: 'en', label: '영어' },
+  { code: 'ja', label: '일본어' },
+  { code: 'zh', label: '중국어' },
+  { code: 'es', label: '스페인어' },
+  { code: 'fr', label: '프랑스어' },
+  { code: 'de', label: '독일어' },
+  { code: 'vi', label: '베트남어' },
+]
+
+// 기본 선호 언어
+export const DEFAULT_LANGUAGES = ['ko']
+
+// Whisper 자동 감지
+export const AUTO_LANGUAGE = 'auto'
+
+export function isLanguageCode(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(value)
+}
+
+export function languageLabel(code: string): string {
+  const base = code.split('-')[0]
+  return LANGUAGE_OPTIONS.find(option => option.code === base)?.label ?? code
+}
+
+// 클라이언트에서 받은 선호 언어 목록 정리
+export function parseLanguages(value: unknown): string[] {
+  if (typeof value === 'string') {
+    value = value.split(',')
+  }
+  if (!Array.isArray(value)) {
+    return DEFAULT_LANGUAGES
+  }
+  const languages = value
+    .map(v => String(v).trim())
+    .filter(v => v === AUTO_LANGUAGE || isLanguageCode(v))
+  return languages.length > 0 ? languages : DEFAULT_LANGUAGES
+}
+
+// Whisper verbose_json은 감지된 언어를 영어 이름으로 돌려줌 (예: "korean")
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  korean: 'ko',
+  english: 'en',
+  japanese: 'ja',
+  chinese: 'zh',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  vietnamese: 'vi',
+}
+
+export function whisperLanguageCode(name: string | undefined): string | null {
+  if (!name) return null
+  const lower = name.toLowerCase()
+  return WHISPER_LANGUAGE_NAMES[lower] ?? (isLanguageCode(lower) ? lower : null)
+}
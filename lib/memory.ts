@@ -0,0 +1,19 @@
+// Supabase 없이 로컬에서 돌릴 때 쓰는 메모리 저장소.
+// 라우트마다 모듈이 따로 로드될 수 있어서 globalThis에 보관한다.
+const globalStore = globalThis as unknown as {
+  __memoryCollections?: Map<string, Map<string, unknown>>
+}
+
+export function memoryCollection<T>(name: string): Map<string, T> {
+  if (!globalStore.__memoryCollections) {
+    globalStore.__memoryCollections = new Map()
+  }
+
+  let collection = globalStore.__memoryCollections.get(name)
+  if (!collection) {
+    collection = new Map()
+    globalStore.__memoryCollections.set(name, collection)
+  }
+
+  return collection as Map<string, T>
+}
@@ -0,0 +1,6 @@
+import OpenAI from 'openai'
+
+// OpenAI 클라이언트 (키가 없으면 null)
+export const openai = process.env.OPENAI_API_KEY
+  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  : null
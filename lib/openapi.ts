@@ -0,0 +1,316 @@
+import { API_ERROR_CODES } from './apiV1'
+import { EXPORT_FORMATS } from './export'
+import { WEBHOOK_EVENTS } from './webhooks'
+
+// /api/v1 OpenAPI 3.1 문서 (라우트를 바꾸면 여기도 함께 수정)
+
+const API_VERSION = '1.0.0'
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+})
+
+const dataResponse = (description: string, schema: object) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: { type: 'object', required: ['data'], properties: { data: schema } },
+    },
+  },
+})
+
+const commonErrors = {
+  400: errorResponse('잘못된 요청 (bad_request)'),
+  401: errorResponse('API 키가 없거나 올바르지 않음 (unauthorized)'),
+  403: errorResponse('워크스페이스 접근 불가 (forbidden)'),
+}
+
+const rateLimited = {
+  429: {
+    ...errorResponse('요청 수 제한 또는 하루 음성 인식 한도 초과 (rate_limited)'),
+    headers: { 'Retry-After': { description: '다시 시도할 수 있을 때까지 남은 초', schema: { type: 'integer' } } },
+  },
+}
+
+const idParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+
+const schemas = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { type: 'string', enum: API_ERROR_CODES },
+          message: { type: 'string', description: '사람이 읽는 설명 (한국어, 바뀔 수 있음)' },
+        },
+      },
+    },
+  },
+  WebhookPayload: {
+    type: 'object',
+    required: ['id', 'event', 'createdAt', 'data'],
+    properties: {
+      id: { type: 'string' },
+      event: { type: 'string', enum: WEBHOOK_EVENTS },
+      createdAt: { type: 'string', format: 'date-time' },
+      data: {
+        type: 'object',
+        description: '완료: historyId, videoInfo, fileName, source, language, duration, fullText, segments(offset/duration 초) / 실패: videoId, fileName, error { message, status }',
+        properties: {
+          route: { type: 'string', description: '추출을 요청한 경로 (youtube, transcribe, jobs, v1/jobs 등)' },
+        },
+      },
+    },
+  },
+  Segment: {
+    type: 'object',
+    required: ['start', 'duration', 'text'],
+    properties: {
+      start: { type: 'number', description: '시작 시각 (초)' },
+      duration: { type: 'number', description: '길이 (초)' },
+      text: { type: 'string' },
+      speaker: { type: 'string', description: '화자 라벨 (S1, S2, …), 화자 구분을 했을 때만' },
+    },
+  },
+  CaptionTrack: {
+    type: 'object',
+    properties: {
+      languageCode: { type: 'string' },
+      name: { type: 'string' },
+      autoGenerated: { type: 'boolean' },
+    },
+  },
+  Transcript: {
+    type: 'object',
+    required: ['id', 'source', 'text', 'segments'],
+    properties: {
+      id: { type: ['string', 'null'], description: '저장된 기록 ID (저장에 실패하면 null)' },
+      videoId: { type: ['string', 'null'] },
+      title: { type: ['string', 'null'] },
+      channelName: { type: ['string', 'null'] },
+      source: { type: 'string', enum: ['captions', 'whisper', 'upload'] },
+      language: { type: ['string', 'null'] },
+      cached: { type: 'boolean' },
+      duration: { type: ['number', 'null'], description: '업로드한 파일의 길이 (초)' },
+      text: { type: 'string' },
+      segments: { type: 'array', items: ref('Segment') },
+      captionTracks: { type: 'array', items: ref('CaptionTrack') },
+    },
+  },
+  Job: {
+    type: 'object',
+    required: ['id', 'status'],
+    properties: {
+      id: { type: 'string' },
+      status: {
+        type: 'string',
+        enum: ['queued', 'running', 'fetching_captions', 'downloading_audio', 'extracting_audio', 'transcribing', 'diarizing', 'done', 'failed'],
+      },
+      progress: {
+        type: ['object', 'null'],
+        properties: { current: { type: 'integer' }, total: { type: 'integer' } },
+      },
+      result: { oneOf: [ref('Transcript'), { type: 'null' }] },
+      error: {
+        type: ['object', 'null'],
+        properties: { code: { type: 'string' }, message: { type: 'string' } },
+      },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  HistoryItem: {
+    type: 'object',
+    required: ['id', 'title', 'source', 'createdAt'],
+    properties: {
+      id: { type: 'string' },
+      videoId: { type: ['string', 'null'] },
+      title: { type: 'string' },
+      thumbnail: { type: ['string', 'null'] },
+      source: { type: 'string', enum: ['captions', 'whisper', 'upload'] },
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  HistoryDetail: {
+    allOf: [
+      ref('HistoryItem'),
+      {
+        type: 'object',
+        properties: {
+          channelName: { type: ['string', 'null'] },
+          language: { type: ['string', 'null'] },
+          text: { type: 'string' },
+          segments: { type: 'array', items: ref('Segment') },
+          speakers: { type: 'object', additionalProperties: { type: 'string' }, description: '화자 라벨 → 이름' },
+          translations: { type: 'array', items: { type: 'string' }, description: '번역이 있는 언어 코드' },
+          summary: { type: ['object', 'null'] },
+          editedAt: { type: ['string', 'null'], format: 'date-time' },
+        },
+      },
+    ],
+  },
+  ExtractRequest: {
+    type: 'object',
+    properties: {
+      videoId: { type: 'string', description: 'videoId 또는 url 중 하나' },
+      url: { type: 'string' },
+      languages: { type: 'array', items: { type: 'string' }, description: '선호하는 자막 언어 순서' },
+      force: { type: 'boolean', description: '캐시를 무시하고 새로 추출' },
+      provider: { type: 'string', enum: ['openai', 'local'] },
+      diarize: { type: 'boolean', description: '음성 인식 결과에 화자 구분 (화자 분리 서버가 설정되지 않았으면 400)' },
+    },
+  },
+}
+
+export function openApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'YouTube Transcript Extractor API',
+      version: API_VERSION,
+      description: '유튜브 영상·오디오 파일의 대본 추출 API. 모든 요청에 X-API-Key 헤더가 필요합니다.',
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/transcripts': {
+        post: {
+          summary: '영상 대본 추출 (완료까지 기다림)',
+          requestBody: { required: true, content: { 'application/json': { schema: ref('ExtractRequest') } } },
+          responses: {
+            200: dataResponse('추출 결과', ref('Transcript')),
+            ...commonErrors,
+            404: errorResponse('영상을 찾을 수 없음 (not_found)'),
+            ...rateLimited,
+          },
+        },
+      },
+      '/jobs': {
+        post: {
+          summary: '백그라운드 추출 작업 생성',
+          description: '긴 영상이나 파일 업로드는 작업을 만든 뒤 GET /jobs/{id}로 상태를 확인합니다.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: ref('ExtractRequest') },
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['file'],
+                  properties: {
+                    file: { type: 'string', format: 'binary', description: '오디오 또는 영상 (MP3, M4A, WAV, OGG, OPUS, FLAC, MP4, MOV, WebM 등)' },
+                    language: { type: 'string', description: "인식 언어 ('auto'면 자동 감지)" },
+                    provider: { type: 'string', enum: ['openai', 'local'] },
+                    diarize: { type: 'string', enum: ['true', 'false'] },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            202: dataResponse('생성된 작업', ref('Job')),
+            ...commonErrors,
+            ...rateLimited,
+          },
+        },
+      },
+      '/jobs/{id}': {
+        get: {
+          summary: '작업 상태',
+          parameters: [idParameter],
+          responses: {
+            200: dataResponse('작업', ref('Job')),
+            ...commonErrors,
+            404: errorResponse('작업 없음 (not_found)'),
+          },
+        },
+      },
+      '/history': {
+        get: {
+          summary: '저장된 기록 목록 (최신순)',
+          parameters: [
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+            { name: 'cursor', in: 'query', schema: { type: 'string' }, description: '이전 응답의 pagination.nextCursor' },
+          ],
+          responses: {
+            200: {
+              description: '기록 목록',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    required: ['data', 'pagination'],
+                    properties: {
+                      data: { type: 'array', items: ref('HistoryItem') },
+                      pagination: {
+                        type: 'object',
+                        properties: {
+                          limit: { type: 'integer' },
+                          nextCursor: { type: ['string', 'null'], description: '마지막 페이지면 null' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            ...commonErrors,
+          },
+        },
+      },
+      '/history/{id}': {
+        get: {
+          summary: '기록 상세 (대본 포함)',
+          parameters: [idParameter],
+          responses: {
+            200: dataResponse('기록', ref('HistoryDetail')),
+            ...commonErrors,
+            404: errorResponse('기록 없음 (not_found)'),
+          },
+        },
+      },
+      '/history/{id}/export': {
+        get: {
+          summary: '파일로 내보내기',
+          parameters: [
+            idParameter,
+            { name: 'format', in: 'query', schema: { type: 'string', enum: EXPORT_FORMATS, default: 'txt' } },
+            { name: 'translation', in: 'query', schema: { type: 'string' }, description: '번역 언어 코드 (원문과 함께 이중 자막)' },
+          ],
+          responses: {
+            200: { description: '대본 파일', content: { 'text/plain': { schema: { type: 'string' } } } },
+            ...commonErrors,
+            404: errorResponse('기록 또는 번역 없음 (not_found)'),
+          },
+        },
+      },
+    },
+    // 등록은 웹 화면(또는 /api/webhooks)에서, 서명은 X-Webhook-Signature: t=<초>,v1=HMAC-SHA256(secret, "<t>.<본문>")
+    webhooks: Object.fromEntries(WEBHOOK_EVENTS.map(event => [event, {
+      post: {
+        summary: event === 'transcript.completed' ? '추출 완료 알림' : '추출 실패 알림',
+        parameters: [
+          { name: 'X-Webhook-Id', in: 'header', schema: { type: 'string' }, description: '전송 ID (재시도해도 같음)' },
+          { name: 'X-Webhook-Event', in: 'header', schema: { type: 'string', enum: WEBHOOK_EVENTS } },
+          { name: 'X-Webhook-Signature', in: 'header', schema: { type: 'string' }, description: 't=<unix 초>,v1=<hex>' },
+        ],
+        requestBody: { content: { 'application/json': { schema: ref('WebhookPayload') } } },
+        responses: {
+          200: { description: '2xx로 응답하면 성공, 그 외에는 간격을 늘려가며 다시 보냄' },
+        },
+      },
+    }])),
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas,
+    },
+  }
+}
@@ -0,0 +1,336 @@
+import { readFile, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import { extractAudio, FfmpegMissingError, getAudioDuration, withTempDir } from './audio'
+import type { Owner } from './auth'
+import { CACHE_TTL, cached, CachedValue } from './cache'
+import { AudioInput, transcribeAudio } from './chunking'
+import { diarizationAvailable, diarizeSegments } from './diarization'
+import { saveHistory, SaveHistoryInput } from './history'
+import { AUTO_LANGUAGE, DEFAULT_LANGUAGES, isLanguageCode } from './languages'
+import { joinTranscript } from './transcript'
+import { getTranscriptionProvider, TranscriptionProvider } from './transcription'
+import { audioFileName, downloadAudio, getAudioResolvers, resolveAudioSource } from './audioSource'
+import { fileExtension, isSupportedUpload, MAX_UPLOAD_SIZE, needsAudioExtraction, UPLOAD_FORMATS_LABEL } from './uploadFormats'
+import { getVideoInfo, listCaptionTracks, tryGetSubtitles, VIDEO_ID_PATTERN } from './youtube'
+import type { CaptionTrack, TranscriptResult, TranscriptSegment, VideoInfo } from './types'
+
+// 라우트에서 그대로 HTTP 상태 코드로 쓰는 에러
+export class PipelineError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'PipelineError'
+  }
+}
+
+export type ProgressStage = 'fetching_captions' | 'downloading_audio' | 'extracting_audio' | 'transcribing' | 'diarizing'
+
+export interface ProgressInfo {
+  current: number
+  total: number
+}
+
+export type ProgressHandler = (stage: ProgressStage, progress?: ProgressInfo) => void | Promise<void>
+
+export interface ExtractOptions {
+  // 선호하는 자막 언어 순서 (첫 번째 언어는 Whisper 인식 언어로도 사용)
+  languages?: string[]
+  // true면 캐시를 무시하고 새로 가져옴
+  force?: boolean
+  // 음성 인식 provider ('openai' | 'local', 없으면 기본값)
+  provider?: string | null
+  // 음성 인식 결과에 화자 구분 추가 (자막으로 추출한 경우는 제외)
+  diarize?: boolean
+  // 기록을 저장할 사용자/워크스페이스 (로그인이 꺼져 있으면 없음)
+  owner?: Owner | null
+  onProgress?: ProgressHandler
+}
+
+export interface UploadOptions {
+  // Whisper 인식 언어, 'auto'면 자동 감지
+  language?: string
+  provider?: string | null
+  diarize?: boolean
+  owner?: Owner | null
+  onProgress?: ProgressHandler
+}
+
+export function assertVideoId(videoId: unknown): asserts videoId is string {
+  if (!videoId || typeof videoId !== 'string') {
+    throw new PipelineError('유효한 비디오 ID가 필요합니다', 400)
+  }
+
+  if (!VIDEO_ID_PATTERN.test(videoId)) {
+    throw new PipelineError('올바른 YouTube 비디오 ID 형식이 아닙니다', 400)
+  }
+}
+
+function assertProvider(provider: TranscriptionProvider) {
+  if (!provider.isConfigured()) {
+    throw new PipelineError(
+      provider.name === 'local' ? '로컬 Whisper 서버가 설정되지 않았습니다' : 'OpenAI API 키가 설정되지 않았습니다',
+      500
+    )
+  }
+}
+
+// 화자 구분을 요청했는데 화자 분리 서버가 없으면 400 (임의의 화자 라벨을 붙이지 않음)
+export function assertDiarization(diarize?: boolean) {
+  if (diarize && !diarizationAvailable()) {
+    throw new PipelineError('화자 구분을 사용할 수 없습니다 (화자 분리 서버가 설정되지 않았습니다)', 400)
+  }
+}
+
+export function assertUploadProvider(provider?: string | null) {
+  assertProvider(getTranscriptionProvider(provider))
+}
+
+export function assertUploadFile(file: File | null, provider?: string | null): asserts file is File {
+  assertUploadProvider(provider)
+
+  if (!file) {
+    throw new PipelineError('파일이 없습니다', 400)
+  }
+
+  // 파일 크기 체크 (200MB)
+  if (file.size > MAX_UPLOAD_SIZE) {
+    throw new PipelineError('파일 크기는 200MB 이하여야 합니다', 400)
+  }
+
+  // 파일 타입 체크 (영상은 서버에서 오디오만 추출)
+  if (!isSupportedUpload(file.name, file.type)) {
+    throw new PipelineError(`지원하지 않는 파일 형식입니다. ${UPLOAD_FORMATS_LABEL} 파일을 업로드해주세요.`, 400)
+  }
+}
+
+interface WhisperResult {
+  transcript: TranscriptSegment[]
+  language: string | null
+}
+
+// 선택한 provider로 음성 인식 (크기 제한을 넘으면 청크로 나눠서)
+async function transcribeWithWhisper(
+  data: Buffer,
+  fileName: string,
+  mimeType: string,
+  language: string,
+  provider: TranscriptionProvider,
+  onProgress?: ProgressHandler
+): Promise<WhisperResult> {
+  const autoDetect = language === AUTO_LANGUAGE || !isLanguageCode(language)
+  let detected: string | null = null
+
+  const transcript = await transcribeAudio(
+    { data, fileName, mimeType },
+    async (audioFile) => {
+      const transcription = await provider.transcribe(audioFile, autoDetect ? null : language)
+      detected = detected ?? transcription.language
+      return transcription.segments
+    },
+    {
+      maxBytes: provider.maxBytes,
+      onProgress: (current, total) => onProgress?.('transcribing', { current, total }),
+    }
+  )
+
+  return { transcript, language: autoDetect ? detected : language }
+}
+
+// 화자 구분 (오디오를 못 받거나 실패하면 화자 없이 그대로)
+async function withSpeakers(audio: () => Promise<AudioInput>, whisper: WhisperResult, onProgress?: ProgressHandler): Promise<WhisperResult> {
+  try {
+    const input = await audio()
+    await onProgress?.('diarizing')
+    return { ...whisper, transcript: await diarizeSegments(input, whisper.transcript) }
+  } catch (error) {
+    console.error('Diarization error:', error)
+    return whisper
+  }
+}
+
+// 기록 저장 (실패해도 결과는 반환)
+async function finish(input: SaveHistoryInput, owner: Owner | null, captionTracks?: CaptionTrack[], fromCache = false): Promise<TranscriptResult> {
+  let historyId: string | null = null
+  try {
+    historyId = await saveHistory(input, owner)
+  } catch (error) {
+    console.error('History save error:', error)
+  }
+
+  return { ...input, captionTracks, historyId, cached: fromCache }
+}
+
+// 유튜브 영상: 자막 → 없으면 Whisper
+export async function extractVideo(videoId: string, options: ExtractOptions = {}): Promise<TranscriptResult> {
+  assertVideoId(videoId)
+  assertDiarization(options.diarize)
+
+  const { onProgress, force = false, diarize = false, owner = null } = options
+  const languages = options.languages?.length ? options.languages : DEFAULT_LANGUAGES
+
+  // 영상 정보 가져오기
+  let videoInfo: VideoInfo
+  try {
+    videoInfo = (await cached(`video:${videoId}:info`, CACHE_TTL.videoInfo, () => getVideoInfo(videoId), force)).value
+  } catch {
+    throw new PipelineError('영상을 찾을 수 없습니다. URL을 확인해주세요.', 404)
+  }
+
+  // 1. 먼저 유튜브 자막 시도
+  await onProgress?.('fetching_captions')
+  const tracks = await cached(
+    `video:${videoId}:tracks`,
+    CACHE_TTL.captionTracks,
+    async () => {
+      const found = await listCaptionTracks(videoId)
+      return found.length > 0 ? found : null
+    },
+    force
+  )
+  const captionTracks = tracks.value ?? []
+
+  const subtitles = await cached(
+    `video:${videoId}:captions:${languages.join(',')}`,
+    CACHE_TTL.captions,
+    async () => {
+      const found = await tryGetSubtitles(videoId, languages, captionTracks)
+      return found && found.transcript.length > 0 ? found : null
+    },
+    force
+  )
+
+  if (subtitles.value) {
+    return finish({
+      videoInfo,
+      transcript: subtitles.value.transcript,
+      fullText: joinTranscript(subtitles.value.transcript),
+      source: 'captions',
+      language: subtitles.value.language,
+    }, owner, captionTracks, subtitles.hit)
+  }
+
+  // 2. 자막 없으면 Whisper AI로 음성 인식
+  const provider = getTranscriptionProvider(options.provider)
+  if (!provider.isConfigured() || getAudioResolvers().length === 0) {
+    throw new PipelineError('이 영상에는 자막이 없습니다. "파일 업로드" 탭을 이용해주세요.', 400)
+  }
+
+  const loadAudio = async (): Promise<AudioInput> => {
+    await onProgress?.('downloading_audio')
+    const source = await resolveAudioSource(videoId)
+    return { data: await downloadAudio(source), fileName: audioFileName(source), mimeType: source.mimeType }
+  }
+
+  let whisper: CachedValue<WhisperResult>
+  try {
+    // 캐시는 화자 없는 결과만 (화자 구분이 실패한 결과가 캐시되지 않게 화자 구분은 캐시 밖에서,
+    // 캐시에서 가져왔으면 오디오만 다시 받음)
+    let audio: AudioInput | null = null
+    whisper = await cached(`video:${videoId}:whisper:${provider.name}:${languages[0]}`, CACHE_TTL.whisper, async () => {
+      audio = await loadAudio()
+      return transcribeWithWhisper(audio.data, audio.fileName, audio.mimeType, languages[0], provider, onProgress)
+    }, force)
+
+    if (diarize) {
+      whisper = { ...whisper, value: await withSpeakers(async () => audio ?? loadAudio(), whisper.value, onProgress) }
+    }
+  } catch (error) {
+    console.error('Whisper Error:', error)
+    const errorMessage = error instanceof Error ? error.message : '음성 인식에 실패했습니다'
+    throw new PipelineError(errorMessage, 500)
+  }
+
+  return finish({
+    videoInfo,
+    transcript: whisper.value.transcript,
+    fullText: joinTranscript(whisper.value.transcript),
+    source: 'whisper',
+    language: whisper.value.language,
+  }, owner, captionTracks, whisper.hit)
+}
+
+interface PreparedUpload extends AudioInput {
+  // 파일 길이 (초, ffmpeg가 없으면 null)
+  duration: number | null
+}
+
+// 영상이나 Whisper가 받지 않는 형식, 또는 provider 크기 제한을 넘는 파일은
+// 오디오만 MP3로 뽑고, 길이를 확인
+async function prepareAudioFile(
+  input: string,
+  fileName: string,
+  mimeType: string,
+  maxBytes: number,
+  onProgress?: ProgressHandler
+): Promise<PreparedUpload> {
+  const mustConvert = needsAudioExtraction(fileName, mimeType)
+  const original = async (duration: number | null): Promise<PreparedUpload> =>
+    ({ data: await readFile(input), fileName, mimeType, duration })
+
+  try {
+    const duration = await getAudioDuration(input).catch(error => {
+      if (error instanceof FfmpegMissingError) throw error
+      return null
+    })
+    const { size } = await stat(input)
+    if (!mustConvert && size <= maxBytes) return await original(duration)
+
+    await onProgress?.('extracting_audio')
+    return await withTempDir(async (dir) => {
+      const output = path.join(dir, 'audio.mp3')
+      await extractAudio(input, output)
+
+      return {
+        data: await readFile(output),
+        fileName: `${path.parse(fileName).name || 'audio'}.mp3`,
+        mimeType: 'audio/mpeg',
+        duration,
+      }
+    })
+  } catch (error) {
+    // ffmpeg가 없어도 Whisper가 받는 형식이면 그대로 진행
+    if (error instanceof FfmpegMissingError) {
+      if (!mustConvert) return original(null)
+      throw new PipelineError(error.message, 500)
+    }
+    console.error('Audio extraction error:', error)
+    throw new PipelineError('파일에서 오디오를 추출하지 못했습니다. 오디오가 들어 있는 파일인지 확인해주세요', 400)
+  }
+}
+
+// 디스크에 있는 파일: (필요하면 오디오 추출) → Whisper
+async function transcribeFile(input: string, fileName: string, mimeType: string, options: UploadOptions): Promise<TranscriptResult> {
+  assertDiarization(options.diarize)
+  const provider = getTranscriptionProvider(options.provider)
+  const audio = await prepareAudioFile(input, fileName, mimeType, provider.maxBytes, options.onProgress)
+  const transcribed = await transcribeWithWhisper(audio.data, audio.fileName, audio.mimeType, options.language ?? AUTO_LANGUAGE, provider, options.onProgress)
+  const whisper = options.diarize
+    ? await withSpeakers(async () => audio, transcribed, options.onProgress)
+    : transcribed
+
+  const result = await finish({
+    fileName,
+    transcript: whisper.transcript,
+    fullText: joinTranscript(whisper.transcript),
+    source: 'upload',
+    language: whisper.language,
+  }, options.owner ?? null)
+
+  return { ...result, duration: audio.duration }
+}
+
+// 업로드 파일: 임시 파일로 저장한 뒤 음성 인식
+export async function transcribeUpload(file: File, options: UploadOptions = {}): Promise<TranscriptResult> {
+  assertUploadFile(file, options.provider)
+
+  return withTempDir(async (dir) => {
+    const input = path.join(dir, `input.${fileExtension(file.name) || 'bin'}`)
+    await writeFile(input, Buffer.from(await file.arrayBuffer()))
+    return transcribeFile(input, file.name, file.type, options)
+  })
+}
+
+// 나눠 올리기로 서버에 다 모인 파일 (lib/uploads.ts)
+export async function transcribeStoredUpload(input: string, fileName: string, mimeType: string, options: UploadOptions = {}): Promise<TranscriptResult> {
+  assertUploadProvider(options.provider)
+  return transcribeFile(input, fileName, mimeType, options)
+}
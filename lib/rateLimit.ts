@@ -0,0 +1,78 @@
+import { getSupabase } from './supabase'
+import { memoryCollection } from './memory'
+
+// 음성 인식이 일어날 수 있는 요청 수 제한 (기본: 1분에 10번)
+const RATE_LIMIT_REQUESTS = Number(process.env.RATE_LIMIT_REQUESTS) || 10
+const RATE_LIMIT_WINDOW_SECONDS = Number(process.env.RATE_LIMIT_WINDOW_SECONDS) || 60
+
+// 요청 수 제한이나 하루 사용량을 넘었을 때 (429 + Retry-After)
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfter: number) {
+    super(message)
+    this.name = 'RateLimitError'
+  }
+}
+
+interface RateWindow {
+  count: number
+  resetAt: number
+}
+
+// key의 현재 창에서 몇 번째 요청인지 세고 창이 끝나는 시각을 반환
+interface RateLimitStore {
+  hit(key: string, windowSeconds: number): Promise<RateWindow>
+}
+
+function createMemoryStore(): RateLimitStore {
+  const windows = memoryCollection<RateWindow>('rate_limits')
+
+  return {
+    async hit(key, windowSeconds) {
+      const now = Date.now()
+      const current = windows.get(key)
+      const next = current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowSeconds * 1000 }
+      windows.set(key, next)
+      return next
+    },
+  }
+}
+
+// 동시에 들어온 요청도 정확히 세도록 DB 함수(hit_rate_limit)에서 한 번에 증가
+function createSupabaseStore(): RateLimitStore {
+  return {
+    async hit(key, windowSeconds) {
+      const { data, error } = await getSupabase()!
+        .rpc('hit_rate_limit', { p_key: key, p_window_seconds: windowSeconds })
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      const row = data as { count: number; reset_at: string }
+      return { count: row.count, resetAt: new Date(row.reset_at).getTime() }
+    },
+  }
+}
+
+function getRateLimitStore(): RateLimitStore {
+  return getSupabase() ? createSupabaseStore() : createMemoryStore()
+}
+
+// 제한을 넘으면 RateLimitError (저장소 오류면 막지 않고 통과)
+export async function checkRateLimit(subject: string): Promise<void> {
+  let window: RateWindow
+  try {
+    window = await getRateLimitStore().hit(subject, RATE_LIMIT_WINDOW_SECONDS)
+  } catch (error) {
+    console.error('Rate limit error:', error)
+    return
+  }
+
+  if (window.count > RATE_LIMIT_REQUESTS) {
+    const retryAfter = Math.max(1, Math.ceil((window.resetAt - Date.now()) / 1000))
+    throw new RateLimitError(`요청이 너무 많습니다. ${retryAfter}초 후에 다시 시도해주세요`, retryAfter)
+  }
+}
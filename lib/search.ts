@@ -0,0 +1,40 @@
+import type { TranscriptSegment } from './types'
+
+// 영상 하나에서 돌려주는 최대 구간 수
+export const MAX_HITS_PER_RESULT = 5
+
+// 검색어를 단어로 나눔 (따옴표 제거, 소문자, 중복 제거)
+export function searchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .replace(/["']/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+  return Array.from(new Set(terms))
+}
+
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase()
+  return terms.every(term => lower.includes(term))
+}
+
+// 검색어가 하나라도 들어 있는 세그먼트
+export function findHits(segments: TranscriptSegment[], terms: string[]): TranscriptSegment[] {
+  return segments.filter(segment => {
+    const lower = segment.text.toLowerCase()
+    return terms.some(term => lower.includes(term))
+  })
+}
+
+// 하이라이트용으로 텍스트를 일치/불일치 조각으로 나눔
+export function splitHighlights(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (terms.length === 0) return [{ text, match: false }]
+
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi')
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }))
+}
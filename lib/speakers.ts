@@ -0,0 +1,34 @@
+import type { TranscriptSegment } from './types'
+
+// 화자별 색 (Tailwind 클래스, 화자 순서대로 돌려 씀)
+const SPEAKER_COLORS = [
+  'text-sky-400',
+  'text-amber-400',
+  'text-emerald-400',
+  'text-fuchsia-400',
+  'text-orange-400',
+  'text-teal-400',
+]
+
+// 대본에 나오는 화자 라벨 (처음 나온 순서)
+export function speakerLabels(segments: TranscriptSegment[]): string[] {
+  const labels: string[] = []
+  for (const segment of segments) {
+    if (segment.speaker && !labels.includes(segment.speaker)) {
+      labels.push(segment.speaker)
+    }
+  }
+  return labels
+}
+
+// 이름을 바꾸지 않았으면 "화자 1" 형태
+export function speakerName(label: string, names: Record<string, string> = {}, labels: string[] = []): string {
+  if (names[label]?.trim()) return names[label].trim()
+  const index = labels.indexOf(label)
+  return `화자 ${index >= 0 ? index + 1 : label.replace(/^\D+/, '') || label}`
+}
+
+export function speakerColor(label: string, labels: string[]): string {
+  const index = Math.max(0, labels.indexOf(label))
+  return SPEAKER_COLORS[index % SPEAKER_COLORS.length]
+}
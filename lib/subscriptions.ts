@@ -0,0 +1,565 @@
+import { randomUUID } from 'crypto'
+import { waitUntil } from '@vercel/functions'
+import type { Owner } from './auth'
+import { getSupabase } from './supabase'
+import { memoryCollection } from './memory'
+import { mapWithConcurrency } from './concurrency'
+import { inScope, scoped, ScopedRow } from './history'
+import { listJobSummaries, queueJob, runJob } from './jobs'
+import { checkAudioQuota, UsageSubject } from './usage'
+import { fetchChannelFeed, resolveChannelId } from './youtube'
+
+// 워크스페이스(또는 사용자)당 구독할 수 있는 채널 수
+export const MAX_SUBSCRIPTIONS = 50
+
+// 한 번 확인할 때 작업으로 넘기는 최대 영상 수 (나머지는 다음 확인 때)
+const MAX_VIDEOS_PER_CHECK = Math.max(1, Number(process.env.SUBSCRIPTION_MAX_VIDEOS_PER_CHECK) || 10)
+const SUBSCRIPTION_CONCURRENCY = Math.max(1, Number(process.env.SUBSCRIPTION_CONCURRENCY) || 2)
+
+// 실패한 영상(예: 아직 시작 안 한 프리미어)은 다음 확인 때 이 횟수까지 다시 시도
+const MAX_ATTEMPTS = 3
+
+// 가져갔는데(processing) 작업을 만들기 전에 멈춘 영상은 이 시간이 지나면 다시 시도
+const PROCESSING_STALE_MS = 15 * 60 * 1000
+
+// 구독한 채널
+export interface Subscription {
+  id: string
+  channelId: string
+  title: string
+  createdAt: string
+  lastCheckedAt: string | null
+  // 마지막 확인 때 피드를 못 가져온 이유
+  lastError: string | null
+}
+
+export type SubscriptionVideoStatus = 'pending' | 'processing' | 'done' | 'failed'
+
+// 구독 채널에서 새로 발견한 영상 (피드 화면에 표시)
+export interface SubscriptionVideo {
+  id: string
+  subscriptionId: string
+  channelTitle: string
+  videoId: string
+  title: string
+  publishedAt: string
+  status: SubscriptionVideoStatus
+  historyId: string | null
+  error: string | null
+  createdAt: string
+}
+
+export interface CheckSummary {
+  checked: number
+  found: number
+  // 이번에 추출 작업을 시작한 영상 수
+  queued: number
+  // 지난 확인 뒤에 작업이 끝난 영상 수
+  transcribed: number
+  failed: number
+}
+
+export class SubscriptionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'SubscriptionError'
+  }
+}
+
+interface SubscriptionRow extends ScopedRow {
+  id: string
+  channel_id: string
+  title: string
+  created_at: string
+  last_checked_at: string | null
+  last_error: string | null
+}
+
+interface VideoRow {
+  id: string
+  subscription_id: string
+  video_id: string
+  title: string
+  published_at: string
+  status: SubscriptionVideoStatus
+  attempts: number
+  history_id: string | null
+  // 추출을 맡긴 transcription_jobs ID
+  job_id: string | null
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+type VideoChange = Partial<Pick<VideoRow, 'status' | 'history_id' | 'job_id' | 'error' | 'title'>>
+
+interface SubscriptionStore {
+  insert(row: Omit<SubscriptionRow, 'id' | 'created_at' | 'last_checked_at' | 'last_error'>): Promise<SubscriptionRow>
+  // owner가 null이면 전체 (cron, 로그인이 꺼진 경우)
+  list(owner: Owner | null): Promise<SubscriptionRow[]>
+  remove(owner: Owner | null, id: string): Promise<boolean>
+  markChecked(id: string, error: string | null): Promise<void>
+  videoIds(subscriptionId: string): Promise<Set<string>>
+  insertVideos(rows: Omit<VideoRow, 'id' | 'created_at' | 'updated_at' | 'status' | 'attempts' | 'history_id' | 'job_id' | 'error'>[]): Promise<void>
+  updateVideo(id: string, change: VideoChange): Promise<void>
+  // 작업 결과를 반영 (그 사이 다른 작업으로 바뀐 영상은 그대로)
+  settleVideo(id: string, jobId: string, change: VideoChange): Promise<void>
+  // 추출할 영상 (대기 중 + 다시 시도할 실패 + 작업을 만들기 전에 멈춘 영상)
+  listPending(subscriptionIds: string[], limit: number, staleBefore: string): Promise<VideoRow[]>
+  // 추출할 영상을 processing으로 바꾸고 시도 횟수를 올림 (cron과 지금 확인이 겹쳐도 한 곳만 true)
+  claimVideo(id: string, attempts: number, staleBefore: string): Promise<boolean>
+  // 작업에 맡겨서 결과를 기다리는 영상
+  listProcessing(subscriptionIds: string[]): Promise<VideoRow[]>
+  listVideos(subscriptionIds: string[], limit: number): Promise<VideoRow[]>
+}
+
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    id: row.id,
+    channelId: row.channel_id,
+    title: row.title,
+    createdAt: row.created_at,
+    lastCheckedAt: row.last_checked_at,
+    lastError: row.last_error,
+  }
+}
+
+function toVideo(row: VideoRow, channelTitle: string): SubscriptionVideo {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    channelTitle,
+    videoId: row.video_id,
+    title: row.title,
+    publishedAt: row.published_at,
+    status: row.status,
+    historyId: row.history_id,
+    error: row.error,
+    createdAt: row.created_at,
+  }
+}
+
+const retryable = (row: VideoRow, staleBefore: string) =>
+  row.status === 'pending' ||
+  (row.status === 'failed' && row.attempts < MAX_ATTEMPTS) ||
+  (row.status === 'processing' && !row.job_id && row.attempts < MAX_ATTEMPTS && row.updated_at < staleBefore)
+
+const awaitingJob = (row: VideoRow) => row.status === 'processing' && !!row.job_id
+
+function createMemoryStore(): SubscriptionStore {
+  const subscriptions = memoryCollection<SubscriptionRow>('channel_subscriptions')
+  const videos = memoryCollection<VideoRow>('subscription_videos')
+
+  const ofSubscriptions = (ids: string[]) => Array.from(videos.values())
+    .filter(row => ids.includes(row.subscription_id))
+
+  return {
+    async insert(input) {
+      const row: SubscriptionRow = { ...input, id: randomUUID(), created_at: new Date().toISOString(), last_checked_at: null, last_error: null }
+      subscriptions.set(row.id, row)
+      return row
+    },
+    async list(owner) {
+      return Array.from(subscriptions.values())
+        .filter(row => inScope(row, owner))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    },
+    async remove(owner, id) {
+      const row = subscriptions.get(id)
+      if (!row || !inScope(row, owner)) return false
+      subscriptions.delete(id)
+      videos.forEach((video, videoId) => {
+        if (video.subscription_id === id) videos.delete(videoId)
+      })
+      return true
+    },
+    async markChecked(id, error) {
+      const row = subscriptions.get(id)
+      if (row) subscriptions.set(id, { ...row, last_checked_at: new Date().toISOString(), last_error: error })
+    },
+    async videoIds(subscriptionId) {
+      return new Set(ofSubscriptions([subscriptionId]).map(row => row.video_id))
+    },
+    async insertVideos(rows) {
+      const now = new Date().toISOString()
+      for (const input of rows) {
+        const row: VideoRow = { ...input, id: randomUUID(), created_at: now, updated_at: now, status: 'pending', attempts: 0, history_id: null, job_id: null, error: null }
+        videos.set(row.id, row)
+      }
+    },
+    async updateVideo(id, change) {
+      const row = videos.get(id)
+      if (row) videos.set(id, { ...row, ...change, updated_at: new Date().toISOString() })
+    },
+    async settleVideo(id, jobId, change) {
+      const row = videos.get(id)
+      if (row && row.job_id === jobId) videos.set(id, { ...row, ...change, updated_at: new Date().toISOString() })
+    },
+    async listPending(subscriptionIds, limit, staleBefore) {
+      return ofSubscriptions(subscriptionIds)
+        .filter(row => retryable(row, staleBefore))
+        .sort((a, b) => a.published_at.localeCompare(b.published_at))
+        .slice(0, limit)
+    },
+    async claimVideo(id, attempts, staleBefore) {
+      const row = videos.get(id)
+      if (!row || row.attempts !== attempts || !retryable(row, staleBefore)) return false
+      videos.set(id, { ...row, status: 'processing', attempts: attempts + 1, job_id: null, updated_at: new Date().toISOString() })
+      return true
+    },
+    async listProcessing(subscriptionIds) {
+      return ofSubscriptions(subscriptionIds).filter(awaitingJob)
+    },
+    async listVideos(subscriptionIds, limit) {
+      return ofSubscriptions(subscriptionIds)
+        .sort((a, b) => b.published_at.localeCompare(a.published_at))
+        .slice(0, limit)
+    },
+  }
+}
+
+function createSupabaseStore(): SubscriptionStore {
+  const subscriptions = () => getSupabase()!.from('channel_subscriptions')
+  const videos = () => getSupabase()!.from('subscription_videos')
+
+  // retryable과 같은 조건
+  const retryableFilter = (staleBefore: string) =>
+    `status.eq.pending,and(status.eq.failed,attempts.lt.${MAX_ATTEMPTS}),and(status.eq.processing,job_id.is.null,attempts.lt.${MAX_ATTEMPTS},updated_at.lt.${staleBefore})`
+
+  return {
+    async insert(input) {
+      const { data, error } = await subscriptions()
+        .insert(input)
+        .select('*')
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      return data as SubscriptionRow
+    },
+    async list(owner) {
+      const { data, error } = await scoped(subscriptions().select('*'), owner)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as SubscriptionRow[]
+    },
+    async remove(owner, id) {
+      const { data, error } = await scoped(subscriptions().delete().eq('id', id), owner)
+        .select('id')
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []).length > 0
+    },
+    async markChecked(id, lastError) {
+      const { error } = await subscriptions()
+        .update({ last_checked_at: new Date().toISOString(), last_error: lastError })
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+    },
+    async videoIds(subscriptionId) {
+      const { data, error } = await videos()
+        .select('video_id')
+        .eq('subscription_id', subscriptionId)
+
+      if (error) {
+        throw error
+      }
+
+      return new Set((data || []).map(row => row.video_id as string))
+    },
+    async insertVideos(rows) {
+      if (rows.length === 0) return
+
+      // 동시에 확인해서 이미 들어간 영상은 건너뜀
+      const { error } = await videos()
+        .upsert(rows, { onConflict: 'subscription_id,video_id', ignoreDuplicates: true })
+
+      if (error) {
+        throw error
+      }
+    },
+    async updateVideo(id, change) {
+      const { error } = await videos()
+        .update({ ...change, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+    },
+    async settleVideo(id, jobId, change) {
+      const { error } = await videos()
+        .update({ ...change, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('job_id', jobId)
+
+      if (error) {
+        throw error
+      }
+    },
+    async listPending(subscriptionIds, limit, staleBefore) {
+      if (subscriptionIds.length === 0) return []
+
+      const { data, error } = await videos()
+        .select('*')
+        .in('subscription_id', subscriptionIds)
+        .or(retryableFilter(staleBefore))
+        .order('published_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as VideoRow[]
+    },
+    // 조건부 update라서 먼저 바꾼 쪽만 행을 돌려받음 (attempts가 이미 바뀌었으면 실패)
+    async claimVideo(id, attempts, staleBefore) {
+      const { data, error } = await videos()
+        .update({ status: 'processing', attempts: attempts + 1, job_id: null, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('attempts', attempts)
+        .or(retryableFilter(staleBefore))
+        .select('id')
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []).length > 0
+    },
+    async listProcessing(subscriptionIds) {
+      if (subscriptionIds.length === 0) return []
+
+      const { data, error } = await videos()
+        .select('*')
+        .in('subscription_id', subscriptionIds)
+        .eq('status', 'processing')
+        .not('job_id', 'is', null)
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as VideoRow[]
+    },
+    async listVideos(subscriptionIds, limit) {
+      if (subscriptionIds.length === 0) return []
+
+      const { data, error } = await videos()
+        .select('*')
+        .in('subscription_id', subscriptionIds)
+        .order('published_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as VideoRow[]
+    },
+  }
+}
+
+function getSubscriptionStore(): SubscriptionStore {
+  return getSupabase() ? createSupabaseStore() : createMemoryStore()
+}
+
+// 채널 구독 (구독한 뒤에 올라온 영상부터 추출)
+export async function subscribeChannel(input: unknown, owner: Owner | null): Promise<Subscription> {
+  if (typeof input !== 'string' || !input.trim()) {
+    throw new SubscriptionError('채널 URL이나 @핸들을 입력해주세요', 400)
+  }
+
+  let channelId: string | null
+  try {
+    channelId = await resolveChannelId(input)
+  } catch (error) {
+    throw new SubscriptionError(error instanceof Error ? error.message : '채널을 찾을 수 없습니다', 404)
+  }
+  if (!channelId) {
+    throw new SubscriptionError('채널 URL(/channel/UC..., @핸들)만 구독할 수 있습니다', 400)
+  }
+
+  const store = getSubscriptionStore()
+  const existing = await store.list(owner)
+  if (existing.some(row => row.channel_id === channelId)) {
+    throw new SubscriptionError('이미 구독한 채널입니다', 409)
+  }
+  if (existing.length >= MAX_SUBSCRIPTIONS) {
+    throw new SubscriptionError(`채널은 ${MAX_SUBSCRIPTIONS}개까지 구독할 수 있습니다`, 400)
+  }
+
+  // 피드를 읽을 수 있는 채널인지 확인하면서 채널 이름을 가져옴
+  let title: string
+  try {
+    title = (await fetchChannelFeed(channelId)).title
+  } catch (error) {
+    throw new SubscriptionError(error instanceof Error ? error.message : '채널 피드를 가져올 수 없습니다', 502)
+  }
+
+  const row = await store.insert({
+    user_id: owner?.userId ?? null,
+    workspace_id: owner?.workspaceId ?? null,
+    channel_id: channelId,
+    title,
+  })
+  return toSubscription(row)
+}
+
+export async function listSubscriptions(owner: Owner | null): Promise<Subscription[]> {
+  return (await getSubscriptionStore().list(owner)).map(toSubscription)
+}
+
+export async function unsubscribeChannel(owner: Owner | null, id: string): Promise<boolean> {
+  return getSubscriptionStore().remove(owner, id)
+}
+
+// 작업이 끝난 영상에 결과(기록 ID 또는 실패 이유)를 반영하고 바뀐 행을 돌려줌
+async function settleVideos(store: SubscriptionStore, rows: VideoRow[]): Promise<VideoRow[]> {
+  const waiting = rows.filter(awaitingJob)
+  if (waiting.length === 0) return rows
+
+  const jobs = new Map(
+    (await listJobSummaries(waiting.map(row => row.job_id!))).map(job => [job.id, job])
+  )
+  const settled = new Map<string, VideoRow>()
+
+  await Promise.all(waiting.map(async (row) => {
+    const job = jobs.get(row.job_id!)
+    let change: VideoChange
+    if (!job) {
+      change = { status: 'failed', error: '추출 작업을 찾을 수 없습니다' }
+    } else if (job.status === 'done') {
+      change = { status: 'done', history_id: job.historyId, title: job.title ?? row.title, error: null }
+    } else if (job.status === 'failed') {
+      change = { status: 'failed', error: job.error ?? '추출에 실패했습니다' }
+    } else {
+      return
+    }
+
+    try {
+      await store.settleVideo(row.id, row.job_id!, change)
+      settled.set(row.id, { ...row, ...change })
+    } catch (error) {
+      console.error('Subscription update error:', error)
+    }
+  }))
+
+  return rows.map(row => settled.get(row.id) ?? row)
+}
+
+// 구독 채널에서 새로 발견한 영상 (최신순)
+export async function listSubscriptionFeed(owner: Owner | null, limit = 50): Promise<SubscriptionVideo[]> {
+  const store = getSubscriptionStore()
+  const subscriptions = await store.list(owner)
+  const titles = new Map(subscriptions.map(row => [row.id, row.title]))
+
+  return (await settleVideos(store, await store.listVideos(subscriptions.map(row => row.id), limit)))
+    .map(row => toVideo(row, titles.get(row.subscription_id) ?? ''))
+}
+
+// 기록은 구독한 사용자/워크스페이스로 저장, 사용량도 그 사용자로
+function subscriptionOwner(row: SubscriptionRow): { owner: Owner | null; subject: UsageSubject } {
+  if (!row.user_id) {
+    return { owner: null, subject: { key: 'cron:subscriptions', userId: null } }
+  }
+  return {
+    owner: { userId: row.user_id, workspaceId: row.workspace_id },
+    subject: { key: `user:${row.user_id}`, userId: row.user_id },
+  }
+}
+
+// 피드에서 새 영상을 찾아 추출 작업(transcription_jobs)으로 넘기고, 끝난 작업의 결과를 반영
+// (owner가 null이면 전체 구독, cron에서 사용)
+export async function checkSubscriptions(owner: Owner | null): Promise<CheckSummary> {
+  const store = getSubscriptionStore()
+  const subscriptions = await store.list(owner)
+  const subscriptionIds = subscriptions.map(row => row.id)
+  const summary: CheckSummary = { checked: 0, found: 0, queued: 0, transcribed: 0, failed: 0 }
+
+  for (const subscription of subscriptions) {
+    try {
+      const feed = await fetchChannelFeed(subscription.channel_id)
+      const seen = await store.videoIds(subscription.id)
+      const subscribedAt = Date.parse(subscription.created_at)
+
+      const fresh = feed.videos.filter(video => !seen.has(video.videoId) && Date.parse(video.publishedAt) >= subscribedAt)
+      await store.insertVideos(fresh.map(video => ({
+        subscription_id: subscription.id,
+        video_id: video.videoId,
+        title: video.title,
+        published_at: video.publishedAt,
+      })))
+
+      summary.found += fresh.length
+      await store.markChecked(subscription.id, null)
+    } catch (error) {
+      console.error('Subscription feed error:', error)
+      await store.markChecked(subscription.id, error instanceof Error ? error.message : '피드를 가져오지 못했습니다')
+        .catch(markError => console.error('Subscription update error:', markError))
+    }
+    summary.checked += 1
+  }
+
+  // 실패한 작업은 시도 횟수가 남았으면 아래에서 다시 넘김
+  for (const row of await settleVideos(store, await store.listProcessing(subscriptionIds))) {
+    if (row.status === 'done') summary.transcribed += 1
+    if (row.status === 'failed') summary.failed += 1
+  }
+
+  const byId = new Map(subscriptions.map(row => [row.id, row]))
+  const staleBefore = new Date(Date.now() - PROCESSING_STALE_MS).toISOString()
+  const pending = await store.listPending(subscriptionIds, MAX_VIDEOS_PER_CHECK, staleBefore)
+  const jobIds: string[] = []
+
+  for (const video of pending) {
+    const { owner: videoOwner, subject } = subscriptionOwner(byId.get(video.subscription_id)!)
+
+    // 하루 사용량을 넘으면 시도 횟수를 쓰지 않고 다음 확인 때 다시
+    try {
+      await checkAudioQuota(subject)
+    } catch (error) {
+      await store.updateVideo(video.id, { error: error instanceof Error ? error.message : '사용량 한도를 넘었습니다' })
+        .catch(updateError => console.error('Subscription update error:', updateError))
+      continue
+    }
+
+    // 다른 확인(cron 또는 지금 확인)이 먼저 가져간 영상은 건너뜀
+    if (!await store.claimVideo(video.id, video.attempts, staleBefore)) continue
+
+    try {
+      const job = await queueJob(
+        { kind: 'video', videoId: video.video_id, provider: null },
+        { owner: videoOwner, subject, route: 'subscriptions' }
+      )
+      await store.updateVideo(video.id, { job_id: job.id, error: null })
+      jobIds.push(job.id)
+      summary.queued += 1
+    } catch (error) {
+      await store.updateVideo(video.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : '추출 작업을 만들지 못했습니다',
+      }).catch(updateError => console.error('Subscription update error:', updateError))
+      summary.failed += 1
+    }
+  }
+
+  // 응답 뒤에 실행 (여기서 끝내지 못한 작업은 /api/cron/jobs가 이어서 실행)
+  waitUntil(mapWithConcurrency(jobIds, SUBSCRIPTION_CONCURRENCY, async (id) => { await runJob(id) })
+    .catch(error => console.error('Subscription job error:', error)))
+
+  return summary
+}
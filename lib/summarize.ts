@@ -0,0 +1,159 @@
+import { mapWithConcurrency } from './concurrency'
+import { openai } from './openai'
+import { formatTime } from './transcript'
+import type { Chapter, TranscriptSegment, TranscriptSummary } from './types'
+
+const SUMMARY_MODEL = process.env.OPENAI_SUMMARY_MODEL || 'gpt-4o-mini'
+
+// 한 번에 보내는 대본 길이 (글자 수) / 동시에 보내는 요청 수
+const CHUNK_CHARS = 24000
+const CONCURRENCY = 3
+
+// 챕터 사이 최소 간격 (초)
+const MIN_CHAPTER_GAP = 10
+
+const SUMMARY_FORMAT = 'Return JSON {"summary":string,"keyPoints":string[],"chapters":[{"offset":number,"title":string}]}. '
+  + '"offset" is the start of the chapter in seconds, taken from the [seconds] markers. '
+  + 'Write everything in Korean.'
+
+interface RawSummary {
+  summary?: unknown
+  keyPoints?: unknown
+  chapters?: unknown
+}
+
+// 대본을 "[초] 텍스트" 줄로 만들어 글자 수 기준으로 나눔
+function chunkTranscript(segments: TranscriptSegment[]): string[] {
+  const chunks: string[] = []
+  let lines: string[] = []
+  let length = 0
+
+  for (const segment of segments) {
+    const line = `[${Math.floor(segment.offset)}] ${segment.text}`
+    if (length + line.length > CHUNK_CHARS && lines.length > 0) {
+      chunks.push(lines.join('\n'))
+      lines = []
+      length = 0
+    }
+    lines.push(line)
+    length += line.length + 1
+  }
+
+  if (lines.length > 0) {
+    chunks.push(lines.join('\n'))
+  }
+
+  return chunks
+}
+
+async function complete(system: string, user: string): Promise<RawSummary> {
+  if (!openai) {
+    throw new Error('OpenAI API 키가 설정되지 않았습니다')
+  }
+
+  const completion = await openai.chat.completions.create({
+    model: SUMMARY_MODEL,
+    temperature: 0.3,
+    response_format: { type: 'json_object' },
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: user },
+    ],
+  })
+
+  return JSON.parse(completion.choices[0]?.message?.content || '{}') as RawSummary
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+    : []
+}
+
+function toChapters(value: unknown): Chapter[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(item => item && typeof item.title === 'string' && Number.isFinite(Number(item.offset)))
+    .map(item => ({ offset: Number(item.offset), title: String(item.title).trim() }))
+}
+
+// 모델이 준 챕터를 실제 세그먼트 시작점에 맞추고 정렬
+function alignChapters(chapters: Chapter[], segments: TranscriptSegment[]): Chapter[] {
+  if (segments.length === 0) return []
+
+  const aligned = chapters
+    .map(chapter => {
+      const nearest = segments.reduce((best, segment) =>
+        Math.abs(segment.offset - chapter.offset) < Math.abs(best.offset - chapter.offset) ? segment : best
+      )
+      return { offset: nearest.offset, title: chapter.title }
+    })
+    .sort((a, b) => a.offset - b.offset)
+
+  const result: Chapter[] = []
+  for (const chapter of aligned) {
+    const previous = result[result.length - 1]
+    if (!chapter.title || (previous && chapter.offset - previous.offset < MIN_CHAPTER_GAP)) continue
+    result.push(chapter)
+  }
+
+  // 유튜브 챕터처럼 첫 챕터는 영상 시작
+  if (result.length > 0) {
+    result[0] = { ...result[0], offset: segments[0].offset }
+  }
+
+  return result
+}
+
+function toSummary(raw: RawSummary, segments: TranscriptSegment[]): TranscriptSummary {
+  return {
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+    keyPoints: toStrings(raw.keyPoints),
+    chapters: alignChapters(toChapters(raw.chapters), segments),
+  }
+}
+
+// 요약, 핵심 포인트, 챕터 생성 (길면 구간별로 요약한 뒤 합침)
+export async function summarizeTranscript(segments: TranscriptSegment[]): Promise<TranscriptSummary> {
+  const chunks = chunkTranscript(segments)
+
+  if (chunks.length === 1) {
+    const raw = await complete(
+      'You summarize video transcripts. Lines are prefixed with [seconds]. '
+      + 'Give a 3-5 sentence summary, 3-7 key points, and 3-10 chapters that cover the whole video, starting at the first line. '
+      + SUMMARY_FORMAT,
+      chunks[0]
+    )
+    return toSummary(raw, segments)
+  }
+
+  // map: 구간마다 요약과 챕터 후보
+  const partials: RawSummary[] = new Array(chunks.length)
+
+  await mapWithConcurrency(chunks, CONCURRENCY, async (chunk, index) => {
+    partials[index] = await complete(
+      'You summarize one part of a longer video transcript. Lines are prefixed with [seconds]. '
+      + 'Give a short summary of this part, its key points, and 1-4 chapters within this part. '
+      + SUMMARY_FORMAT,
+      chunk
+    )
+  })
+
+  // reduce: 구간 요약을 합쳐 전체 결과로
+  const parts = partials.map((partial, index) => [
+    `## Part ${index + 1}`,
+    typeof partial.summary === 'string' ? partial.summary : '',
+    ...toStrings(partial.keyPoints).map(point => `- ${point}`),
+    'Chapter candidates:',
+    ...toChapters(partial.chapters).map(chapter => `[${Math.floor(chapter.offset)}] ${chapter.title} (${formatTime(chapter.offset)})`),
+  ].join('\n'))
+
+  const raw = await complete(
+    'You combine summaries of consecutive parts of one video into a single result. '
+    + 'Give a 3-5 sentence summary of the whole video, 3-7 key points, and 3-10 chapters chosen or merged from the chapter candidates, keeping their [seconds] offsets. '
+    + SUMMARY_FORMAT,
+    parts.join('\n\n')
+  )
+
+  return toSummary(raw, segments)
+}
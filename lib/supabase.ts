@@ -0,0 +1,19 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+let client: SupabaseClient | null = null
+
+// Supabase가 설정되지 않은 경우 null
+export function getSupabase(): SupabaseClient | null {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+    return null
+  }
+
+  if (!client) {
+    client = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    )
+  }
+
+  return client
+}
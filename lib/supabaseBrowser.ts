@@ -0,0 +1,44 @@
+import { createClient, Session, SupabaseClient } from '@supabase/supabase-js'
+import { ACCESS_TOKEN_COOKIE, AUTH_ENABLED, WORKSPACE_COOKIE } from './authConfig'
+
+let client: SupabaseClient | null = null
+
+// 브라우저 로그인용 (anon key), 로그인이 꺼져 있거나 설정이 없으면 null
+export function getBrowserSupabase(): SupabaseClient | null {
+  if (!AUTH_ENABLED || !process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    return null
+  }
+
+  if (!client) {
+    client = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    )
+  }
+
+  return client
+}
+
+function setCookie(name: string, value: string, maxAge: number) {
+  const secure = window.location.protocol === 'https:' ? '; secure' : ''
+  document.cookie = `${name}=${encodeURIComponent(value)}; path=/; max-age=${maxAge}; samesite=lax${secure}`
+}
+
+// 세션이 바뀔 때마다(로그인, 토큰 갱신, 로그아웃) 쿠키에 access token을 맞춰 둠
+export function syncSessionCookie(session: Session | null) {
+  if (session) {
+    setCookie(ACCESS_TOKEN_COOKIE, session.access_token, session.expires_in)
+  } else {
+    setCookie(ACCESS_TOKEN_COOKIE, '', 0)
+  }
+}
+
+export function currentWorkspaceId(): string | null {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${WORKSPACE_COOKIE}=([^;]*)`))
+  return match ? decodeURIComponent(match[1]) || null : null
+}
+
+// null이면 개인 기록
+export function selectWorkspace(workspaceId: string | null) {
+  setCookie(WORKSPACE_COOKIE, workspaceId ?? '', workspaceId ? 365 * 24 * 60 * 60 : 0)
+}
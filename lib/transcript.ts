@@ -0,0 +1,166 @@
+import type { TranscriptSegment } from './types'
+
+/*
+ * 대본 세그먼트 공통 모델
+ *
+ * TranscriptSegment의 offset/duration은 항상 "초" 단위다.
+ * 소스마다 단위가 다르므로 반드시 아래 변환 함수를 거쳐서 만든다.
+ *  - youtube-transcript: srv3 포맷이면 밀리초(정수), 예전 포맷이면 초(실수)
+ *  - Whisper verbose_json: start/end 초
+ */
+
+// youtube-transcript가 반환하는 항목
+export interface CaptionItem {
+  text: string
+  offset: number
+  duration: number
+}
+
+// Whisper verbose_json 세그먼트
+export interface WhisperSegment {
+  text: string
+  start: number
+  end: number
+}
+
+export interface WhisperTranscription {
+  text?: string
+  segments?: WhisperSegment[]
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+function decodeOnce(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+// 자막 텍스트의 HTML 엔티티 디코딩 (&amp;#39; 처럼 이중 인코딩된 경우까지)
+export function decodeHtmlEntities(text: string): string {
+  let current = text
+  for (let i = 0; i < 3; i++) {
+    const decoded = decodeOnce(current)
+    if (decoded === current) break
+    current = decoded
+  }
+  return current
+}
+
+function normalizeText(text: string): string {
+  return decodeHtmlEntities(text).replace(/\s+/g, ' ').trim()
+}
+
+// 자막 줄의 길이 중앙값이 이 값보다 크면 밀리초로 판단 (초 단위 자막 한 줄이 60초를 넘는 일은 없음)
+const MS_DURATION_THRESHOLD = 60
+
+function captionsUseMilliseconds(items: CaptionItem[]): boolean {
+  const durations = items
+    .map(item => item.duration)
+    .filter(d => Number.isFinite(d) && d > 0)
+    .sort((a, b) => a - b)
+
+  if (durations.length === 0) {
+    // duration 정보가 없으면 offset이 모두 정수이고 큰 값인지로 판단
+    const offsets = items.map(item => item.offset)
+    return offsets.length > 1 && offsets.every(Number.isInteger) && Math.max(...offsets) > 10_000
+  }
+
+  return durations[Math.floor(durations.length / 2)] > MS_DURATION_THRESHOLD
+}
+
+// 밀리초 정밀도로 반올림한 초
+function toSeconds(value: number, perSecond: number): number {
+  return Math.round(((Number(value) || 0) / perSecond) * 1000) / 1000
+}
+
+// youtube-transcript 결과 → TranscriptSegment[] (초)
+export function fromCaptions(items: CaptionItem[]): TranscriptSegment[] {
+  const perSecond = captionsUseMilliseconds(items) ? 1000 : 1
+
+  return items
+    .map(item => ({
+      text: normalizeText(item.text),
+      offset: toSeconds(item.offset, perSecond),
+      duration: toSeconds(item.duration, perSecond),
+    }))
+    .filter(segment => segment.text.length > 0)
+}
+
+// Whisper verbose_json → TranscriptSegment[] (초)
+export function fromWhisper(transcription: WhisperTranscription): TranscriptSegment[] {
+  const segments = (transcription.segments || [])
+    .map(seg => ({
+      text: seg.text.trim(),
+      offset: seg.start,
+      duration: Math.max(0, seg.end - seg.start),
+    }))
+    .filter(segment => segment.text.length > 0)
+
+  // 세그먼트가 없으면 전체 텍스트를 하나의 세그먼트로
+  if (segments.length === 0 && transcription.text) {
+    return [{
+      text: transcription.text.trim(),
+      offset: 0,
+      duration: 0,
+    }]
+  }
+
+  return segments
+}
+
+export function joinTranscript(segments: TranscriptSegment[]): string {
+  return segments.map(s => s.text).join(' ')
+}
+
+// 초 → M:SS 또는 H:MM:SS
+export function formatTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const mins = Math.floor((total % 3600) / 60)
+  const secs = total % 60
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// 해당 시점으로 바로 이동하는 유튜브 링크
+export function youtubeTimeUrl(videoId: string, seconds: number): string {
+  return `https://youtube.com/watch?v=${videoId}&t=${Math.max(0, Math.floor(seconds))}s`
+}
+
+// seconds 시점에 재생 중인 세그먼트 (offset 순 정렬 가정, 시작 전이면 -1)
+export function activeSegmentIndex(segments: TranscriptSegment[], seconds: number): number {
+  let low = 0
+  let high = segments.length - 1
+  let found = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (segments[mid].offset <= seconds) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found
+}
+
+// 대본이 다루는 길이 (마지막 세그먼트 끝, 초)
+export function transcriptDuration(segments: TranscriptSegment[]): number {
+  return segments.reduce((end, segment) => Math.max(end, segment.offset + segment.duration), 0)
+}
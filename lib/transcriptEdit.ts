@@ -0,0 +1,81 @@
+import type { TranscriptSegment } from './types'
+
+// "1:02:03.5", "2:03", "123" → 초 (형식이 틀리면 null)
+export function parseTime(text: string): number | null {
+  const parts = text.trim().split(':')
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) {
+    return null
+  }
+  return parts.reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+export function updateSegment(segments: TranscriptSegment[], index: number, patch: Partial<TranscriptSegment>): TranscriptSegment[] {
+  return segments.map((segment, i) => i === index ? { ...segment, ...patch } : segment)
+}
+
+// position(글자 위치)에서 둘로 나눔, 시간은 글자 수 비율로 나눔
+export function splitSegment(segments: TranscriptSegment[], index: number, position?: number): TranscriptSegment[] {
+  const segment = segments[index]
+  if (!segment) return segments
+
+  const text = segment.text
+  let at = position ?? -1
+  // 위치가 없거나 양 끝이면 가운데에서 가까운 공백
+  if (at <= 0 || at >= text.length) {
+    const middle = Math.floor(text.length / 2)
+    const space = text.indexOf(' ', middle)
+    at = space > 0 ? space : middle
+  }
+
+  const first = text.slice(0, at).trim()
+  const second = text.slice(at).trim()
+  if (!first || !second) return segments
+
+  const ratio = first.length / (first.length + second.length)
+  const firstDuration = Math.round(segment.duration * ratio * 1000) / 1000
+
+  return [
+    ...segments.slice(0, index),
+    { ...segment, text: first, duration: firstDuration },
+    { ...segment, text: second, offset: segment.offset + firstDuration, duration: Math.max(0, Math.round((segment.duration - firstDuration) * 1000) / 1000) },
+    ...segments.slice(index + 1),
+  ]
+}
+
+// 다음 세그먼트와 합침 (화자는 앞 세그먼트 기준)
+export function mergeWithNext(segments: TranscriptSegment[], index: number): TranscriptSegment[] {
+  const segment = segments[index]
+  const next = segments[index + 1]
+  if (!segment || !next) return segments
+
+  const end = Math.max(segment.offset + segment.duration, next.offset + next.duration)
+
+  return [
+    ...segments.slice(0, index),
+    { ...segment, text: `${segment.text} ${next.text}`.trim(), duration: Math.max(0, end - segment.offset) },
+    ...segments.slice(index + 2),
+  ]
+}
+
+export function removeSegment(segments: TranscriptSegment[], index: number): TranscriptSegment[] {
+  return segments.filter((_, i) => i !== index)
+}
+
+// 저장 전에 시간 순으로 정렬하고 빈 세그먼트 제거
+export function normalizeSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments
+    .map(segment => ({ ...segment, text: segment.text.trim() }))
+    .filter(segment => segment.text)
+    .sort((a, b) => a.offset - b.offset)
+}
+
+// API로 받은 값이 세그먼트 배열인지 검사
+export function isSegmentList(value: unknown): value is TranscriptSegment[] {
+  return Array.isArray(value) && value.every(item =>
+    item
+    && typeof item.text === 'string'
+    && Number.isFinite(item.offset) && item.offset >= 0
+    && Number.isFinite(item.duration) && item.duration >= 0
+    && (item.speaker === undefined || typeof item.speaker === 'string')
+  )
+}
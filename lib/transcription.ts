@@ -0,0 +1,124 @@
+import { WHISPER_MAX_BYTES } from './audio'
+import { openai } from './openai'
+import { whisperLanguageCode } from './languages'
+import { fromWhisper, WhisperTranscription } from './transcript'
+import type { TranscriptSegment } from './types'
+
+export type TranscriptionProviderName = 'openai' | 'local'
+
+export const TRANSCRIPTION_PROVIDERS: TranscriptionProviderName[] = ['openai', 'local']
+
+// whisper.cpp server(/inference) 또는 OpenAI 호환 서버(faster-whisper 등, /v1/audio/transcriptions) 주소
+const LOCAL_WHISPER_URL = process.env.LOCAL_WHISPER_URL
+const LOCAL_WHISPER_MODEL = process.env.LOCAL_WHISPER_MODEL || 'whisper-1'
+const LOCAL_WHISPER_MAX_BYTES = Number(process.env.LOCAL_WHISPER_MAX_BYTES) || 100 * 1024 * 1024
+
+// 사용량 기록에 쓰는 분당 예상 비용 (USD)
+const OPENAI_WHISPER_COST_PER_MINUTE = Number(process.env.OPENAI_WHISPER_COST_PER_MINUTE) || 0.006
+const LOCAL_WHISPER_COST_PER_MINUTE = Number(process.env.LOCAL_WHISPER_COST_PER_MINUTE) || 0
+
+export interface ProviderTranscription {
+  segments: TranscriptSegment[]
+  // 서버가 인식한 언어 (모르면 null)
+  language: string | null
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName
+  // 이 크기를 넘으면 청크로 나눠서 보냄
+  maxBytes: number
+  // 오디오 1분당 예상 비용 (USD)
+  costPerMinute: number
+  isConfigured(): boolean
+  // language가 null이면 자동 감지
+  transcribe(file: File, language: string | null): Promise<ProviderTranscription>
+}
+
+const openaiProvider: TranscriptionProvider = {
+  name: 'openai',
+  maxBytes: WHISPER_MAX_BYTES,
+  costPerMinute: OPENAI_WHISPER_COST_PER_MINUTE,
+  isConfigured: () => openai !== null,
+  async transcribe(file, language) {
+    if (!openai) {
+      throw new Error('OpenAI API 키가 설정되지 않았습니다')
+    }
+
+    const transcription = await openai.audio.transcriptions.create({
+      file,
+      model: 'whisper-1',
+      ...(language ? { language } : {}),
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment'],
+    })
+
+    return {
+      segments: fromWhisper(transcription as WhisperTranscription),
+      language: whisperLanguageCode((transcription as { language?: string }).language),
+    }
+  },
+}
+
+const localProvider: TranscriptionProvider = {
+  name: 'local',
+  maxBytes: LOCAL_WHISPER_MAX_BYTES,
+  costPerMinute: LOCAL_WHISPER_COST_PER_MINUTE,
+  isConfigured: () => Boolean(LOCAL_WHISPER_URL),
+  async transcribe(file, language) {
+    if (!LOCAL_WHISPER_URL) {
+      throw new Error('로컬 Whisper 서버 주소(LOCAL_WHISPER_URL)가 설정되지 않았습니다')
+    }
+
+    // 두 서버 모두 같은 필드 이름을 받고 verbose_json으로 초 단위 segments를 돌려줌
+    const form = new FormData()
+    form.append('file', file)
+    form.append('model', LOCAL_WHISPER_MODEL)
+    form.append('response_format', 'verbose_json')
+    form.append('temperature', '0')
+    if (language) {
+      form.append('language', language)
+    }
+
+    const response = await fetch(LOCAL_WHISPER_URL, { method: 'POST', body: form })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new Error(`로컬 Whisper 서버 오류 (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`)
+    }
+
+    const transcription = await response.json() as WhisperTranscription & { language?: string }
+
+    return {
+      segments: fromWhisper(transcription),
+      language: whisperLanguageCode(transcription.language),
+    }
+  },
+}
+
+const PROVIDERS: Record<TranscriptionProviderName, TranscriptionProvider> = {
+  openai: openaiProvider,
+  local: localProvider,
+}
+
+export function isTranscriptionProviderName(value: unknown): value is TranscriptionProviderName {
+  return typeof value === 'string' && (TRANSCRIPTION_PROVIDERS as string[]).includes(value)
+}
+
+// 요청에서 고른 provider → TRANSCRIPTION_PROVIDER → 설정된 것 중 OpenAI 우선
+export function getTranscriptionProvider(name?: string | null): TranscriptionProvider {
+  if (isTranscriptionProviderName(name)) {
+    return PROVIDERS[name]
+  }
+
+  const configured = process.env.TRANSCRIPTION_PROVIDER
+  if (isTranscriptionProviderName(configured)) {
+    return PROVIDERS[configured]
+  }
+
+  return openaiProvider.isConfigured() || !localProvider.isConfigured() ? openaiProvider : localProvider
+}
+
+// 화면에서 고를 수 있는 provider 목록
+export function availableTranscriptionProviders(): TranscriptionProviderName[] {
+  return TRANSCRIPTION_PROVIDERS.filter(name => PROVIDERS[name].isConfigured())
+}
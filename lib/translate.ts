@@ -0,0 +1,85 @@
+import { mapWithConcurrency } from './concurrency'
+import { languageLabel } from './languages'
+import { openai } from './openai'
+import type { TranscriptSegment } from './types'
+
+const TRANSLATE_MODEL = process.env.OPENAI_TRANSLATE_MODEL || 'gpt-4o-mini'
+
+// 한 번에 보내는 세그먼트 수 / 동시에 보내는 요청 수
+const BATCH_SIZE = 40
+const CONCURRENCY = 3
+
+// 번역 대상 언어 이름 (모델 프롬프트용)
+const LANGUAGE_NAMES: Record<string, string> = {
+  ko: 'Korean',
+  en: 'English',
+  ja: 'Japanese',
+  zh: 'Simplified Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  vi: 'Vietnamese',
+}
+
+function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] ?? languageLabel(code)
+}
+
+async function translateBatch(texts: string[], targetLanguage: string): Promise<string[]> {
+  if (!openai) {
+    throw new Error('OpenAI API 키가 설정되지 않았습니다')
+  }
+
+  const input = texts.map((text, i) => ({ i, text }))
+
+  const completion = await openai.chat.completions.create({
+    model: TRANSLATE_MODEL,
+    temperature: 0.2,
+    response_format: { type: 'json_object' },
+    messages: [
+      {
+        role: 'system',
+        content: [
+          `You translate video subtitle lines into ${languageName(targetLanguage)}.`,
+          'Each line is a fragment of continuous speech; keep the meaning natural across lines but translate every line separately.',
+          'Return JSON {"translations":[{"i":number,"text":string}]} with exactly one entry per input line and the same "i" values.',
+        ].join(' '),
+      },
+      { role: 'user', content: JSON.stringify({ lines: input }) },
+    ],
+  })
+
+  const content = completion.choices[0]?.message?.content || '{}'
+  const parsed = JSON.parse(content) as { translations?: { i: number; text: string }[] }
+  const byIndex = new Map((parsed.translations || []).map(item => [item.i, item.text]))
+
+  // 빠진 줄은 원문 유지
+  return texts.map((text, i) => {
+    const translated = byIndex.get(i)
+    return typeof translated === 'string' && translated.trim() ? translated.trim() : text
+  })
+}
+
+// 세그먼트 단위로 번역 (offset/duration 유지)
+export async function translateSegments(segments: TranscriptSegment[], targetLanguage: string): Promise<TranscriptSegment[]> {
+  const batches: TranscriptSegment[][] = []
+  for (let i = 0; i < segments.length; i += BATCH_SIZE) {
+    batches.push(segments.slice(i, i + BATCH_SIZE))
+  }
+
+  const translated: string[][] = new Array(batches.length)
+
+  await mapWithConcurrency(batches, CONCURRENCY, async (batch, index) => {
+    const texts = batch.map(segment => segment.text)
+    try {
+      translated[index] = await translateBatch(texts, targetLanguage)
+    } catch (error) {
+      // 한 번 더 시도 (JSON 형식이 깨진 경우 등)
+      console.error('Translate batch error:', error)
+      translated[index] = await translateBatch(texts, targetLanguage)
+    }
+  })
+
+  const texts = translated.flat()
+  return segments.map((segment, i) => ({ ...segment, text: texts[i] ?? segment.text }))
+}
@@ -0,0 +1,100 @@
+export interface VideoInfo {
+  videoId: string
+  title: string
+  channelName: string
+  thumbnail: string
+}
+
+// offset/duration 단위는 초 (lib/transcript.ts 참고)
+export interface TranscriptSegment {
+  text: string
+  offset: number
+  duration: number
+  // 화자 구분을 했을 때만 있음 (예: 'S1')
+  speaker?: string
+}
+
+// 영상에 올라와 있는 자막 트랙
+export interface CaptionTrack {
+  languageCode: string
+  name: string
+  autoGenerated: boolean
+}
+
+// 챕터 시작 지점 (offset은 초)
+export interface Chapter {
+  offset: number
+  title: string
+}
+
+// AI 요약 결과
+export interface TranscriptSummary {
+  summary: string
+  keyPoints: string[]
+  chapters: Chapter[]
+}
+
+// 대본을 어디서 얻었는지 (유튜브 자막 / Whisper 음성 인식 / 파일 업로드)
+export type TranscriptSource = 'captions' | 'whisper' | 'upload'
+
+// 기록 목록에 표시되는 요약 정보
+export interface HistoryItem {
+  id: string
+  videoId: string | null
+  title: string
+  thumbnail: string | null
+  source: TranscriptSource
+  createdAt: string
+}
+
+// 저장된 대본 전체
+export interface HistoryDetail extends HistoryItem {
+  channelName: string | null
+  language: string | null
+  transcript: TranscriptSegment[]
+  fullText: string
+  // 언어 코드 → 번역된 세그먼트 (원본과 offset/duration이 같음)
+  translations: Record<string, TranscriptSegment[]>
+  summary: TranscriptSummary | null
+  // 화자 라벨 → 표시 이름
+  speakers: Record<string, string>
+  // 처음 수정하기 전의 대본 (수정한 적 없으면 null)
+  originalTranscript: TranscriptSegment[] | null
+  editedAt: string | null
+}
+
+// 검색 결과 (일치한 구간 포함)
+export interface SearchResult extends HistoryItem {
+  channelName: string | null
+  hits: TranscriptSegment[]
+  hitCount: number
+}
+
+// 추출 API 응답 (영상 또는 업로드 파일)
+export interface TranscriptResult {
+  videoInfo?: VideoInfo
+  fileName?: string
+  transcript: TranscriptSegment[]
+  fullText: string
+  source: TranscriptSource
+  // 자막 트랙 언어 또는 Whisper 인식 언어
+  language: string | null
+  captionTracks?: CaptionTrack[]
+  historyId: string | null
+  // 대본을 캐시에서 가져왔는지
+  cached?: boolean
+  // 업로드한 파일의 길이 (초, 알 수 없으면 null)
+  duration?: number | null
+}
+
+export type WorkspaceRole = 'owner' | 'member'
+
+// 기록을 함께 보는 팀 워크스페이스
+export interface Workspace {
+  id: string
+  name: string
+  role: WorkspaceRole
+  // 이 코드를 아는 사용자는 참여할 수 있음
+  inviteCode: string
+  createdAt: string
+}
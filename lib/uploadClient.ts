@@ -0,0 +1,181 @@
+// 큰 파일을 조각으로 나눠 올리기 (브라우저용, 끊기면 이어서 올림)
+
+export interface UploadProgress {
+  sent: number
+  total: number
+}
+
+export interface UploadJobOptions {
+  language?: string
+  provider?: string
+  diarize?: boolean
+}
+
+interface UploadStatus {
+  id: string
+  size: number
+  received: number
+  chunkSize: number
+}
+
+// 같은 파일을 다시 고르면 이 키로 이전 업로드를 찾음
+const RESUME_KEY_PREFIX = 'resumable-upload:'
+
+// 조각 하나가 연속으로 실패해도 다시 시도하는 횟수 (1, 2, 4, 8, 16초 간격)
+const MAX_RETRIES = 5
+
+class UploadRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'UploadRequestError'
+  }
+}
+
+function resumeKey(file: File): string {
+  return `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function requestUpload(path: string, init?: RequestInit): Promise<UploadStatus> {
+  const response = await fetch(path, { cache: 'no-store', ...init })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new UploadRequestError(data.error || '업로드에 실패했습니다', response.status)
+  }
+
+  return data.upload
+}
+
+// 이전에 올리다 만 업로드가 서버에 남아 있으면 그대로 사용
+async function findResumable(file: File): Promise<UploadStatus | null> {
+  const id = localStorage.getItem(resumeKey(file))
+  if (!id) return null
+
+  try {
+    const upload = await requestUpload(`/api/uploads/${id}`)
+    if (upload.size === file.size) return upload
+  } catch {
+    // 만료되었거나 지워진 업로드
+  }
+
+  localStorage.removeItem(resumeKey(file))
+  return null
+}
+
+async function sendChunk(file: File, upload: UploadStatus, offset: number): Promise<number> {
+  const response = await fetch(`/api/uploads/${upload.id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': String(offset),
+    },
+    body: file.slice(offset, offset + upload.chunkSize),
+  })
+  const data = await response.json()
+
+  // 서버와 위치가 어긋나면 서버가 알려준 위치부터 다시
+  if (response.status === 409 && typeof data.received === 'number') {
+    return data.received
+  }
+
+  if (!response.ok) {
+    throw new UploadRequestError(data.error || '파일 조각을 올리지 못했습니다', response.status)
+  }
+
+  return data.upload.received
+}
+
+// 파일을 다 올리고 업로드 ID를 반환
+export async function uploadFile(file: File, onProgress: (progress: UploadProgress) => void): Promise<string> {
+  const upload = await findResumable(file) ?? await requestUpload('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName: file.name, mimeType: file.type, size: file.size }),
+  })
+  localStorage.setItem(resumeKey(file), upload.id)
+
+  let received = upload.received
+  let failures = 0
+  onProgress({ sent: received, total: file.size })
+
+  while (received < file.size) {
+    try {
+      received = await sendChunk(file, upload, received)
+      failures = 0
+      onProgress({ sent: received, total: file.size })
+    } catch (error) {
+      // 요청이 잘못된 경우(4xx)는 다시 해도 같으므로 바로 실패
+      if (error instanceof UploadRequestError && error.status < 500 && error.status !== 429) {
+        throw error
+      }
+
+      failures += 1
+      if (failures > MAX_RETRIES) {
+        throw new Error('업로드가 중단되었습니다. 같은 파일을 다시 선택하면 이어서 올립니다')
+      }
+
+      await delay(1000 * 2 ** (failures - 1))
+      received = await requestUpload(`/api/uploads/${upload.id}`).then(status => status.received, () => received)
+    }
+  }
+
+  return upload.id
+}
+
+// 다 올린 파일로 음성 인식 작업을 만들고 작업 ID를 반환
+export async function startUploadJob(file: File, uploadId: string, options: UploadJobOptions): Promise<string> {
+  const response = await fetch(`/api/uploads/${uploadId}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || '작업을 시작하지 못했습니다')
+  }
+
+  localStorage.removeItem(resumeKey(file))
+  return data.jobId
+}
+
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return [await readFileEntry(entry as FileSystemFileEntry)]
+  }
+
+  if (!entry.isDirectory) return []
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const children: FileSystemEntry[] = []
+  // readEntries는 빈 배열이 나올 때까지 나눠서 돌려줌
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    children.push(...batch)
+  }
+
+  return (await Promise.all(children.map(readEntry))).flat()
+}
+
+// 끌어다 놓은 파일 목록 (폴더면 하위 폴더까지 안의 파일 전부)
+export async function droppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // 이벤트가 끝나면 items를 읽을 수 없으므로 entry를 먼저 꺼내둠
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files)
+  }
+
+  return (await Promise.all(entries.map(readEntry))).flat()
+}
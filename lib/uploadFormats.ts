@@ -0,0 +1,45 @@
+// 업로드할 수 있는 파일 형식 (브라우저와 서버에서 같이 사용)
+
+// 업로드 최대 크기 (25MB를 넘으면 청크로 나눠서 인식)
+export const MAX_UPLOAD_SIZE = 200 * 1024 * 1024
+
+// 나눠 올리기(/api/uploads)로 받을 수 있는 최대 크기.
+// 추출할 때 조각을 임시 파일 하나로 합치므로 Vercel /tmp(512MB)에 변환한 오디오와 같이 들어가는 크기로 제한
+// (MP4/MOV는 ffmpeg가 파일 끝의 moov를 찾아 되돌아 읽어야 해서 stdin으로 흘려 넣을 수 없음)
+export const MAX_RESUMABLE_UPLOAD_SIZE = 400 * 1024 * 1024
+
+// 화면과 오류 메시지에 쓰는 최대 크기
+export const MAX_RESUMABLE_UPLOAD_LABEL = `${MAX_RESUMABLE_UPLOAD_SIZE / 1024 ** 2}MB`
+
+export const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'wav', 'ogg', 'oga', 'opus', 'flac', 'aac', 'weba']
+export const VIDEO_EXTENSIONS = ['mp4', 'mov', 'webm', 'mkv', 'm4v', 'avi']
+
+// Whisper에 그대로 보낼 수 있는 오디오 (나머지는 서버에서 MP3로 변환)
+const WHISPER_NATIVE_EXTENSIONS = ['mp3', 'm4a', 'wav', 'ogg', 'oga', 'flac']
+
+// <input accept>에 쓰는 값
+export const UPLOAD_ACCEPT = ['audio/*', 'video/*', ...[...AUDIO_EXTENSIONS, ...VIDEO_EXTENSIONS].map(ext => `.${ext}`)].join(',')
+
+export const UPLOAD_FORMATS_LABEL = 'MP3, M4A, WAV, OGG, OPUS, FLAC, MP4, MOV, WebM'
+
+export function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.')
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : ''
+}
+
+export function isVideoUpload(fileName: string, mimeType: string): boolean {
+  return mimeType.startsWith('video/') || VIDEO_EXTENSIONS.includes(fileExtension(fileName))
+}
+
+export function isSupportedUpload(fileName: string, mimeType: string): boolean {
+  const extension = fileExtension(fileName)
+  return mimeType.startsWith('audio/')
+    || mimeType.startsWith('video/')
+    || AUDIO_EXTENSIONS.includes(extension)
+    || VIDEO_EXTENSIONS.includes(extension)
+}
+
+// 영상이거나 Whisper가 받지 않는 형식이면 오디오만 뽑아서 변환
+export function needsAudioExtraction(fileName: string, mimeType: string): boolean {
+  return isVideoUpload(fileName, mimeType) || !WHISPER_NATIVE_EXTENSIONS.includes(fileExtension(fileName))
+}
@@ -0,0 +1,498 @@
+import { randomUUID } from 'crypto'
+import { appendFile, mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { getSupabase } from './supabase'
+import { fileExtension, isSupportedUpload, MAX_RESUMABLE_UPLOAD_LABEL, MAX_RESUMABLE_UPLOAD_SIZE, UPLOAD_FORMATS_LABEL } from './uploadFormats'
+
+// 나눠 올린 파일을 모으는 위치.
+// Supabase가 설정되어 있으면 Storage 버킷(uploads 테이블이 받은 위치를 관리)이라서 조각과 작업이 어느 인스턴스로 가도 됨.
+// 없으면 로컬 디스크(UPLOAD_DIR)라서 서버 인스턴스가 하나일 때만 동작 (로컬 실행이나 단일 서버 배포용)
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(tmpdir(), 'transcript-uploads')
+const UPLOAD_BUCKET = process.env.UPLOAD_BUCKET || 'uploads'
+
+// 한 번에 받는 조각 크기 (브라우저는 응답의 chunkSize를 따름)
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024
+
+// 이 시간 동안 이어 올리지 않은 업로드는 삭제
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number, public received?: number) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+interface UploadMeta {
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+  // 만든 사용자 (로그인이 꺼져 있으면 null)
+  userId: string | null
+  createdAt: string
+}
+
+export interface UploadSession extends UploadMeta {
+  // 지금까지 받은 바이트 (다음 조각의 시작 위치)
+  received: number
+  chunkSize: number
+  complete: boolean
+}
+
+export interface CreateUploadInput {
+  fileName: unknown
+  mimeType: unknown
+  size: unknown
+}
+
+interface UploadRecord {
+  meta: UploadMeta
+  received: number
+  // 이 업로드로 시작한 작업 (시작하는 중이면 '')
+  jobId: string | null
+}
+
+interface UploadStore {
+  create(meta: UploadMeta): Promise<void>
+  get(id: string): Promise<UploadRecord | null>
+  // offset이 지금까지 받은 크기와 같을 때만 이어 붙이고 새 크기를 돌려줌 (다르면 409와 현재 위치)
+  append(meta: UploadMeta, offset: number, chunk: Buffer): Promise<number>
+  // 작업 시작 표시 (처음 표시한 요청만 true)
+  claim(id: string): Promise<boolean>
+  release(id: string): Promise<void>
+  setJob(id: string, jobId: string): Promise<void>
+  // 다 받은 파일을 로컬 경로로 넘김 (끝나면 임시 파일 정리)
+  withFile<T>(meta: UploadMeta, run: (filePath: string) => Promise<T>): Promise<T>
+  remove(id: string): Promise<void>
+  removeExpired(expiredBefore: number): Promise<void>
+}
+
+const notFound = () => new UploadError('업로드를 찾을 수 없습니다', 404)
+
+// 원본 확장자를 유지 (ffmpeg/Whisper가 형식을 판단할 수 있게)
+const dataFileName = (meta: Pick<UploadMeta, 'fileName'>) => `data.${fileExtension(meta.fileName) || 'bin'}`
+
+// 서버 인스턴스가 하나일 때만 (조각과 작업이 같은 디스크를 봐야 함)
+function createDiskStore(): UploadStore {
+  const uploadDir = (id: string) => {
+    if (!ID_PATTERN.test(id)) throw notFound()
+    return path.join(UPLOAD_DIR, id)
+  }
+  const metaPath = (id: string) => path.join(uploadDir(id), 'meta.json')
+  const filePath = (meta: UploadMeta) => path.join(uploadDir(meta.id), dataFileName(meta))
+  // 작업을 시작하면 만드는 파일 (내용은 작업 ID)
+  const jobPath = (id: string) => path.join(uploadDir(id), 'job')
+
+  // 받은 크기는 파일 크기 그대로 (중간에 끊겨도 파일과 어긋나지 않음)
+  const received = (meta: UploadMeta) => stat(filePath(meta)).then(info => info.size, () => 0)
+
+  // 같은 업로드에 조각이 동시에 들어오면 순서대로 처리
+  const appendQueues = new Map<string, Promise<unknown>>()
+
+  const serialize = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const previous = appendQueues.get(id) ?? Promise.resolve()
+    const next = previous.catch(() => undefined).then(task)
+    appendQueues.set(id, next)
+    next.finally(() => {
+      if (appendQueues.get(id) === next) appendQueues.delete(id)
+    }).catch(() => undefined)
+    return next
+  }
+
+  const remove = async (id: string) => {
+    await rm(uploadDir(id), { recursive: true, force: true })
+  }
+
+  return {
+    async create(meta) {
+      await mkdir(uploadDir(meta.id), { recursive: true })
+      await writeFile(metaPath(meta.id), JSON.stringify(meta))
+      await writeFile(filePath(meta), '')
+    },
+    async get(id) {
+      let meta: UploadMeta
+      try {
+        meta = JSON.parse(await readFile(metaPath(id), 'utf8')) as UploadMeta
+      } catch {
+        return null
+      }
+      const jobId = await readFile(jobPath(id), 'utf8').catch(() => null)
+      return { meta, received: await received(meta), jobId }
+    },
+    append(meta, offset, chunk) {
+      return serialize(meta.id, async () => {
+        const current = await received(meta)
+        if (offset !== current) {
+          throw new UploadError('업로드 위치가 맞지 않습니다', 409, current)
+        }
+        await appendFile(filePath(meta), chunk)
+        return current + chunk.length
+      })
+    },
+    async claim(id) {
+      // wx: 이미 있으면 실패하므로 동시에 두 번 호출돼도 하나만 성공
+      return writeFile(jobPath(id), '', { flag: 'wx' }).then(() => true, () => false)
+    },
+    async release(id) {
+      await rm(jobPath(id), { force: true })
+    },
+    async setJob(id, jobId) {
+      // 작업이 벌써 끝나서 폴더를 지웠으면 남길 필요 없음
+      await writeFile(jobPath(id), jobId).catch(() => undefined)
+    },
+    async withFile(meta, run) {
+      return run(filePath(meta))
+    },
+    remove,
+    async removeExpired(expiredBefore) {
+      const entries = await readdir(UPLOAD_DIR).catch(() => [] as string[])
+
+      await Promise.all(entries.filter(id => ID_PATTERN.test(id)).map(async id => {
+        // 마지막으로 조각을 받은 시간 기준
+        const dir = path.join(UPLOAD_DIR, id)
+        const files = await readdir(dir).catch(() => [] as string[])
+        const times = await Promise.all(files.map(file => stat(path.join(dir, file)).then(info => info.mtimeMs, () => 0)))
+        if (Math.max(0, ...times) < expiredBefore) {
+          await remove(id).catch(error => console.error('Upload cleanup error:', error))
+        }
+      }))
+    },
+  }
+}
+
+interface UploadRow {
+  id: string
+  file_name: string
+  mime_type: string
+  size: number
+  received: number
+  user_id: string | null
+  job_id: string | null
+  started_at: string | null
+  created_at: string
+}
+
+// 조각은 Storage에 offset 이름으로 따로 저장하고, 받은 크기는 uploads 테이블에서 조건부 update로 늘림
+function createSupabaseStore(): UploadStore {
+  const table = () => getSupabase()!.from('uploads')
+  const bucket = () => getSupabase()!.storage.from(UPLOAD_BUCKET)
+
+  // 이름 순서가 offset 순서가 되게 자릿수를 맞춤
+  const chunkPath = (id: string, offset: number) => `${id}/${String(offset).padStart(12, '0')}`
+
+  const toRecord = (row: UploadRow): UploadRecord => ({
+    meta: {
+      id: row.id,
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      size: Number(row.size),
+      userId: row.user_id,
+      createdAt: row.created_at,
+    },
+    received: Number(row.received),
+    jobId: row.job_id ?? (row.started_at ? '' : null),
+  })
+
+  const get = async (id: string): Promise<UploadRecord | null> => {
+    if (!ID_PATTERN.test(id)) return null
+
+    const { data, error } = await table()
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data ? toRecord(data as UploadRow) : null
+  }
+
+  const listChunks = async (id: string): Promise<string[]> => {
+    const { data, error } = await bucket().list(id, { limit: 1000, sortBy: { column: 'name', order: 'asc' } })
+    if (error) {
+      throw error
+    }
+    return (data || []).map(object => object.name)
+  }
+
+  const remove = async (id: string) => {
+    const names = await listChunks(id)
+    if (names.length > 0) {
+      const { error } = await bucket().remove(names.map(name => `${id}/${name}`))
+      if (error) {
+        throw error
+      }
+    }
+
+    const { error } = await table().delete().eq('id', id)
+    if (error) {
+      throw error
+    }
+  }
+
+  return {
+    async create(meta) {
+      const { error } = await table().insert({
+        id: meta.id,
+        file_name: meta.fileName,
+        mime_type: meta.mimeType,
+        size: meta.size,
+        user_id: meta.userId,
+        created_at: meta.createdAt,
+      })
+
+      if (error) {
+        throw error
+      }
+    },
+    get,
+    async append(meta, offset, chunk) {
+      const current = await get(meta.id)
+      if (!current) throw notFound()
+      if (offset !== current.received) {
+        throw new UploadError('업로드 위치가 맞지 않습니다', 409, current.received)
+      }
+
+      // 같은 위치를 다시 보내면(재시도) 덮어씀
+      const { error: uploadError } = await bucket().upload(chunkPath(meta.id, offset), chunk, {
+        contentType: 'application/octet-stream',
+        upsert: true,
+      })
+      if (uploadError) {
+        throw uploadError
+      }
+
+      // 그 사이에 다른 요청이 위치를 옮겼으면 실패 (그 조각은 다음에 같은 위치로 오면 덮어씀)
+      const { data, error } = await table()
+        .update({ received: offset + chunk.length, updated_at: new Date().toISOString() })
+        .eq('id', meta.id)
+        .eq('received', offset)
+        .select('received')
+
+      if (error) {
+        throw error
+      }
+
+      if (!data?.length) {
+        const latest = await get(meta.id)
+        throw new UploadError('업로드 위치가 맞지 않습니다', 409, latest?.received ?? 0)
+      }
+
+      return offset + chunk.length
+    },
+    async claim(id) {
+      const { data, error } = await table()
+        .update({ started_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('started_at', null)
+        .select('id')
+
+      if (error) {
+        throw error
+      }
+
+      return Boolean(data?.length)
+    },
+    async release(id) {
+      const { error } = await table().update({ started_at: null }).eq('id', id)
+      if (error) {
+        throw error
+      }
+    },
+    async setJob(id, jobId) {
+      const { error } = await table().update({ job_id: jobId }).eq('id', id)
+      if (error) {
+        throw error
+      }
+    },
+    // 조각을 순서대로 받아서 임시 파일 하나로 합침 (ffmpeg/Whisper는 로컬 파일이 필요함)
+    async withFile(meta, run) {
+      const dir = path.join(tmpdir(), `upload-${meta.id}-${randomUUID()}`)
+      const filePath = path.join(dir, dataFileName(meta))
+      await mkdir(dir, { recursive: true })
+
+      try {
+        await writeFile(filePath, '')
+        let written = 0
+        for (const name of await listChunks(meta.id)) {
+          if (Number(name) !== written) continue
+          const { data, error } = await bucket().download(`${meta.id}/${name}`)
+          if (error || !data) {
+            throw error ?? new Error(`업로드 조각을 받지 못했습니다: ${name}`)
+          }
+          const chunk = Buffer.from(await data.arrayBuffer())
+          await appendFile(filePath, chunk)
+          written += chunk.length
+        }
+
+        if (written !== meta.size) {
+          throw new UploadError('업로드한 파일이 손상되었습니다', 409, written)
+        }
+
+        return await run(filePath)
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    },
+    remove,
+    async removeExpired(expiredBefore) {
+      const { data, error } = await table()
+        .select('id')
+        .lt('updated_at', new Date(expiredBefore).toISOString())
+
+      if (error) {
+        throw error
+      }
+
+      await Promise.all((data || []).map(row =>
+        remove(row.id).catch(error => console.error('Upload cleanup error:', error))
+      ))
+    },
+  }
+}
+
+function getUploadStore(): UploadStore {
+  return getSupabase() ? createSupabaseStore() : createDiskStore()
+}
+
+function toSession(record: UploadRecord): UploadSession {
+  return {
+    ...record.meta,
+    received: record.received,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    complete: record.received === record.meta.size,
+  }
+}
+
+// 다른 사용자의 업로드는 없는 것처럼
+async function getRecord(id: string, userId: string | null): Promise<UploadRecord> {
+  const record = await getUploadStore().get(id)
+  if (!record || (record.meta.userId && record.meta.userId !== userId)) {
+    throw notFound()
+  }
+  return record
+}
+
+export async function createUpload(input: CreateUploadInput, userId: string | null): Promise<UploadSession> {
+  const { fileName, mimeType, size } = input
+  if (typeof fileName !== 'string' || !fileName.trim()) {
+    throw new UploadError('파일 이름이 필요합니다', 400)
+  }
+  if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) {
+    throw new UploadError('파일 크기가 올바르지 않습니다', 400)
+  }
+  if (size > MAX_RESUMABLE_UPLOAD_SIZE) {
+    throw new UploadError(`파일 크기는 ${MAX_RESUMABLE_UPLOAD_LABEL} 이하여야 합니다`, 413)
+  }
+  const type = typeof mimeType === 'string' ? mimeType : ''
+  if (!isSupportedUpload(fileName, type)) {
+    throw new UploadError(`지원하지 않는 파일 형식입니다. ${UPLOAD_FORMATS_LABEL} 파일을 업로드해주세요.`, 400)
+  }
+
+  await cleanupExpiredUploads()
+
+  const meta: UploadMeta = {
+    id: randomUUID(),
+    fileName: fileName.trim().slice(0, 255),
+    mimeType: type,
+    size,
+    userId,
+    createdAt: new Date().toISOString(),
+  }
+
+  await getUploadStore().create(meta)
+  return toSession({ meta, received: 0, jobId: null })
+}
+
+// 한 번에 받은 파일(multipart)을 업로드로 저장 (작업을 실행하는 쪽에서 다시 읽을 수 있게)
+export async function saveUpload(file: File, userId: string | null): Promise<UploadSession> {
+  const session = await createUpload({ fileName: file.name, mimeType: file.type, size: file.size }, userId)
+  const data = Buffer.from(await file.arrayBuffer())
+
+  let received = 0
+  while (received < data.length) {
+    received = await getUploadStore().append(session, received, data.subarray(received, received + UPLOAD_CHUNK_SIZE))
+  }
+
+  return { ...session, received, complete: true }
+}
+
+export async function getUpload(id: string, userId: string | null): Promise<UploadSession> {
+  return toSession(await getRecord(id, userId))
+}
+
+// offset이 지금까지 받은 크기와 같을 때만 이어 붙임 (다르면 409와 현재 위치)
+export async function appendChunk(id: string, offset: number, chunk: Buffer, userId: string | null): Promise<UploadSession> {
+  const record = await getRecord(id, userId)
+
+  if (chunk.length > UPLOAD_CHUNK_SIZE) {
+    throw new UploadError(`조각 크기는 ${UPLOAD_CHUNK_SIZE / 1024 / 1024}MB 이하여야 합니다`, 413)
+  }
+  if (record.jobId !== null) {
+    throw new UploadError('이미 음성 인식을 시작한 업로드입니다', 409, record.received)
+  }
+  if (record.received + chunk.length > record.meta.size) {
+    throw new UploadError('파일 크기보다 많은 데이터를 받았습니다', 400, record.received)
+  }
+
+  const received = await getUploadStore().append(record.meta, offset, chunk)
+  return toSession({ ...record, received })
+}
+
+export async function removeUpload(id: string): Promise<void> {
+  await getUploadStore().remove(id)
+}
+
+// 다 받은 업로드를 가져옴 (음성 인식 작업을 만들 때)
+export async function getCompleteUpload(id: string, userId: string | null): Promise<UploadSession> {
+  const session = await getUpload(id, userId)
+  if (!session.complete) {
+    throw new UploadError('아직 업로드가 끝나지 않았습니다', 409, session.received)
+  }
+  return session
+}
+
+// 업로드 하나로 작업은 한 번만 시작 (완료 요청이 두 번 와도 처음 만든 작업 ID를 돌려줌)
+export async function startUploadJob(id: string, start: () => Promise<string>): Promise<string> {
+  const store = getUploadStore()
+
+  if (!await store.claim(id)) {
+    const record = await store.get(id)
+    if (record?.jobId) return record.jobId
+    throw new UploadError('이미 음성 인식을 시작하는 중입니다', 409)
+  }
+
+  let jobId: string
+  try {
+    jobId = await start()
+  } catch (error) {
+    // 시작하지 못했으면(사용량 초과 등) 다시 요청할 수 있게
+    await store.release(id).catch(releaseError => console.error('Upload release error:', releaseError))
+    throw error
+  }
+
+  await store.setJob(id, jobId)
+  return jobId
+}
+
+// 다 받은 업로드 파일을 로컬 경로로 넘겨서 실행 (작업 실행 쪽)
+export async function withUploadFile<T>(id: string, userId: string | null, run: (filePath: string, upload: UploadSession) => Promise<T>): Promise<T> {
+  const session = await getCompleteUpload(id, userId)
+  return getUploadStore().withFile(session, filePath => run(filePath, session))
+}
+
+// 오래된 업로드 정리 (새 업로드를 만들 때마다)
+export async function cleanupExpiredUploads(): Promise<void> {
+  await getUploadStore().removeExpired(Date.now() - UPLOAD_TTL_MS)
+}
+
+// API 응답에 쓰는 형태 (만든 사용자 ID는 빼고)
+export function uploadStatus(session: UploadSession) {
+  const { id, fileName, mimeType, size, received, chunkSize, complete, createdAt } = session
+  return { id, fileName, mimeType, size, received, chunkSize, complete, createdAt }
+}
@@ -0,0 +1,305 @@
+import { randomUUID } from 'crypto'
+import type { NextRequest } from 'next/server'
+import type { Owner } from './auth'
+import { getSupabase } from './supabase'
+import { memoryCollection } from './memory'
+import { checkRateLimit, RateLimitError } from './rateLimit'
+import { transcriptDuration } from './transcript'
+import { getTranscriptionProvider } from './transcription'
+import type { TranscriptResult, TranscriptSource } from './types'
+
+// 하루(UTC)에 음성 인식할 수 있는 오디오 길이 (분, 0이면 제한 없음)
+const DAILY_AUDIO_MINUTES = process.env.DAILY_AUDIO_MINUTES === undefined ? 120 : Number(process.env.DAILY_AUDIO_MINUTES)
+
+const REPORT_TOP_SUBJECTS = 20
+
+// 앞에 둔 리버스 프록시 수 (Vercel 밖에서 x-forwarded-for를 몇 단계까지 믿을지, 0이면 무시)
+const TRUSTED_PROXY_HOPS = Math.max(0, Number(process.env.TRUSTED_PROXY_HOPS) || 0)
+
+// 제한을 거는 단위 (로그인했으면 사용자, 아니면 IP)
+export interface UsageSubject {
+  key: string
+  userId: string | null
+}
+
+export interface UsageEntry {
+  id: string
+  subject: string
+  userId: string | null
+  // 요청이 들어온 API (youtube, transcribe, jobs, batch)
+  route: string
+  source: TranscriptSource | null
+  provider: string | null
+  // 캐시에서 가져온 결과는 비용 0, 하루 사용량에도 넣지 않음
+  cached: boolean
+  audioSeconds: number
+  costUsd: number
+  createdAt: string
+}
+
+type NewUsageEntry = Omit<UsageEntry, 'id' | 'createdAt'>
+
+// 합계 (audioSeconds는 캐시를 제외한 실제 음성 인식 시간)
+interface UsageSums {
+  requests: number
+  audioSeconds: number
+  costUsd: number
+}
+
+interface UsageStore {
+  add(entry: NewUsageEntry): Promise<void>
+  // since 이후 날짜(UTC)별 합계 (subject가 있으면 그 대상만)
+  daily(since: Date, subject?: string): Promise<(UsageSums & { date: string })[]>
+  // since 이후 비용이 많은 대상 순
+  topSubjects(since: Date, limit: number): Promise<(UsageSums & { subject: string })[]>
+}
+
+interface UsageSumsRow {
+  requests: number | string
+  audio_seconds: number | string
+  cost_usd: number | string
+}
+
+function toSums(row: UsageSumsRow): UsageSums {
+  return {
+    requests: Number(row.requests),
+    audioSeconds: Number(row.audio_seconds),
+    costUsd: Number(row.cost_usd),
+  }
+}
+
+function addToSums(sums: UsageSums, entry: UsageEntry) {
+  sums.requests += 1
+  if (!entry.cached) sums.audioSeconds += entry.audioSeconds
+  sums.costUsd += entry.costUsd
+}
+
+const bySpend = (a: UsageSums, b: UsageSums) => b.costUsd - a.costUsd || b.audioSeconds - a.audioSeconds
+
+function createMemoryStore(): UsageStore {
+  const entries = memoryCollection<UsageEntry>('usage_ledger')
+
+  return {
+    async add(entry) {
+      const id = randomUUID()
+      entries.set(id, { ...entry, id, createdAt: new Date().toISOString() })
+    },
+    async daily(since, subject) {
+      const from = since.toISOString()
+      const days = new Map<string, UsageSums>()
+      entries.forEach(entry => {
+        if (entry.createdAt < from || (subject && entry.subject !== subject)) return
+        const date = entry.createdAt.slice(0, 10)
+        if (!days.has(date)) days.set(date, { requests: 0, audioSeconds: 0, costUsd: 0 })
+        addToSums(days.get(date)!, entry)
+      })
+      return Array.from(days, ([date, sums]) => ({ date, ...sums }))
+    },
+    async topSubjects(since, limit) {
+      const from = since.toISOString()
+      const subjects = new Map<string, UsageSums>()
+      entries.forEach(entry => {
+        if (entry.createdAt < from) return
+        if (!subjects.has(entry.subject)) subjects.set(entry.subject, { requests: 0, audioSeconds: 0, costUsd: 0 })
+        addToSums(subjects.get(entry.subject)!, entry)
+      })
+      return Array.from(subjects, ([subject, sums]) => ({ subject, ...sums }))
+        .sort(bySpend)
+        .slice(0, limit)
+    },
+  }
+}
+
+function createSupabaseStore(): UsageStore {
+  const table = () => getSupabase()!.from('usage_ledger')
+
+  return {
+    async add(entry) {
+      const { error } = await table().insert({
+        subject: entry.subject,
+        user_id: entry.userId,
+        route: entry.route,
+        source: entry.source,
+        provider: entry.provider,
+        cached: entry.cached,
+        audio_seconds: entry.audioSeconds,
+        cost_usd: entry.costUsd,
+      })
+
+      if (error) {
+        throw error
+      }
+    },
+    // 기록을 읽어오지 않고 DB에서 합산 (기간이 길어도 잘리지 않음)
+    async daily(since, subject) {
+      const { data, error } = await getSupabase()!
+        .rpc('usage_daily', { p_since: since.toISOString(), p_subject: subject ?? null })
+
+      if (error) {
+        throw error
+      }
+
+      return ((data || []) as (UsageSumsRow & { day: string })[]).map(row => ({ date: row.day, ...toSums(row) }))
+    },
+    async topSubjects(since, limit) {
+      const { data, error } = await getSupabase()!
+        .rpc('usage_top_subjects', { p_since: since.toISOString(), p_limit: limit })
+
+      if (error) {
+        throw error
+      }
+
+      return ((data || []) as (UsageSumsRow & { subject: string })[]).map(row => ({ subject: row.subject, ...toSums(row) }))
+    },
+  }
+}
+
+function getUsageStore(): UsageStore {
+  return getSupabase() ? createSupabaseStore() : createMemoryStore()
+}
+
+// 클라이언트 IP
+// - Vercel: 플랫폼이 x-real-ip를 실제 접속 주소로 덮어씀
+// - 그 밖: 앞에 둔 프록시 수(TRUSTED_PROXY_HOPS)만큼 x-forwarded-for 뒤에서부터 셈
+//   (앞쪽 항목은 클라이언트가 마음대로 넣을 수 있어서 쓰지 않음, 프록시가 없으면 헤더를 무시)
+function clientIp(request: NextRequest): string {
+  if (process.env.VERCEL) {
+    return request.headers.get('x-real-ip') || request.ip || 'unknown'
+  }
+
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(hop => hop.trim()).filter(Boolean)
+    const ip = hops[hops.length - TRUSTED_PROXY_HOPS]
+    if (ip) return ip
+  }
+
+  return request.ip || 'unknown'
+}
+
+export function usageSubject(request: NextRequest, owner: Owner | null): UsageSubject {
+  if (owner) {
+    return { key: `user:${owner.userId}`, userId: owner.userId }
+  }
+
+  return { key: `ip:${clientIp(request)}`, userId: null }
+}
+
+function startOfUtcDay(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+// 오늘 음성 인식 사용량이 한도를 넘었으면 RateLimitError (자정 UTC까지 대기)
+export async function checkAudioQuota(subject: UsageSubject): Promise<void> {
+  if (!Number.isFinite(DAILY_AUDIO_MINUTES) || DAILY_AUDIO_MINUTES <= 0) return
+
+  const today = startOfUtcDay()
+  let usedSeconds = 0
+  try {
+    const days = await getUsageStore().daily(today, subject.key)
+    usedSeconds = days.reduce((total, day) => total + day.audioSeconds, 0)
+  } catch (error) {
+    console.error('Usage quota error:', error)
+    return
+  }
+
+  if (usedSeconds >= DAILY_AUDIO_MINUTES * 60) {
+    const retryAfter = Math.ceil((today.getTime() + 24 * 60 * 60 * 1000 - Date.now()) / 1000)
+    throw new RateLimitError(
+      `오늘 사용할 수 있는 음성 인식 시간(${DAILY_AUDIO_MINUTES}분)을 모두 사용했습니다. 내일 다시 시도해주세요`,
+      retryAfter
+    )
+  }
+}
+
+// 요청 수 제한 + 하루 사용량 확인
+export async function enforceUsageLimits(subject: UsageSubject): Promise<void> {
+  await checkRateLimit(subject.key)
+  await checkAudioQuota(subject)
+}
+
+// 추출을 실행하고 오디오 길이와 예상 비용을 기록 (기록에 실패해도 결과는 반환)
+export async function meterTranscription(
+  subject: UsageSubject,
+  route: string,
+  providerName: string | null | undefined,
+  run: () => Promise<TranscriptResult>
+): Promise<TranscriptResult> {
+  const result = await run()
+
+  // 자막으로 가져온 경우는 음성 인식을 하지 않음
+  const transcribed = result.source !== 'captions'
+  const provider = transcribed ? getTranscriptionProvider(providerName) : null
+  const audioSeconds = transcribed ? Math.round(transcriptDuration(result.transcript)) : 0
+  const cached = Boolean(result.cached)
+
+  try {
+    await getUsageStore().add({
+      subject: subject.key,
+      userId: subject.userId,
+      route,
+      source: result.source,
+      provider: provider?.name ?? null,
+      cached,
+      audioSeconds,
+      costUsd: provider && !cached ? Math.round(audioSeconds / 60 * provider.costPerMinute * 1e6) / 1e6 : 0,
+    })
+  } catch (error) {
+    console.error('Usage record error:', error)
+  }
+
+  return result
+}
+
+export interface UsageTotals {
+  requests: number
+  // 캐시를 제외한 실제 음성 인식 시간
+  audioMinutes: number
+  costUsd: number
+}
+
+export interface UsageReport {
+  from: string
+  to: string
+  totals: UsageTotals
+  days: (UsageTotals & { date: string })[]
+  subjects: (UsageTotals & { subject: string })[]
+}
+
+function toTotals(sums: UsageSums): UsageTotals {
+  return {
+    requests: sums.requests,
+    audioMinutes: Math.round(sums.audioSeconds / 60 * 10) / 10,
+    costUsd: Math.round(sums.costUsd * 10000) / 10000,
+  }
+}
+
+// 최근 days일 사용량: 날짜별(UTC) 합계와 많이 쓴 대상 순위
+export async function usageReport(days: number): Promise<UsageReport> {
+  const to = new Date()
+  const from = new Date(startOfUtcDay(to).getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+  const store = getUsageStore()
+  const [daily, subjects] = await Promise.all([store.daily(from), store.topSubjects(from, REPORT_TOP_SUBJECTS)])
+
+  const totals: UsageSums = { requests: 0, audioSeconds: 0, costUsd: 0 }
+  const byDay = new Map<string, UsageSums>()
+
+  // 사용량이 없는 날도 0으로 표시
+  for (let time = from.getTime(); time <= to.getTime(); time += 24 * 60 * 60 * 1000) {
+    byDay.set(new Date(time).toISOString().slice(0, 10), { requests: 0, audioSeconds: 0, costUsd: 0 })
+  }
+
+  for (const day of daily) {
+    totals.requests += day.requests
+    totals.audioSeconds += day.audioSeconds
+    totals.costUsd += day.costUsd
+    if (byDay.has(day.date)) byDay.set(day.date, day)
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: toTotals(totals),
+    days: Array.from(byDay, ([date, day]) => ({ date, ...toTotals(day) })),
+    subjects: subjects.map(({ subject, ...usage }) => ({ subject, ...toTotals(usage) })),
+  }
+}
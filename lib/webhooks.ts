@@ -0,0 +1,603 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { lookup } from 'dns'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, isIP, LookupFunction } from 'net'
+import { waitUntil } from '@vercel/functions'
+import { getSupabase } from './supabase'
+import { memoryCollection } from './memory'
+import { mapWithConcurrency } from './concurrency'
+import { PipelineError } from './pipeline'
+import type { TranscriptResult } from './types'
+
+// 서명용 secret 모양: whsec_<48자 hex>
+const SECRET_PREFIX = 'whsec_'
+
+// 실패하면 다시 보내는 횟수 (처음 포함), 간격은 1분부터 두 배씩.
+// 다음 시간(next_attempt_at)을 저장해두고 /api/cron/webhooks가 매분 때가 된 전송을 다시 보냄
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5)
+const RETRY_BASE_MS = 60 * 1000
+
+// 받는 쪽이 이 시간 안에 응답하지 않으면 실패로 봄
+const DELIVERY_TIMEOUT_MS = 10_000
+
+// 보내는 도중에 인스턴스가 멈추면 이 시간 뒤에 cron이 다시 보냄
+const DELIVERY_LEASE_MS = 3 * DELIVERY_TIMEOUT_MS
+
+// cron 한 번에 다시 보낼 최대 전송 수
+const RETRY_BATCH_SIZE = 50
+
+// 내부 주소로는 보내지 않음 (로컬 수신기로 시험할 때만 WEBHOOK_ALLOW_LOCAL=true)
+const ALLOW_LOCAL_URLS = process.env.WEBHOOK_ALLOW_LOCAL === 'true'
+const LOCAL_HOST_PATTERN = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i
+
+// 보내지 않는 주소 대역 (루프백, 사설망, 링크 로컬, CGNAT, 멀티캐스트 등)
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+export type WebhookEvent = 'transcript.completed' | 'transcript.failed'
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['transcript.completed', 'transcript.failed']
+
+export const MAX_WEBHOOKS_PER_USER = 10
+
+// 등록한 웹훅 (secret은 만들 때 한 번만 반환)
+export interface Webhook {
+  id: string
+  url: string
+  events: WebhookEvent[]
+  createdAt: string
+}
+
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+// 전송 기록 (재시도할 때마다 갱신)
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  // 'ping'은 시험 전송
+  event: WebhookEvent | 'ping'
+  status: DeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  lastError: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// 실패 알림에 넣을 요청 정보
+export interface WebhookContext {
+  route: string
+  videoId?: string | null
+  fileName?: string | null
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'WebhookError'
+  }
+}
+
+interface WebhookRow {
+  id: string
+  // 로그인이 꺼져 있을 때 등록한 웹훅은 null (모든 추출에 대해 전송)
+  user_id: string | null
+  url: string
+  events: WebhookEvent[]
+  secret: string
+  created_at: string
+}
+
+interface DeliveryRow {
+  id: string
+  webhook_id: string
+  event: WebhookDelivery['event']
+  status: DeliveryStatus
+  attempts: number
+  response_status: number | null
+  last_error: string | null
+  // 보낼 본문 ({ id, event, createdAt, data }), 다시 보낼 때도 그대로 사용
+  payload: unknown
+  // 다음에 보낼 시간 (끝났으면 null)
+  next_attempt_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// 전송 기록 목록용 (본문 없이)
+type DeliverySummaryRow = Omit<DeliveryRow, 'payload'>
+
+const DELIVERY_SUMMARY_COLUMNS = 'id, webhook_id, event, status, attempts, response_status, last_error, next_attempt_at, created_at, updated_at'
+
+type DeliveryChange = Partial<Pick<DeliveryRow, 'status' | 'attempts' | 'response_status' | 'last_error' | 'next_attempt_at'>>
+
+interface WebhookStore {
+  insert(row: Omit<WebhookRow, 'id' | 'created_at'>): Promise<WebhookRow>
+  list(userId: string | null): Promise<WebhookRow[]>
+  get(userId: string | null, id: string): Promise<WebhookRow | null>
+  // 소유자 확인 없이 (cron에서 다시 보낼 때)
+  getById(id: string): Promise<WebhookRow | null>
+  remove(userId: string | null, id: string): Promise<boolean>
+  insertDelivery(row: Pick<DeliveryRow, 'id' | 'webhook_id' | 'event' | 'payload' | 'next_attempt_at'>): Promise<DeliveryRow>
+  // attempts가 그대로인 대기 중 전송만 가져감 (두 곳에서 동시에 보내지 않게)
+  claimDelivery(id: string, attempts: number, leaseUntil: string): Promise<boolean>
+  updateDelivery(id: string, change: DeliveryChange): Promise<void>
+  listDeliveries(webhookId: string, limit: number): Promise<DeliverySummaryRow[]>
+  // 다시 보낼 때가 된 전송 (오래된 순)
+  listDueDeliveries(now: string, limit: number): Promise<DeliveryRow[]>
+}
+
+function toWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    events: row.events,
+    createdAt: row.created_at,
+  }
+}
+
+function toDelivery(row: DeliverySummaryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function createMemoryStore(): WebhookStore {
+  const webhooks = memoryCollection<WebhookRow>('webhooks')
+  const deliveries = memoryCollection<DeliveryRow>('webhook_deliveries')
+
+  const owned = (row: WebhookRow | undefined, userId: string | null) => row && row.user_id === userId ? row : null
+
+  return {
+    async insert(input) {
+      const row: WebhookRow = { ...input, id: randomUUID(), created_at: new Date().toISOString() }
+      webhooks.set(row.id, row)
+      return row
+    },
+    async list(userId) {
+      return Array.from(webhooks.values())
+        .filter(row => row.user_id === userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    },
+    async get(userId, id) {
+      return owned(webhooks.get(id), userId)
+    },
+    async getById(id) {
+      return webhooks.get(id) ?? null
+    },
+    async remove(userId, id) {
+      if (!owned(webhooks.get(id), userId)) return false
+      webhooks.delete(id)
+      deliveries.forEach((row, deliveryId) => {
+        if (row.webhook_id === id) deliveries.delete(deliveryId)
+      })
+      return true
+    },
+    async insertDelivery(input) {
+      const now = new Date().toISOString()
+      const row: DeliveryRow = { ...input, status: 'pending', attempts: 0, response_status: null, last_error: null, created_at: now, updated_at: now }
+      deliveries.set(input.id, row)
+      return row
+    },
+    async claimDelivery(id, attempts, leaseUntil) {
+      const row = deliveries.get(id)
+      if (!row || row.status !== 'pending' || row.attempts !== attempts) return false
+      deliveries.set(id, { ...row, attempts: attempts + 1, next_attempt_at: leaseUntil, updated_at: new Date().toISOString() })
+      return true
+    },
+    async updateDelivery(id, change) {
+      const row = deliveries.get(id)
+      if (row) deliveries.set(id, { ...row, ...change, updated_at: new Date().toISOString() })
+    },
+    async listDeliveries(webhookId, limit) {
+      return Array.from(deliveries.values())
+        .filter(row => row.webhook_id === webhookId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit)
+    },
+    async listDueDeliveries(now, limit) {
+      return Array.from(deliveries.values())
+        .filter(row => row.status === 'pending' && row.next_attempt_at !== null && row.next_attempt_at <= now)
+        .sort((a, b) => a.next_attempt_at!.localeCompare(b.next_attempt_at!))
+        .slice(0, limit)
+    },
+  }
+}
+
+function createSupabaseStore(): WebhookStore {
+  const webhooks = () => getSupabase()!.from('webhooks')
+  const deliveries = () => getSupabase()!.from('webhook_deliveries')
+
+  return {
+    async insert(input) {
+      const { data, error } = await webhooks()
+        .insert(input)
+        .select('*')
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      return data as WebhookRow
+    },
+    async list(userId) {
+      const query = webhooks().select('*')
+      const { data, error } = await (userId ? query.eq('user_id', userId) : query.is('user_id', null))
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as WebhookRow[]
+    },
+    async get(userId, id) {
+      const query = webhooks().select('*').eq('id', id)
+      const { data, error } = await (userId ? query.eq('user_id', userId) : query.is('user_id', null))
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+
+      return data as WebhookRow | null
+    },
+    async getById(id) {
+      const { data, error } = await webhooks()
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+
+      return data as WebhookRow | null
+    },
+    async remove(userId, id) {
+      const query = webhooks().delete().eq('id', id)
+      const { data, error } = await (userId ? query.eq('user_id', userId) : query.is('user_id', null))
+        .select('id')
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []).length > 0
+    },
+    async insertDelivery(input) {
+      const { data, error } = await deliveries()
+        .insert(input)
+        .select('*')
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      return data as DeliveryRow
+    },
+    async claimDelivery(id, attempts, leaseUntil) {
+      const { data, error } = await deliveries()
+        .update({ attempts: attempts + 1, next_attempt_at: leaseUntil, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .eq('attempts', attempts)
+        .select('id')
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []).length > 0
+    },
+    async updateDelivery(id, change) {
+      const { error } = await deliveries()
+        .update({ ...change, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+    },
+    async listDeliveries(webhookId, limit) {
+      const { data, error } = await deliveries()
+        .select(DELIVERY_SUMMARY_COLUMNS)
+        .eq('webhook_id', webhookId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as DeliverySummaryRow[]
+    },
+    async listDueDeliveries(now, limit) {
+      const { data, error } = await deliveries()
+        .select('*')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', now)
+        .order('next_attempt_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        throw error
+      }
+
+      return (data || []) as DeliveryRow[]
+    },
+  }
+}
+
+function getWebhookStore(): WebhookStore {
+  return getSupabase() ? createSupabaseStore() : createMemoryStore()
+}
+
+// IPv4-mapped IPv6(::ffff:10.0.0.1)는 안의 IPv4 주소로 확인
+function isBlockedAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4')
+  const family = isIP(address)
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+// URL의 호스트 이름 ([::1]처럼 괄호로 감싼 IPv6 포함)
+const bareHostname = (url: URL) => url.hostname.replace(/^\[(.*)\]$/, '$1')
+
+function isLocalHost(url: URL): boolean {
+  const hostname = bareHostname(url)
+  return LOCAL_HOST_PATTERN.test(hostname) || (isIP(hostname) !== 0 && isBlockedAddress(hostname))
+}
+
+// 연결할 때 확인한 IP로 판단 (이름만 보면 DNS가 내부 주소를 돌려주는 경우를 막지 못함)
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address))
+    if (blocked || addresses.length === 0) {
+      return callback(Object.assign(new Error(`내부 주소로는 보낼 수 없습니다 (${blocked?.address ?? hostname})`), { code: 'EBLOCKED' }), '')
+    }
+
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// POST 한 번 보내고 응답 코드를 돌려줌 (다른 주소로 넘기는 응답은 따라가지 않음)
+function postWebhook(target: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(target)
+    if (!ALLOW_LOCAL_URLS && isLocalHost(url)) {
+      reject(new Error('내부 주소로는 보낼 수 없습니다'))
+      return
+    }
+
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest
+    const request = send(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: ALLOW_LOCAL_URLS ? undefined : publicOnlyLookup,
+    }, response => {
+      response.resume()
+      response.on('end', () => clearTimeout(timer))
+      resolve(response.statusCode ?? 0)
+    })
+
+    const timer = setTimeout(() => request.destroy(new Error('응답 시간이 초과되었습니다')), DELIVERY_TIMEOUT_MS)
+    request.on('error', error => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    request.end(body)
+  })
+}
+
+// http(s) 주소만, 내부 주소 제외 (보낼 때 실제로 연결하는 IP를 다시 확인)
+export function validateWebhookUrl(value: unknown): string {
+  let url: URL
+  try {
+    url = new URL(typeof value === 'string' ? value.trim() : '')
+  } catch {
+    throw new WebhookError('올바른 URL을 입력해주세요', 400)
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new WebhookError('http 또는 https URL만 등록할 수 있습니다', 400)
+  }
+
+  if (!ALLOW_LOCAL_URLS && isLocalHost(url)) {
+    throw new WebhookError('내부 주소로는 보낼 수 없습니다', 400)
+  }
+
+  return url.toString()
+}
+
+export function parseWebhookEvents(value: unknown): WebhookEvent[] {
+  if (value === undefined || value === null) return WEBHOOK_EVENTS
+
+  const events = Array.isArray(value) ? value : []
+  if (events.length === 0 || !events.every(event => WEBHOOK_EVENTS.includes(event))) {
+    throw new WebhookError(`events는 ${WEBHOOK_EVENTS.join(', ')} 중에서 골라주세요`, 400)
+  }
+
+  return Array.from(new Set(events as WebhookEvent[]))
+}
+
+// 본문 서명: HMAC-SHA256(secret, "<timestamp>.<body>")의 hex
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+// 새 웹훅 등록 (secret은 이때만 볼 수 있음)
+export async function createWebhook(userId: string | null, url: string, events: WebhookEvent[]): Promise<{ webhook: Webhook; secret: string }> {
+  const store = getWebhookStore()
+  if ((await store.list(userId)).length >= MAX_WEBHOOKS_PER_USER) {
+    throw new WebhookError(`웹훅은 ${MAX_WEBHOOKS_PER_USER}개까지 등록할 수 있습니다`, 400)
+  }
+
+  const secret = `${SECRET_PREFIX}${randomBytes(24).toString('hex')}`
+  const row = await store.insert({ user_id: userId, url, events, secret })
+  return { webhook: toWebhook(row), secret }
+}
+
+export async function listWebhooks(userId: string | null): Promise<Webhook[]> {
+  return (await getWebhookStore().list(userId)).map(toWebhook)
+}
+
+// 삭제 (본인 웹훅이 아니거나 없으면 false, 전송 기록도 함께 삭제)
+export async function deleteWebhook(userId: string | null, id: string): Promise<boolean> {
+  return getWebhookStore().remove(userId, id)
+}
+
+// 최근 전송 기록 (본인 웹훅이 아니면 null)
+export async function listDeliveries(userId: string | null, webhookId: string, limit = 50): Promise<WebhookDelivery[] | null> {
+  const store = getWebhookStore()
+  if (!await store.get(userId, webhookId)) return null
+  return (await store.listDeliveries(webhookId, limit)).map(toDelivery)
+}
+
+// 한 번 보내고 결과와 다음 시간을 저장 (다른 곳에서 이미 보내는 중이면 null)
+async function attemptDelivery(webhook: WebhookRow, delivery: DeliveryRow, maxAttempts = MAX_ATTEMPTS): Promise<DeliverySummaryRow | null> {
+  const store = getWebhookStore()
+  const attempts = delivery.attempts + 1
+  if (!await store.claimDelivery(delivery.id, delivery.attempts, new Date(Date.now() + DELIVERY_LEASE_MS).toISOString())) {
+    return null
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  let change: DeliveryChange
+
+  try {
+    const status = await postWebhook(webhook.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'youtube-transcript-webhooks',
+      'X-Webhook-Id': delivery.id,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Signature': `t=${timestamp},v1=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+    }, body)
+
+    // 3xx(다른 주소로 넘김)도 실패로 봄
+    change = status >= 200 && status < 300
+      ? { status: 'succeeded', attempts, response_status: status, last_error: null, next_attempt_at: null }
+      : { status: 'pending', attempts, response_status: status, last_error: `HTTP ${status}` }
+  } catch (error) {
+    change = { status: 'pending', attempts, response_status: null, last_error: error instanceof Error ? error.message : String(error) }
+  }
+
+  if (change.status === 'pending') {
+    change = attempts >= maxAttempts
+      ? { ...change, status: 'failed', next_attempt_at: null }
+      : { ...change, next_attempt_at: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString() }
+  }
+  await store.updateDelivery(delivery.id, change).catch(error => console.error('Webhook delivery log error:', error))
+
+  return { ...delivery, ...change, updated_at: new Date().toISOString() }
+}
+
+// 전송 기록을 먼저 저장 (바로 보내지 못해도 cron이 next_attempt_at을 보고 보냄)
+async function createDelivery(webhook: WebhookRow, event: WebhookDelivery['event'], data: unknown): Promise<DeliveryRow> {
+  const id = randomUUID()
+  const createdAt = new Date().toISOString()
+  return getWebhookStore().insertDelivery({
+    id,
+    webhook_id: webhook.id,
+    event,
+    payload: { id, event, createdAt, data },
+    next_attempt_at: createdAt,
+  })
+}
+
+// 시험 전송 (재시도 없이 한 번)
+export async function sendTestWebhook(userId: string | null, webhookId: string): Promise<WebhookDelivery | null> {
+  const webhook = await getWebhookStore().get(userId, webhookId)
+  if (!webhook) return null
+
+  const delivery = await createDelivery(webhook, 'ping', { message: '웹훅 시험 전송입니다' })
+  return toDelivery(await attemptDelivery(webhook, delivery, 1) ?? delivery)
+}
+
+// 전송 기록을 저장하고 첫 전송은 응답 뒤에 (Vercel에서는 waitUntil로 함수가 끝날 때까지 기다림)
+async function dispatch(userId: string | null, event: WebhookEvent, data: unknown): Promise<void> {
+  try {
+    const rows = (await getWebhookStore().list(userId)).filter(row => row.events.includes(event))
+    const deliveries = await Promise.all(rows.map(async row => ({ webhook: row, delivery: await createDelivery(row, event, data) })))
+
+    waitUntil(Promise.all(deliveries.map(({ webhook, delivery }) =>
+      attemptDelivery(webhook, delivery).catch(error => console.error('Webhook delivery error:', error))
+    )))
+  } catch (error) {
+    console.error('Webhook dispatch error:', error)
+  }
+}
+
+// 다시 보낼 때가 된 전송을 보냄 (cron)
+export async function retryDueDeliveries(): Promise<number> {
+  const store = getWebhookStore()
+  const due = await store.listDueDeliveries(new Date().toISOString(), RETRY_BATCH_SIZE)
+
+  await mapWithConcurrency(due, 5, async (delivery) => {
+    const webhook = await store.getById(delivery.webhook_id)
+    if (!webhook) return
+    await attemptDelivery(webhook, delivery).catch(error => console.error('Webhook delivery error:', error))
+  })
+
+  return due.length
+}
+
+// 추출이 끝나면(성공/실패) 사용자의 웹훅으로 알림
+export async function withWebhooks(
+  userId: string | null,
+  context: WebhookContext,
+  run: () => Promise<TranscriptResult>
+): Promise<TranscriptResult> {
+  try {
+    const result = await run()
+    await dispatch(userId, 'transcript.completed', {
+      route: context.route,
+      historyId: result.historyId,
+      videoInfo: result.videoInfo ?? null,
+      fileName: result.fileName ?? context.fileName ?? null,
+      source: result.source,
+      language: result.language,
+      duration: result.duration ?? null,
+      cached: Boolean(result.cached),
+      fullText: result.fullText,
+      segments: result.transcript,
+    })
+    return result
+  } catch (error) {
+    await dispatch(userId, 'transcript.failed', {
+      route: context.route,
+      videoId: context.videoId ?? null,
+      fileName: context.fileName ?? null,
+      error: {
+        message: error instanceof Error ? error.message : '추출에 실패했습니다',
+        status: error instanceof PipelineError ? error.status : 500,
+      },
+    })
+    throw error
+  }
+}
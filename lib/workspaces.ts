@@ -0,0 +1,125 @@
+import { randomBytes } from 'crypto'
+import { getSupabase } from './supabase'
+import type { Workspace, WorkspaceRole } from './types'
+
+interface WorkspaceRow {
+  id: string
+  name: string
+  invite_code: string
+  created_at: string
+}
+
+interface MemberRow {
+  role: WorkspaceRole
+  workspaces: WorkspaceRow | null
+}
+
+function requireSupabase() {
+  const supabase = getSupabase()
+  if (!supabase) {
+    throw new Error('워크스페이스를 쓰려면 Supabase 설정이 필요합니다')
+  }
+  return supabase
+}
+
+function toWorkspace(row: WorkspaceRow, role: WorkspaceRole): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    role,
+    inviteCode: row.invite_code,
+    createdAt: row.created_at,
+  }
+}
+
+// 사용자가 속한 워크스페이스
+export async function listWorkspaces(userId: string): Promise<Workspace[]> {
+  const { data, error } = await requireSupabase()
+    .from('workspace_members')
+    .select('role, workspaces(id, name, invite_code, created_at)')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw error
+  }
+
+  return ((data || []) as unknown as MemberRow[])
+    .filter(row => row.workspaces)
+    .map(row => toWorkspace(row.workspaces!, row.role))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+// 새 워크스페이스를 만들고 만든 사람을 owner로 추가
+export async function createWorkspace(userId: string, name: string): Promise<Workspace> {
+  const supabase = requireSupabase()
+
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ name, invite_code: randomBytes(6).toString('hex'), created_by: userId })
+    .select('id, name, invite_code, created_at')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  const { error: memberError } = await supabase
+    .from('workspace_members')
+    .insert({ workspace_id: data.id, user_id: userId, role: 'owner' })
+
+  if (memberError) {
+    throw memberError
+  }
+
+  return toWorkspace(data as WorkspaceRow, 'owner')
+}
+
+// 초대 코드로 참여 (없는 코드면 null, 이미 멤버면 그대로 반환)
+export async function joinWorkspace(userId: string, inviteCode: string): Promise<Workspace | null> {
+  const supabase = requireSupabase()
+
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('id, name, invite_code, created_at')
+    .eq('invite_code', inviteCode)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!data) return null
+
+  const { error: memberError } = await supabase
+    .from('workspace_members')
+    .upsert(
+      { workspace_id: data.id, user_id: userId, role: 'member' },
+      { onConflict: 'workspace_id,user_id', ignoreDuplicates: true }
+    )
+
+  if (memberError) {
+    throw memberError
+  }
+
+  const role = await workspaceRole(data.id, userId)
+  return toWorkspace(data as WorkspaceRow, role ?? 'member')
+}
+
+// 워크스페이스 안에서의 역할 (멤버가 아니면 null)
+export async function workspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const supabase = getSupabase()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data ? data.role as WorkspaceRole : null
+}
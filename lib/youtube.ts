@@ -0,0 +1,271 @@
+import { YoutubeTranscript } from 'youtube-transcript'
+import { decodeHtmlEntities, fromCaptions } from './transcript'
+import { parseYoutubeTarget, splitInputLines } from './youtubeUrl'
+import type { CaptionTrack, TranscriptSegment, VideoInfo } from './types'
+
+// 설정돼 있으면 재생목록 전체를 Data API로 조회 (없으면 RSS 피드로 최근 15개만)
+const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY
+
+export const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/
+
+export async function getVideoInfo(videoId: string): Promise<VideoInfo> {
+  const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`
+
+  const response = await fetch(oembedUrl)
+
+  if (!response.ok) {
+    throw new Error('영상 정보를 가져올 수 없습니다')
+  }
+
+  const data = await response.json()
+
+  return {
+    videoId,
+    title: data.title,
+    channelName: data.author_name,
+    thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
+  }
+}
+
+// youtube-transcript와 같은 InnerTube(Android) 클라이언트로 자막 트랙 목록 조회
+const INNERTUBE_API_URL = 'https://www.youtube.com/youtubei/v1/player?prettyPrint=false'
+const INNERTUBE_CLIENT_VERSION = '20.10.38'
+
+interface InnerTubeCaptionTrack {
+  languageCode: string
+  kind?: string
+  name?: { simpleText?: string; runs?: { text: string }[] }
+}
+
+export async function listCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+  try {
+    const response = await fetch(INNERTUBE_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': `com.google.android.youtube/${INNERTUBE_CLIENT_VERSION} (Linux; U; Android 14)`,
+      },
+      body: JSON.stringify({
+        context: { client: { clientName: 'ANDROID', clientVersion: INNERTUBE_CLIENT_VERSION } },
+        videoId,
+      }),
+    })
+
+    if (!response.ok) return []
+
+    const data = await response.json()
+    const tracks: InnerTubeCaptionTrack[] = data?.captions?.playerCaptionsTracklistRenderer?.captionTracks || []
+
+    return tracks.map(track => ({
+      languageCode: track.languageCode,
+      name: track.name?.simpleText ?? track.name?.runs?.map(run => run.text).join('') ?? track.languageCode,
+      autoGenerated: track.kind === 'asr',
+    }))
+  } catch {
+    return []
+  }
+}
+
+// 선호 언어 순서대로, 같은 언어면 직접 만든 자막을 자동 생성 자막보다 우선
+export function selectCaptionLanguages(tracks: CaptionTrack[], languages: string[]): string[] {
+  const codes: string[] = []
+
+  for (const language of languages) {
+    const matches = tracks
+      .filter(track => track.languageCode === language || track.languageCode.split('-')[0] === language)
+      .sort((a, b) => Number(a.autoGenerated) - Number(b.autoGenerated))
+    for (const track of matches) {
+      if (!codes.includes(track.languageCode)) codes.push(track.languageCode)
+    }
+  }
+
+  return codes
+}
+
+export interface SubtitleResult {
+  transcript: TranscriptSegment[]
+  language: string | null
+}
+
+// 유튜브 자막 시도 (선호 언어 → 기본 트랙)
+export async function tryGetSubtitles(videoId: string, languages: string[], tracks: CaptionTrack[]): Promise<SubtitleResult | null> {
+  // 트랙 목록을 못 가져왔으면 선호 언어 코드를 그대로 시도
+  const candidates = tracks.length > 0
+    ? selectCaptionLanguages(tracks, languages)
+    : languages.filter(language => language !== 'auto')
+
+  for (const lang of candidates) {
+    try {
+      const transcript = fromCaptions(await YoutubeTranscript.fetchTranscript(videoId, { lang }))
+      if (transcript.length > 0) return { transcript, language: lang }
+    } catch {
+      // 다음 언어 시도
+    }
+  }
+
+  try {
+    const transcript = fromCaptions(await YoutubeTranscript.fetchTranscript(videoId))
+    return { transcript, language: tracks[0]?.languageCode ?? null }
+  } catch {
+    return null
+  }
+}
+
+// 재생목록 영상 ID 목록
+export async function listPlaylistVideos(playlistId: string, limit: number): Promise<string[]> {
+  if (YOUTUBE_API_KEY) {
+    const videoIds: string[] = []
+    let pageToken = ''
+
+    while (videoIds.length < limit) {
+      const params = new URLSearchParams({
+        part: 'contentDetails',
+        maxResults: '50',
+        playlistId,
+        key: YOUTUBE_API_KEY,
+      })
+      if (pageToken) params.set('pageToken', pageToken)
+
+      const response = await fetch(`https://www.googleapis.com/youtube/v3/playlistItems?${params}`)
+      if (!response.ok) {
+        throw new Error('재생목록을 가져올 수 없습니다')
+      }
+
+      const data = await response.json()
+      for (const item of data.items || []) {
+        const videoId = item.contentDetails?.videoId
+        if (videoId) videoIds.push(videoId)
+      }
+
+      if (!data.nextPageToken) break
+      pageToken = data.nextPageToken
+    }
+
+    return videoIds.slice(0, limit)
+  }
+
+  const response = await fetch(`https://www.youtube.com/feeds/videos.xml?playlist_id=${playlistId}`)
+  if (!response.ok) {
+    throw new Error('재생목록을 가져올 수 없습니다')
+  }
+
+  const xml = await response.text()
+  const videoIds = Array.from(xml.matchAll(/<yt:videoId>([a-zA-Z0-9_-]{11})<\/yt:videoId>/g), m => m[1])
+  return videoIds.slice(0, limit)
+}
+
+// @핸들 → 채널 ID (UC...)
+export async function resolveChannelHandle(handle: string): Promise<string> {
+  const response = await fetch(`https://www.youtube.com/@${encodeURIComponent(handle)}`, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Accept-Language': 'ko,en;q=0.8',
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error(`채널을 찾을 수 없습니다: @${handle}`)
+  }
+
+  const html = await response.text()
+  const match = html.match(/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[a-zA-Z0-9_-]{22})"/)
+    || html.match(/"(?:channelId|externalId)":"(UC[a-zA-Z0-9_-]{22})"/)
+
+  if (!match) {
+    throw new Error(`채널을 찾을 수 없습니다: @${handle}`)
+  }
+
+  return match[1]
+}
+
+const CHANNEL_ID_PATTERN = /^UC[a-zA-Z0-9_-]{22}$/
+
+// 채널 URL, @핸들, 채널 ID(UC...) → 채널 ID (채널이 아니면 null)
+export async function resolveChannelId(input: string): Promise<string | null> {
+  const value = input.trim()
+  if (CHANNEL_ID_PATTERN.test(value)) return value
+
+  const target = parseYoutubeTarget(value)
+  if (target?.type === 'channel') return target.channelId
+  if (target?.type === 'handle') return resolveChannelHandle(target.handle)
+  return null
+}
+
+export interface FeedVideo {
+  videoId: string
+  title: string
+  publishedAt: string
+}
+
+export interface ChannelFeed {
+  channelId: string
+  title: string
+  // 최신순 (RSS는 최근 15개만 제공)
+  videos: FeedVideo[]
+}
+
+// 채널 공개 RSS 피드
+export async function fetchChannelFeed(channelId: string): Promise<ChannelFeed> {
+  const response = await fetch(`https://www.youtube.com/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`, {
+    cache: 'no-store',
+  }).catch(() => {
+    throw new Error('채널 피드에 연결할 수 없습니다')
+  })
+  if (!response.ok) {
+    throw new Error(`채널 피드를 가져올 수 없습니다 (${response.status})`)
+  }
+
+  const xml = await response.text()
+  const head = xml.split('<entry>')[0]
+  const videos = Array.from(xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g), ([, entry]) => ({
+    videoId: entry.match(/<yt:videoId>([a-zA-Z0-9_-]{11})<\/yt:videoId>/)?.[1] ?? '',
+    title: decodeHtmlEntities(entry.match(/<title>([\s\S]*?)<\/title>/)?.[1] ?? ''),
+    publishedAt: entry.match(/<published>([^<]+)<\/published>/)?.[1] ?? '',
+  })).filter(video => video.videoId)
+
+  return {
+    channelId,
+    title: decodeHtmlEntities(head.match(/<title>([\s\S]*?)<\/title>/)?.[1] ?? channelId),
+    videos,
+  }
+}
+
+// 채널 업로드 재생목록 ID (UC... → UU...)
+export function uploadsPlaylistId(channelId: string): string {
+  return `UU${channelId.slice(2)}`
+}
+
+// 여러 줄 입력(영상/재생목록/채널)을 영상 ID 목록으로 풀어냄
+export async function resolveVideoIds(input: string, limit: number): Promise<string[]> {
+  const videoIds: string[] = []
+
+  for (const line of splitInputLines(input)) {
+    if (videoIds.length >= limit) break
+
+    const target = parseYoutubeTarget(line)
+    if (!target) {
+      throw new Error(`인식할 수 없는 URL입니다: ${line}`)
+    }
+
+    const remaining = limit - videoIds.length
+    switch (target.type) {
+      case 'video':
+        videoIds.push(target.videoId)
+        break
+      case 'playlist':
+        videoIds.push(...await listPlaylistVideos(target.playlistId, remaining))
+        break
+      case 'channel':
+        videoIds.push(...await listPlaylistVideos(uploadsPlaylistId(target.channelId), remaining))
+        break
+      case 'handle': {
+        const channelId = await resolveChannelHandle(target.handle)
+        videoIds.push(...await listPlaylistVideos(uploadsPlaylistId(channelId), remaining))
+        break
+      }
+    }
+  }
+
+  // 중복 제거 (순서 유지)
+  return Array.from(new Set(videoIds)).slice(0, limit)
+}
@@ -0,0 +1,52 @@
+// 유튜브 URL 파싱 (브라우저/서버 공용)
+
+export type YoutubeTarget =
+  | { type: 'video'; videoId: string }
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'channel'; channelId: string }
+  | { type: 'handle'; handle: string }
+
+const VIDEO_PATTERNS = [
+  /(?:youtube\.com\/watch\?(?:.*&)?v=|youtu\.be\/|youtube\.com\/embed\/|youtube\.com\/live\/)([a-zA-Z0-9_-]{11})/,
+  /youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
+]
+
+export function extractVideoId(input: string): string | null {
+  for (const pattern of VIDEO_PATTERNS) {
+    const match = input.match(pattern)
+    if (match) return match[1]
+  }
+  return null
+}
+
+// 영상 / 재생목록 / 채널(@핸들, /channel/UC...) 구분
+export function parseYoutubeTarget(input: string): YoutubeTarget | null {
+  const value = input.trim()
+  if (!value) return null
+
+  // 재생목록 페이지 (watch?v=...&list=... 는 영상 하나로 취급)
+  const playlist = value.match(/youtube\.com\/playlist\?(?:.*&)?list=([a-zA-Z0-9_-]+)/)
+  if (playlist) return { type: 'playlist', playlistId: playlist[1] }
+
+  const videoId = extractVideoId(value)
+  if (videoId) return { type: 'video', videoId }
+
+  const channel = value.match(/youtube\.com\/channel\/(UC[a-zA-Z0-9_-]{22})/)
+  if (channel) return { type: 'channel', channelId: channel[1] }
+
+  const handle = value.match(/(?:youtube\.com\/)?@([a-zA-Z0-9._-]+)/)
+  if (handle) return { type: 'handle', handle: handle[1] }
+
+  // 맨 비디오 ID
+  if (/^[a-zA-Z0-9_-]{11}$/.test(value)) return { type: 'video', videoId: value }
+
+  return null
+}
+
+// 여러 줄(또는 공백/쉼표로 구분된) 입력 분리
+export function splitInputLines(input: string): string[] {
+  return input
+    .split(/[\s,]+/)
+    .map(line => line.trim())
+    .filter(Boolean)
+}
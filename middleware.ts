@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ACCESS_TOKEN_COOKIE, AUTH_ENABLED, USER_ID_HEADER } from '@/lib/authConfig'
+
+// 요청의 access token (Authorization 헤더 우선, 없으면 쿠키)
+function accessToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization')
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim() || null
+  }
+  return request.cookies.get(ACCESS_TOKEN_COOKIE)?.value || null
+}
+
+// Supabase Auth에 토큰을 확인하고 사용자 ID를 반환 (유효하지 않으면 null)
+async function verifyToken(token: string): Promise<string | null> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/auth/v1/user`, {
+    headers: {
+      apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) return null
+
+  const user = await response.json() as { id?: string }
+  return user.id || null
+}
+
+// 로그인을 켜면 모든 API 요청에서 토큰을 확인하고 사용자 ID를 헤더로 넘김
+export async function middleware(request: NextRequest) {
+  // 클라이언트가 보낸 사용자 ID 헤더는 믿지 않음
+  const headers = new Headers(request.headers)
+  headers.delete(USER_ID_HEADER)
+
+  // /api/v1은 라우트에서 API 키로, /api/cron은 CRON_SECRET으로 인증
+  const { pathname } = request.nextUrl
+  if (!AUTH_ENABLED || pathname.startsWith('/api/v1/') || pathname.startsWith('/api/cron/')) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const token = accessToken(request)
+  if (!token) {
+    // 관리자 API는 ADMIN_TOKEN으로도 부를 수 있어서 라우트에서 확인
+    if (pathname.startsWith('/api/admin/')) {
+      return NextResponse.next({ request: { headers } })
+    }
+    return NextResponse.json(
+      { error: '로그인이 필요합니다' },
+      { status: 401 }
+    )
+  }
+
+  let userId: string | null = null
+  try {
+    userId = await verifyToken(token)
+  } catch (error) {
+    console.error('Auth verify error:', error)
+    return NextResponse.json(
+      { error: '로그인 정보를 확인하지 못했습니다' },
+      { status: 503 }
+    )
+  }
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: '로그인이 만료되었습니다. 다시 로그인해주세요' },
+      { status: 401 }
+    )
+  }
+
+  headers.set(USER_ID_HEADER, userId)
+  return NextResponse.next({ request: { headers } })
+}
+
+export const config = {
+  matcher: '/api/:path*',
+}
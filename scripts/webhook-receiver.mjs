@@ -0,0 +1,41 @@
+// 웹훅을 로컬에서 시험해보는 수신기
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs [포트]
+// 받은 요청의 서명을 확인하고 내용을 출력한다. FAIL_TIMES=2로 실행하면 처음 두 번은 500으로 응답해서 재시도를 확인할 수 있다.
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { createServer } from 'node:http'
+
+const port = Number(process.argv[2] || process.env.PORT) || 4000
+const secret = process.env.WEBHOOK_SECRET || ''
+let failTimes = Number(process.env.FAIL_TIMES) || 0
+
+// 서명 헤더: t=<unix 초>,v1=<HMAC-SHA256(secret, "<t>.<본문>") hex>
+function verify(header, body) {
+  const parts = Object.fromEntries((header || '').split(',').map(part => part.split('=')))
+  if (!parts.t || !parts.v1) return false
+  const expected = createHmac('sha256', secret).update(`${parts.t}.${body}`).digest('hex')
+  return expected.length === parts.v1.length && timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1))
+}
+
+createServer((request, response) => {
+  let body = ''
+  request.on('data', chunk => { body += chunk })
+  request.on('end', () => {
+    const signature = request.headers['x-webhook-signature']
+    const verified = secret ? verify(signature, body) : null
+    const payload = JSON.parse(body || '{}')
+
+    console.log(`\n${new Date().toISOString()} ${request.headers['x-webhook-event']} (${request.headers['x-webhook-id']})`)
+    console.log(`서명: ${verified === null ? 'WEBHOOK_SECRET이 없어 확인 안 함' : verified ? '확인됨' : '일치하지 않음'}`)
+    console.log(JSON.stringify({ ...payload, data: { ...payload.data, segments: payload.data?.segments?.length } }, null, 2))
+
+    if (failTimes > 0) {
+      failTimes -= 1
+      response.writeHead(500).end('fail')
+      return
+    }
+
+    response.writeHead(verified === false ? 401 : 200).end('ok')
+  })
+}).listen(port, () => {
+  console.log(`웹훅 수신 대기 중: http://localhost:${port}`)
+})
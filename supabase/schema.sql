@@ -0,0 +1,344 @@
+-- 여러 번 실행해도 되는 스크립트: 새로 설치할 때도, 이전 버전 DB를 올릴 때도 그대로 실행
+-- (테이블은 create table if not exists, 나중에 추가된 열은 add column if not exists)
+
+-- 팀 워크스페이스 (기록을 멤버끼리 함께 봄)
+create table if not exists workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  invite_code text not null unique,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists workspace_members (
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on workspace_members (user_id);
+
+-- 추출 기록
+create table if not exists crawl_history (
+  id uuid primary key default gen_random_uuid(),
+  video_id text,
+  title text not null,
+  thumbnail text,
+  channel_name text,
+  source text not null check (source in ('captions', 'whisper', 'upload')),
+  language text,
+  transcript jsonb not null default '[]'::jsonb,
+  full_text text not null default '',
+  translations jsonb not null default '{}'::jsonb,
+  summary jsonb,
+  speakers jsonb not null default '{}'::jsonb,
+  -- 처음 수정하기 전 대본 (비교용)
+  original_transcript jsonb,
+  edited_at timestamptz,
+  -- 로그인을 켜기 전에 만든 기록은 null, 워크스페이스가 없으면 개인 기록
+  user_id uuid references auth.users (id) on delete cascade,
+  workspace_id uuid references workspaces (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  -- 한국어는 형태소 분석기가 없어 simple 설정으로 단어 단위 색인
+  search_vector tsvector generated always as (
+    to_tsvector('simple', coalesce(title, '') || ' ' || full_text)
+  ) stored
+);
+
+-- 이전 버전에서 만든 crawl_history에 나중에 추가된 열 (색인보다 먼저)
+alter table crawl_history add column if not exists language text;
+alter table crawl_history add column if not exists translations jsonb not null default '{}'::jsonb;
+alter table crawl_history add column if not exists summary jsonb;
+alter table crawl_history add column if not exists speakers jsonb not null default '{}'::jsonb;
+alter table crawl_history add column if not exists original_transcript jsonb;
+alter table crawl_history add column if not exists edited_at timestamptz;
+alter table crawl_history add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table crawl_history add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+alter table crawl_history add column if not exists search_vector tsvector generated always as (
+  to_tsvector('simple', coalesce(title, '') || ' ' || full_text)
+) stored;
+
+create index if not exists crawl_history_created_at_idx on crawl_history (created_at desc);
+create index if not exists crawl_history_user_id_idx on crawl_history (user_id, created_at desc);
+create index if not exists crawl_history_workspace_id_idx on crawl_history (workspace_id, created_at desc);
+create index if not exists crawl_history_search_idx on crawl_history using gin (search_vector);
+
+-- 조사가 붙은 단어("영상을")처럼 전체 단어 검색에 안 걸리는 경우용 부분 일치 색인
+create extension if not exists pg_trgm;
+create index if not exists crawl_history_full_text_trgm_idx on crawl_history using gin (full_text gin_trgm_ops);
+
+-- 재생목록/채널 일괄 추출 (영상별 진행 상태는 transcription_jobs.batch_id로 연결된 작업에 있음)
+create table if not exists batch_jobs (
+  id uuid primary key default gen_random_uuid(),
+  video_ids text[] not null default '{}',
+  user_id uuid references auth.users (id) on delete cascade,
+  workspace_id uuid references workspaces (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table batch_jobs add column if not exists video_ids text[] not null default '{}';
+alter table batch_jobs add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table batch_jobs add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+
+-- 백그라운드 추출 작업
+create table if not exists transcription_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued',
+  progress jsonb,
+  result jsonb,
+  error text,
+  -- 어느 인스턴스에서든 다시 실행할 수 있게 저장하는 작업 내용 (lib/jobs.ts의 JobInput)
+  input jsonb,
+  -- 사용량/웹훅에 남길 라우트 이름과 사용량 대상 (user:<id> 또는 ip:<주소>)
+  route text,
+  subject text,
+  user_id uuid references auth.users (id) on delete cascade,
+  workspace_id uuid references workspaces (id) on delete cascade,
+  batch_id uuid references batch_jobs (id) on delete cascade,
+  -- 실행을 시작한 횟수 (멈춘 작업을 cron이 다시 가져갈 때마다 늘어남)
+  attempts integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table transcription_jobs add column if not exists input jsonb;
+alter table transcription_jobs add column if not exists route text;
+alter table transcription_jobs add column if not exists subject text;
+alter table transcription_jobs add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table transcription_jobs add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+alter table transcription_jobs add column if not exists batch_id uuid references batch_jobs (id) on delete cascade;
+alter table transcription_jobs add column if not exists attempts integer not null default 0;
+
+-- cron이 대기 중이거나 멈춘 작업을 찾을 때
+create index if not exists transcription_jobs_status_idx on transcription_jobs (status, updated_at);
+create index if not exists transcription_jobs_batch_id_idx on transcription_jobs (batch_id);
+
+-- 나눠 올리는 파일 (조각은 Storage uploads 버킷의 <id>/<offset>, 받은 위치는 received)
+create table if not exists uploads (
+  id uuid primary key,
+  file_name text not null,
+  mime_type text not null default '',
+  size bigint not null,
+  received bigint not null default 0,
+  user_id uuid references auth.users (id) on delete cascade,
+  -- 완료 요청으로 작업을 시작하면 started_at, 작업을 만든 뒤 job_id (두 번 시작하지 않게)
+  started_at timestamptz,
+  job_id uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists uploads_updated_at_idx on uploads (updated_at);
+
+insert into storage.buckets (id, name, public)
+values ('uploads', 'uploads', false)
+on conflict (id) do nothing;
+
+-- 영상 정보 / 자막 / Whisper 결과 캐시 (key: video:<id>:<종류>[:언어])
+create table if not exists transcript_cache (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamptz not null
+);
+
+create index if not exists transcript_cache_expires_at_idx on transcript_cache (expires_at);
+
+-- 요청 수 제한 (key: user:<id> 또는 ip:<주소>)
+create table if not exists rate_limits (
+  key text primary key,
+  count integer not null,
+  reset_at timestamptz not null
+);
+
+-- 창이 지났으면 1부터, 아니면 1 증가 (동시에 들어온 요청도 한 번에 처리)
+create or replace function hit_rate_limit(p_key text, p_window_seconds integer)
+returns table (count integer, reset_at timestamptz)
+language sql
+as $$
+  insert into rate_limits as r (key, count, reset_at)
+  values (p_key, 1, now() + make_interval(secs => p_window_seconds))
+  on conflict (key) do update set
+    count = case when r.reset_at <= now() then 1 else r.count + 1 end,
+    reset_at = case when r.reset_at <= now() then excluded.reset_at else r.reset_at end
+  returning r.count, r.reset_at;
+$$;
+
+-- 음성 인식 사용량 (요청마다 오디오 길이와 예상 비용)
+create table if not exists usage_ledger (
+  id uuid primary key default gen_random_uuid(),
+  subject text not null,
+  user_id uuid,
+  route text not null,
+  source text,
+  provider text,
+  cached boolean not null default false,
+  audio_seconds numeric not null default 0,
+  cost_usd numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_ledger_subject_idx on usage_ledger (subject, created_at);
+create index if not exists usage_ledger_created_at_idx on usage_ledger (created_at);
+
+-- 날짜(UTC)별 사용량 합계 (보고서, 하루 사용량 확인). 음성 인식 시간은 캐시 제외
+create or replace function usage_daily(p_since timestamptz, p_subject text default null)
+returns table (day date, requests bigint, audio_seconds numeric, cost_usd numeric)
+language sql stable
+as $$
+  select
+    (u.created_at at time zone 'utc')::date,
+    count(*),
+    coalesce(sum(u.audio_seconds) filter (where not u.cached), 0),
+    coalesce(sum(u.cost_usd), 0)
+  from usage_ledger u
+  where u.created_at >= p_since and (p_subject is null or u.subject = p_subject)
+  group by 1
+  order by 1;
+$$;
+
+-- 기간 동안 비용이 많은 대상 순위
+create or replace function usage_top_subjects(p_since timestamptz, p_limit integer)
+returns table (subject text, requests bigint, audio_seconds numeric, cost_usd numeric)
+language sql stable
+as $$
+  select
+    u.subject,
+    count(*),
+    coalesce(sum(u.audio_seconds) filter (where not u.cached), 0) as audio_seconds,
+    coalesce(sum(u.cost_usd), 0) as cost_usd
+  from usage_ledger u
+  where u.created_at >= p_since
+  group by u.subject
+  order by cost_usd desc, audio_seconds desc
+  limit p_limit;
+$$;
+
+-- /api/v1 API 키 (원문은 저장하지 않고 sha256 해시만)
+create table if not exists api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  prefix text not null,
+  key_hash text not null unique,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_keys_user_id_idx on api_keys (user_id);
+
+-- 추출 완료/실패 알림 웹훅 (user_id가 null이면 로그인 없이 등록한 공용 웹훅)
+-- secret은 본문 서명(HMAC)에 그대로 써야 해서 해시하지 않고 저장
+create table if not exists webhooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  url text not null,
+  events text[] not null,
+  secret text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_user_id_idx on webhooks (user_id);
+
+-- 웹훅 전송 기록 (보낼 때마다 attempts 갱신)
+create table if not exists webhook_deliveries (
+  id uuid primary key,
+  webhook_id uuid not null references webhooks (id) on delete cascade,
+  event text not null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  response_status integer,
+  last_error text,
+  -- 보낼 본문 (다시 보낼 때도 그대로)
+  payload jsonb,
+  -- 다음에 보낼 시간 (/api/cron/webhooks가 때가 된 전송을 다시 보냄, 끝났으면 null)
+  next_attempt_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table webhook_deliveries add column if not exists payload jsonb;
+alter table webhook_deliveries add column if not exists next_attempt_at timestamptz;
+
+create index if not exists webhook_deliveries_webhook_id_idx on webhook_deliveries (webhook_id, created_at desc);
+create index if not exists webhook_deliveries_due_idx on webhook_deliveries (status, next_attempt_at);
+
+-- 구독한 유튜브 채널 (RSS 피드로 새 영상 확인)
+create table if not exists channel_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  workspace_id uuid references workspaces (id) on delete cascade,
+  channel_id text not null,
+  title text not null,
+  created_at timestamptz not null default now(),
+  last_checked_at timestamptz,
+  last_error text
+);
+
+create index if not exists channel_subscriptions_owner_idx on channel_subscriptions (workspace_id, user_id);
+
+-- 구독 채널에서 발견한 영상과 추출 상태 (pending → processing → done/failed)
+create table if not exists subscription_videos (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references channel_subscriptions (id) on delete cascade,
+  video_id text not null,
+  title text not null,
+  published_at timestamptz not null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  history_id uuid references crawl_history (id) on delete set null,
+  -- 추출을 맡긴 작업 (끝나면 결과를 history_id/status에 반영)
+  job_id uuid references transcription_jobs (id) on delete set null,
+  error text,
+  created_at timestamptz not null default now(),
+  -- 마지막으로 상태를 바꾼 시간 (작업을 만들기 전에 멈춘 영상은 다시 시도)
+  updated_at timestamptz not null default now(),
+  unique (subscription_id, video_id)
+);
+
+alter table subscription_videos add column if not exists updated_at timestamptz not null default now();
+alter table subscription_videos add column if not exists job_id uuid references transcription_jobs (id) on delete set null;
+
+create index if not exists subscription_videos_status_idx on subscription_videos (subscription_id, status, published_at);
+
+-- 행 단위 접근 제어: 서버는 service key로 접근하고 코드에서 사용자별로 거르지만,
+-- anon key로 직접 붙는 경우에도 본인/소속 워크스페이스 기록만 보이도록 함
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+alter table crawl_history enable row level security;
+alter table transcription_jobs enable row level security;
+alter table batch_jobs enable row level security;
+alter table uploads enable row level security;
+alter table transcript_cache enable row level security;
+alter table rate_limits enable row level security;
+alter table usage_ledger enable row level security;
+alter table api_keys enable row level security;
+alter table webhooks enable row level security;
+alter table webhook_deliveries enable row level security;
+alter table channel_subscriptions enable row level security;
+alter table subscription_videos enable row level security;
+
+drop policy if exists "own memberships" on workspace_members;
+create policy "own memberships" on workspace_members
+  for select to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "member workspaces" on workspaces;
+create policy "member workspaces" on workspaces
+  for select to authenticated
+  using (id in (select workspace_id from workspace_members where user_id = auth.uid()));
+
+drop policy if exists "own or workspace history" on crawl_history;
+create policy "own or workspace history" on crawl_history
+  for all to authenticated
+  using (
+    (workspace_id is null and user_id = auth.uid())
+    or workspace_id in (select workspace_id from workspace_members where user_id = auth.uid())
+  )
+  with check (
+    (workspace_id is null and user_id = auth.uid())
+    or workspace_id in (select workspace_id from workspace_members where user_id = auth.uid())
+  );
@@ -4,6 +4,8 @@ module.exports = {
     './pages/**/*.{js,ts,jsx,tsx,mdx}',
     './components/**/*.{js,ts,jsx,tsx,mdx}',
     './app/**/*.{js,ts,jsx,tsx,mdx}',
+    // 화자 색 등 lib에서 정하는 클래스
+    './lib/**/*.{js,ts,jsx,tsx}',
   ],
   theme: {
     extend: {